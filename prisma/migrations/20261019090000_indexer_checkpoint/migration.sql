@@ -0,0 +1,8 @@
+-- CreateTable
+CREATE TABLE "indexer_checkpoints" (
+    "id" TEXT NOT NULL,
+    "blockNumber" BIGINT NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "indexer_checkpoints_pkey" PRIMARY KEY ("id")
+);
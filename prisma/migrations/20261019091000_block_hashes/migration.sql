@@ -0,0 +1,10 @@
+-- CreateTable
+CREATE TABLE "blocks" (
+    "number" BIGINT NOT NULL,
+    "hash" VARCHAR(66) NOT NULL,
+    "parentHash" VARCHAR(66) NOT NULL,
+    "timestamp" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "blocks_pkey" PRIMARY KEY ("number")
+);
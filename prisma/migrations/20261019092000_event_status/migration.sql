@@ -0,0 +1,14 @@
+-- CreateEnum
+CREATE TYPE "EventStatus" AS ENUM ('pending', 'confirmed');
+
+-- AlterTable
+ALTER TABLE "erc20_transfers" ADD COLUMN     "status" "EventStatus" NOT NULL DEFAULT 'confirmed';
+
+-- AlterTable
+ALTER TABLE "swaps" ADD COLUMN     "status" "EventStatus" NOT NULL DEFAULT 'confirmed';
+
+-- CreateIndex
+CREATE INDEX "erc20_transfers_status_idx" ON "erc20_transfers"("status");
+
+-- CreateIndex
+CREATE INDEX "swaps_status_idx" ON "swaps"("status");
@@ -0,0 +1,27 @@
+-- Remove duplicates written by retried batches, keeping one row per log
+DELETE FROM "event_logs" a USING "event_logs" b
+WHERE a."transactionHash" = b."transactionHash" AND a."logIndex" = b."logIndex" AND a."id" > b."id";
+
+DELETE FROM "erc20_transfers" a USING "erc20_transfers" b
+WHERE a."transactionHash" = b."transactionHash" AND a."logIndex" = b."logIndex" AND a."id" > b."id";
+
+DELETE FROM "swaps" a USING "swaps" b
+WHERE a."transactionHash" = b."transactionHash" AND a."logIndex" = b."logIndex" AND a."id" > b."id";
+
+-- DropIndex
+DROP INDEX "event_logs_transactionHash_idx";
+
+-- DropIndex
+DROP INDEX "erc20_transfers_transactionHash_idx";
+
+-- DropIndex
+DROP INDEX "swaps_transactionHash_idx";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "event_logs_transactionHash_logIndex_key" ON "event_logs"("transactionHash", "logIndex");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "erc20_transfers_transactionHash_logIndex_key" ON "erc20_transfers"("transactionHash", "logIndex");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "swaps_transactionHash_logIndex_key" ON "swaps"("transactionHash", "logIndex");
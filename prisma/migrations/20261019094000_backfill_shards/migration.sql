@@ -0,0 +1,18 @@
+-- CreateEnum
+CREATE TYPE "BackfillShardStatus" AS ENUM ('pending', 'running', 'complete');
+
+-- CreateTable
+CREATE TABLE "backfill_shards" (
+    "id" TEXT NOT NULL,
+    "fromBlock" BIGINT NOT NULL,
+    "toBlock" BIGINT NOT NULL,
+    "nextBlock" BIGINT NOT NULL,
+    "status" "BackfillShardStatus" NOT NULL DEFAULT 'pending',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "backfill_shards_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "backfill_shards_status_idx" ON "backfill_shards"("status");
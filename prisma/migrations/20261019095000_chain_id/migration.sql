@@ -0,0 +1,72 @@
+-- Rows indexed before multi-chain support all came from Ink mainnet (57073)
+
+-- AlterTable
+ALTER TABLE "event_logs" ADD COLUMN "chainId" INTEGER NOT NULL DEFAULT 57073;
+ALTER TABLE "event_logs" ALTER COLUMN "chainId" DROP DEFAULT;
+
+-- AlterTable
+ALTER TABLE "erc20_transfers" ADD COLUMN "chainId" INTEGER NOT NULL DEFAULT 57073;
+ALTER TABLE "erc20_transfers" ALTER COLUMN "chainId" DROP DEFAULT;
+
+-- AlterTable
+ALTER TABLE "swaps" ADD COLUMN "chainId" INTEGER NOT NULL DEFAULT 57073;
+ALTER TABLE "swaps" ALTER COLUMN "chainId" DROP DEFAULT;
+
+-- AlterTable
+ALTER TABLE "blocks" DROP CONSTRAINT "blocks_pkey",
+ADD COLUMN "chainId" INTEGER NOT NULL DEFAULT 57073,
+ADD CONSTRAINT "blocks_pkey" PRIMARY KEY ("chainId", "number");
+ALTER TABLE "blocks" ALTER COLUMN "chainId" DROP DEFAULT;
+
+-- AlterTable: the single 'default' checkpoint becomes Ink's
+ALTER TABLE "indexer_checkpoints" DROP CONSTRAINT "indexer_checkpoints_pkey",
+ADD COLUMN "chainId" INTEGER NOT NULL DEFAULT 57073;
+ALTER TABLE "indexer_checkpoints" DROP COLUMN "id",
+ADD CONSTRAINT "indexer_checkpoints_pkey" PRIMARY KEY ("chainId");
+ALTER TABLE "indexer_checkpoints" ALTER COLUMN "chainId" DROP DEFAULT;
+
+-- AlterTable
+ALTER TABLE "backfill_shards" ADD COLUMN "chainId" INTEGER NOT NULL DEFAULT 57073;
+ALTER TABLE "backfill_shards" ALTER COLUMN "chainId" DROP DEFAULT;
+
+-- DropIndex
+DROP INDEX "event_logs_transactionHash_logIndex_key";
+
+-- DropIndex
+DROP INDEX "event_logs_blockNumber_idx";
+
+-- DropIndex
+DROP INDEX "erc20_transfers_transactionHash_logIndex_key";
+
+-- DropIndex
+DROP INDEX "erc20_transfers_blockNumber_idx";
+
+-- DropIndex
+DROP INDEX "swaps_transactionHash_logIndex_key";
+
+-- DropIndex
+DROP INDEX "swaps_blockNumber_idx";
+
+-- DropIndex
+DROP INDEX "backfill_shards_status_idx";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "event_logs_chainId_transactionHash_logIndex_key" ON "event_logs"("chainId", "transactionHash", "logIndex");
+
+-- CreateIndex
+CREATE INDEX "event_logs_chainId_blockNumber_idx" ON "event_logs"("chainId", "blockNumber");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "erc20_transfers_chainId_transactionHash_logIndex_key" ON "erc20_transfers"("chainId", "transactionHash", "logIndex");
+
+-- CreateIndex
+CREATE INDEX "erc20_transfers_chainId_blockNumber_idx" ON "erc20_transfers"("chainId", "blockNumber");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "swaps_chainId_transactionHash_logIndex_key" ON "swaps"("chainId", "transactionHash", "logIndex");
+
+-- CreateIndex
+CREATE INDEX "swaps_chainId_blockNumber_idx" ON "swaps"("chainId", "blockNumber");
+
+-- CreateIndex
+CREATE INDEX "backfill_shards_chainId_status_idx" ON "backfill_shards"("chainId", "status");
@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "generic_events" (
+    "id" TEXT NOT NULL,
+    "chainId" INTEGER NOT NULL,
+    "blockNumber" BIGINT NOT NULL,
+    "blockTimestamp" TIMESTAMP(3) NOT NULL,
+    "transactionHash" VARCHAR(66) NOT NULL,
+    "logIndex" INTEGER NOT NULL,
+    "address" VARCHAR(42) NOT NULL,
+    "eventName" TEXT NOT NULL,
+    "signature" TEXT NOT NULL,
+    "args" JSONB NOT NULL,
+    "status" "EventStatus" NOT NULL DEFAULT 'confirmed',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "generic_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "generic_events_chainId_blockNumber_idx" ON "generic_events"("chainId", "blockNumber");
+
+-- CreateIndex
+CREATE INDEX "generic_events_status_idx" ON "generic_events"("status");
+
+-- CreateIndex
+CREATE INDEX "generic_events_address_idx" ON "generic_events"("address");
+
+-- CreateIndex
+CREATE INDEX "generic_events_eventName_idx" ON "generic_events"("eventName");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "generic_events_chainId_transactionHash_logIndex_key" ON "generic_events"("chainId", "transactionHash", "logIndex");
@@ -0,0 +1,41 @@
+-- CreateEnum
+CREATE TYPE "NFTStandard" AS ENUM ('erc721', 'erc1155');
+
+-- CreateTable
+CREATE TABLE "nft_transfers" (
+    "id" TEXT NOT NULL,
+    "chainId" INTEGER NOT NULL,
+    "blockNumber" BIGINT NOT NULL,
+    "blockTimestamp" TIMESTAMP(3) NOT NULL,
+    "transactionHash" VARCHAR(66) NOT NULL,
+    "logIndex" INTEGER NOT NULL,
+    "standard" "NFTStandard" NOT NULL,
+    "tokenAddress" VARCHAR(42) NOT NULL,
+    "operator" VARCHAR(42),
+    "from" VARCHAR(42) NOT NULL,
+    "to" VARCHAR(42) NOT NULL,
+    "tokenIds" TEXT[],
+    "amounts" TEXT[],
+    "status" "EventStatus" NOT NULL DEFAULT 'confirmed',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "nft_transfers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "nft_transfers_chainId_blockNumber_idx" ON "nft_transfers"("chainId", "blockNumber");
+
+-- CreateIndex
+CREATE INDEX "nft_transfers_status_idx" ON "nft_transfers"("status");
+
+-- CreateIndex
+CREATE INDEX "nft_transfers_to_idx" ON "nft_transfers"("to");
+
+-- CreateIndex
+CREATE INDEX "nft_transfers_tokenAddress_idx" ON "nft_transfers"("tokenAddress");
+
+-- CreateIndex
+CREATE INDEX "nft_transfers_tokenIds_idx" ON "nft_transfers" USING GIN ("tokenIds");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "nft_transfers_chainId_transactionHash_logIndex_key" ON "nft_transfers"("chainId", "transactionHash", "logIndex");
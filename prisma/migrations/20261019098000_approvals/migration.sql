@@ -0,0 +1,53 @@
+-- CreateTable
+CREATE TABLE "approvals" (
+    "id" TEXT NOT NULL,
+    "chainId" INTEGER NOT NULL,
+    "blockNumber" BIGINT NOT NULL,
+    "blockTimestamp" TIMESTAMP(3) NOT NULL,
+    "transactionHash" VARCHAR(66) NOT NULL,
+    "logIndex" INTEGER NOT NULL,
+    "tokenAddress" VARCHAR(42) NOT NULL,
+    "owner" VARCHAR(42) NOT NULL,
+    "spender" VARCHAR(42) NOT NULL,
+    "value" TEXT NOT NULL,
+    "status" "EventStatus" NOT NULL DEFAULT 'confirmed',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "approvals_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "allowances" (
+    "chainId" INTEGER NOT NULL,
+    "tokenAddress" VARCHAR(42) NOT NULL,
+    "owner" VARCHAR(42) NOT NULL,
+    "spender" VARCHAR(42) NOT NULL,
+    "value" TEXT NOT NULL,
+    "blockNumber" BIGINT NOT NULL,
+    "logIndex" INTEGER NOT NULL,
+    "transactionHash" VARCHAR(66) NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "allowances_pkey" PRIMARY KEY ("chainId","tokenAddress","owner","spender")
+);
+
+-- CreateIndex
+CREATE INDEX "approvals_chainId_blockNumber_idx" ON "approvals"("chainId", "blockNumber");
+
+-- CreateIndex
+CREATE INDEX "approvals_status_idx" ON "approvals"("status");
+
+-- CreateIndex
+CREATE INDEX "approvals_owner_idx" ON "approvals"("owner");
+
+-- CreateIndex
+CREATE INDEX "approvals_tokenAddress_idx" ON "approvals"("tokenAddress");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "approvals_chainId_transactionHash_logIndex_key" ON "approvals"("chainId", "transactionHash", "logIndex");
+
+-- CreateIndex
+CREATE INDEX "allowances_chainId_owner_idx" ON "allowances"("chainId", "owner");
+
+-- CreateIndex
+CREATE INDEX "allowances_chainId_blockNumber_idx" ON "allowances"("chainId", "blockNumber");
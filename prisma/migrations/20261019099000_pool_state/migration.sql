@@ -0,0 +1,81 @@
+-- CreateEnum
+CREATE TYPE "LiquidityEventKind" AS ENUM ('mint', 'burn', 'collect', 'sync');
+
+-- AlterTable
+ALTER TABLE "swaps" ADD COLUMN "sqrtPriceX96" TEXT,
+ADD COLUMN "liquidity" TEXT,
+ADD COLUMN "tick" INTEGER;
+
+-- CreateTable
+CREATE TABLE "liquidity_events" (
+    "id" TEXT NOT NULL,
+    "chainId" INTEGER NOT NULL,
+    "blockNumber" BIGINT NOT NULL,
+    "blockTimestamp" TIMESTAMP(3) NOT NULL,
+    "transactionHash" VARCHAR(66) NOT NULL,
+    "logIndex" INTEGER NOT NULL,
+    "poolAddress" VARCHAR(42) NOT NULL,
+    "kind" "LiquidityEventKind" NOT NULL,
+    "sender" VARCHAR(42),
+    "owner" VARCHAR(42),
+    "recipient" VARCHAR(42),
+    "tickLower" INTEGER,
+    "tickUpper" INTEGER,
+    "liquidity" TEXT,
+    "amount0" TEXT NOT NULL,
+    "amount1" TEXT NOT NULL,
+    "status" "EventStatus" NOT NULL DEFAULT 'confirmed',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "liquidity_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "pool_states" (
+    "chainId" INTEGER NOT NULL,
+    "poolAddress" VARCHAR(42) NOT NULL,
+    "reserve0" TEXT,
+    "reserve1" TEXT,
+    "sqrtPriceX96" TEXT,
+    "tick" INTEGER,
+    "liquidity" TEXT,
+    "blockNumber" BIGINT NOT NULL,
+    "logIndex" INTEGER NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "pool_states_pkey" PRIMARY KEY ("chainId","poolAddress")
+);
+
+-- CreateTable
+CREATE TABLE "pool_snapshots" (
+    "chainId" INTEGER NOT NULL,
+    "poolAddress" VARCHAR(42) NOT NULL,
+    "blockNumber" BIGINT NOT NULL,
+    "blockTimestamp" TIMESTAMP(3) NOT NULL,
+    "logIndex" INTEGER NOT NULL,
+    "reserve0" TEXT,
+    "reserve1" TEXT,
+    "sqrtPriceX96" TEXT,
+    "tick" INTEGER,
+    "liquidity" TEXT,
+
+    CONSTRAINT "pool_snapshots_pkey" PRIMARY KEY ("chainId","poolAddress","blockNumber")
+);
+
+-- CreateIndex
+CREATE INDEX "liquidity_events_chainId_blockNumber_idx" ON "liquidity_events"("chainId", "blockNumber");
+
+-- CreateIndex
+CREATE INDEX "liquidity_events_status_idx" ON "liquidity_events"("status");
+
+-- CreateIndex
+CREATE INDEX "liquidity_events_poolAddress_idx" ON "liquidity_events"("poolAddress");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "liquidity_events_chainId_transactionHash_logIndex_key" ON "liquidity_events"("chainId", "transactionHash", "logIndex");
+
+-- CreateIndex
+CREATE INDEX "pool_states_chainId_blockNumber_idx" ON "pool_states"("chainId", "blockNumber");
+
+-- CreateIndex
+CREATE INDEX "pool_snapshots_chainId_blockNumber_idx" ON "pool_snapshots"("chainId", "blockNumber");
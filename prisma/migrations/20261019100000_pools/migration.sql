@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "pools" (
+    "chainId" INTEGER NOT NULL,
+    "address" VARCHAR(42) NOT NULL,
+    "token0" VARCHAR(42) NOT NULL,
+    "token1" VARCHAR(42) NOT NULL,
+    "fee" INTEGER,
+    "tickSpacing" INTEGER,
+    "factoryAddress" VARCHAR(42),
+    "blockNumber" BIGINT,
+    "transactionHash" VARCHAR(66),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "pools_pkey" PRIMARY KEY ("chainId","address")
+);
+
+-- CreateIndex
+CREATE INDEX "pools_chainId_token0_idx" ON "pools"("chainId", "token0");
+
+-- CreateIndex
+CREATE INDEX "pools_chainId_token1_idx" ON "pools"("chainId", "token1");
+
+-- CreateIndex
+CREATE INDEX "pools_chainId_blockNumber_idx" ON "pools"("chainId", "blockNumber");
@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "tokens" (
+    "chainId" INTEGER NOT NULL,
+    "address" VARCHAR(42) NOT NULL,
+    "name" TEXT,
+    "symbol" TEXT,
+    "decimals" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "tokens_pkey" PRIMARY KEY ("chainId","address")
+);
+
+-- CreateIndex
+CREATE INDEX "tokens_chainId_symbol_idx" ON "tokens"("chainId", "symbol");
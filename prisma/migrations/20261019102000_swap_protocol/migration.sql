@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "swaps" ADD COLUMN "protocol" VARCHAR(64) NOT NULL DEFAULT 'uniswap-v2',
+ADD COLUMN "fee" INTEGER,
+ADD COLUMN "amount0" TEXT,
+ADD COLUMN "amount1" TEXT;
+
+-- Existing rows are all V2 swaps and keep the default protocol: V3 Swap logs
+-- were never decoded before (sqrtPriceX96 was declared uint256, so the event
+-- selector never matched). Blocks must be reindexed to pick up V3 swaps.
+
+-- Fee tiers of existing swaps, from their pools
+UPDATE "swaps" SET "fee" = "pools"."fee"
+FROM "pools"
+WHERE "pools"."chainId" = "swaps"."chainId" AND "pools"."address" = LOWER("swaps"."poolAddress");
+
+ALTER TABLE "swaps" ALTER COLUMN "protocol" DROP DEFAULT;
+
+-- CreateIndex
+CREATE INDEX "swaps_chainId_protocol_idx" ON "swaps"("chainId", "protocol");
@@ -0,0 +1,49 @@
+-- AlterTable
+ALTER TABLE "erc20_transfers" ADD COLUMN "eventLogId" TEXT;
+ALTER TABLE "approvals" ADD COLUMN "eventLogId" TEXT;
+ALTER TABLE "nft_transfers" ADD COLUMN "eventLogId" TEXT;
+ALTER TABLE "swaps" ADD COLUMN "eventLogId" TEXT;
+ALTER TABLE "liquidity_events" ADD COLUMN "eventLogId" TEXT;
+ALTER TABLE "generic_events" ADD COLUMN "eventLogId" TEXT;
+
+-- Link existing rows to the event log written alongside them. Logs indexed
+-- before this migration keep empty topics and data until their blocks are reindexed.
+UPDATE "erc20_transfers" AS t SET "eventLogId" = e."id"
+FROM "event_logs" AS e
+WHERE e."chainId" = t."chainId" AND e."transactionHash" = t."transactionHash" AND e."logIndex" = t."logIndex";
+
+UPDATE "approvals" AS t SET "eventLogId" = e."id"
+FROM "event_logs" AS e
+WHERE e."chainId" = t."chainId" AND e."transactionHash" = t."transactionHash" AND e."logIndex" = t."logIndex";
+
+UPDATE "nft_transfers" AS t SET "eventLogId" = e."id"
+FROM "event_logs" AS e
+WHERE e."chainId" = t."chainId" AND e."transactionHash" = t."transactionHash" AND e."logIndex" = t."logIndex";
+
+UPDATE "swaps" AS t SET "eventLogId" = e."id"
+FROM "event_logs" AS e
+WHERE e."chainId" = t."chainId" AND e."transactionHash" = t."transactionHash" AND e."logIndex" = t."logIndex";
+
+UPDATE "liquidity_events" AS t SET "eventLogId" = e."id"
+FROM "event_logs" AS e
+WHERE e."chainId" = t."chainId" AND e."transactionHash" = t."transactionHash" AND e."logIndex" = t."logIndex";
+
+UPDATE "generic_events" AS t SET "eventLogId" = e."id"
+FROM "event_logs" AS e
+WHERE e."chainId" = t."chainId" AND e."transactionHash" = t."transactionHash" AND e."logIndex" = t."logIndex";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "erc20_transfers_eventLogId_key" ON "erc20_transfers"("eventLogId");
+CREATE UNIQUE INDEX "approvals_eventLogId_key" ON "approvals"("eventLogId");
+CREATE UNIQUE INDEX "nft_transfers_eventLogId_key" ON "nft_transfers"("eventLogId");
+CREATE UNIQUE INDEX "swaps_eventLogId_key" ON "swaps"("eventLogId");
+CREATE UNIQUE INDEX "liquidity_events_eventLogId_key" ON "liquidity_events"("eventLogId");
+CREATE UNIQUE INDEX "generic_events_eventLogId_key" ON "generic_events"("eventLogId");
+
+-- AddForeignKey
+ALTER TABLE "erc20_transfers" ADD CONSTRAINT "erc20_transfers_eventLogId_fkey" FOREIGN KEY ("eventLogId") REFERENCES "event_logs"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "approvals" ADD CONSTRAINT "approvals_eventLogId_fkey" FOREIGN KEY ("eventLogId") REFERENCES "event_logs"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "nft_transfers" ADD CONSTRAINT "nft_transfers_eventLogId_fkey" FOREIGN KEY ("eventLogId") REFERENCES "event_logs"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "swaps" ADD CONSTRAINT "swaps_eventLogId_fkey" FOREIGN KEY ("eventLogId") REFERENCES "event_logs"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "liquidity_events" ADD CONSTRAINT "liquidity_events_eventLogId_fkey" FOREIGN KEY ("eventLogId") REFERENCES "event_logs"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "generic_events" ADD CONSTRAINT "generic_events_eventLogId_fkey" FOREIGN KEY ("eventLogId") REFERENCES "event_logs"("id") ON DELETE SET NULL ON UPDATE CASCADE;
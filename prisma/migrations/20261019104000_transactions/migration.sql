@@ -0,0 +1,24 @@
+-- CreateEnum
+CREATE TYPE "TransactionStatus" AS ENUM ('success', 'reverted');
+
+-- CreateTable
+CREATE TABLE "transactions" (
+    "chainId" INTEGER NOT NULL,
+    "hash" VARCHAR(66) NOT NULL,
+    "blockNumber" BIGINT NOT NULL,
+    "from" VARCHAR(42) NOT NULL,
+    "to" VARCHAR(42),
+    "selector" VARCHAR(10),
+    "gasUsed" TEXT NOT NULL,
+    "effectiveGasPrice" TEXT NOT NULL,
+    "status" "TransactionStatus" NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "transactions_pkey" PRIMARY KEY ("chainId","hash")
+);
+
+-- CreateIndex
+CREATE INDEX "transactions_chainId_blockNumber_idx" ON "transactions"("chainId", "blockNumber");
+
+-- CreateIndex
+CREATE INDEX "transactions_chainId_from_idx" ON "transactions"("chainId", "from");
@@ -0,0 +1,52 @@
+-- CreateTable
+CREATE TABLE "balances" (
+    "chainId" INTEGER NOT NULL,
+    "tokenAddress" VARCHAR(42) NOT NULL,
+    "owner" VARCHAR(42) NOT NULL,
+    "value" TEXT NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "balances_pkey" PRIMARY KEY ("chainId","tokenAddress","owner")
+);
+
+-- CreateTable
+CREATE TABLE "balance_changes" (
+    "chainId" INTEGER NOT NULL,
+    "tokenAddress" VARCHAR(42) NOT NULL,
+    "owner" VARCHAR(42) NOT NULL,
+    "blockNumber" BIGINT NOT NULL,
+    "blockTimestamp" TIMESTAMP(3) NOT NULL,
+    "delta" TEXT NOT NULL,
+
+    CONSTRAINT "balance_changes_pkey" PRIMARY KEY ("chainId","tokenAddress","owner","blockNumber")
+);
+
+-- CreateIndex
+CREATE INDEX "balances_chainId_owner_idx" ON "balances"("chainId", "owner");
+
+-- CreateIndex
+CREATE INDEX "balance_changes_chainId_owner_blockNumber_idx" ON "balance_changes"("chainId", "owner", "blockNumber");
+
+-- CreateIndex
+CREATE INDEX "balance_changes_chainId_blockNumber_idx" ON "balance_changes"("chainId", "blockNumber");
+
+-- Derive balances from the transfers indexed so far
+INSERT INTO "balance_changes" ("chainId", "tokenAddress", "owner", "blockNumber", "blockTimestamp", "delta")
+SELECT "chainId", "tokenAddress", "owner", "blockNumber", MIN("blockTimestamp"), SUM("amount")::TEXT
+FROM (
+    SELECT "chainId", LOWER("tokenAddress") AS "tokenAddress", LOWER("to") AS "owner",
+           "blockNumber", "blockTimestamp", "value"::NUMERIC AS "amount"
+    FROM "erc20_transfers"
+    UNION ALL
+    SELECT "chainId", LOWER("tokenAddress"), LOWER("from"),
+           "blockNumber", "blockTimestamp", -("value"::NUMERIC)
+    FROM "erc20_transfers"
+) AS "moves"
+WHERE "owner" <> '0x0000000000000000000000000000000000000000'
+GROUP BY "chainId", "tokenAddress", "owner", "blockNumber"
+HAVING SUM("amount") <> 0;
+
+INSERT INTO "balances" ("chainId", "tokenAddress", "owner", "value", "updatedAt")
+SELECT "chainId", "tokenAddress", "owner", SUM("delta"::NUMERIC)::TEXT, CURRENT_TIMESTAMP
+FROM "balance_changes"
+GROUP BY "chainId", "tokenAddress", "owner";
@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "token_stats" (
+    "chainId" INTEGER NOT NULL,
+    "tokenAddress" VARCHAR(42) NOT NULL,
+    "holderCount" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "token_stats_pkey" PRIMARY KEY ("chainId","tokenAddress")
+);
+
+-- Count the holders in the balances derived so far
+INSERT INTO "token_stats" ("chainId", "tokenAddress", "holderCount", "updatedAt")
+SELECT "chainId", "tokenAddress", COUNT(*), CURRENT_TIMESTAMP
+FROM "balances"
+WHERE "value"::NUMERIC > 0
+GROUP BY "chainId", "tokenAddress";
@@ -0,0 +1,61 @@
+-- CreateTable
+CREATE TABLE "candles" (
+    "chainId" INTEGER NOT NULL,
+    "poolAddress" VARCHAR(42) NOT NULL,
+    "interval" VARCHAR(3) NOT NULL,
+    "bucketStart" TIMESTAMP(3) NOT NULL,
+    "open" DOUBLE PRECISION NOT NULL,
+    "high" DOUBLE PRECISION NOT NULL,
+    "low" DOUBLE PRECISION NOT NULL,
+    "close" DOUBLE PRECISION NOT NULL,
+    "volume0" TEXT NOT NULL,
+    "volume1" TEXT NOT NULL,
+    "swapCount" INTEGER NOT NULL,
+    "openBlockNumber" BIGINT NOT NULL,
+    "openLogIndex" INTEGER NOT NULL,
+    "closeBlockNumber" BIGINT NOT NULL,
+    "closeLogIndex" INTEGER NOT NULL,
+
+    CONSTRAINT "candles_pkey" PRIMARY KEY ("chainId","poolAddress","interval","bucketStart")
+);
+
+-- Build candles from the swaps indexed so far: V3 swaps are priced from
+-- sqrtPriceX96, V2 swaps from the amounts exchanged
+WITH "priced" AS (
+    SELECT "chainId", "poolAddress", "blockNumber", "logIndex", "blockTimestamp",
+           CASE
+               WHEN "sqrtPriceX96" IS NOT NULL
+                   THEN POWER("sqrtPriceX96"::NUMERIC / 2::NUMERIC ^ 96, 2)::DOUBLE PRECISION
+               WHEN "amount0In"::NUMERIC + "amount0Out"::NUMERIC > 0
+                   THEN (("amount1In"::NUMERIC + "amount1Out"::NUMERIC)
+                         / ("amount0In"::NUMERIC + "amount0Out"::NUMERIC))::DOUBLE PRECISION
+           END AS "price",
+           "amount0In"::NUMERIC + "amount0Out"::NUMERIC AS "volume0",
+           "amount1In"::NUMERIC + "amount1Out"::NUMERIC AS "volume1"
+    FROM "swaps"
+),
+"intervals" ("interval", "seconds") AS (
+    VALUES ('1m', 60), ('5m', 300), ('1h', 3600), ('1d', 86400)
+),
+"bucketed" AS (
+    SELECT "priced".*, "intervals"."interval",
+           TO_TIMESTAMP(FLOOR(EXTRACT(EPOCH FROM "blockTimestamp") / "seconds") * "seconds")
+               AT TIME ZONE 'UTC' AS "bucketStart"
+    FROM "priced" CROSS JOIN "intervals"
+    WHERE "price" IS NOT NULL
+)
+INSERT INTO "candles"
+SELECT "chainId", "poolAddress", "interval", "bucketStart",
+       (ARRAY_AGG("price" ORDER BY "blockNumber", "logIndex"))[1],
+       MAX("price"),
+       MIN("price"),
+       (ARRAY_AGG("price" ORDER BY "blockNumber" DESC, "logIndex" DESC))[1],
+       SUM("volume0")::TEXT,
+       SUM("volume1")::TEXT,
+       COUNT(*),
+       (ARRAY_AGG("blockNumber" ORDER BY "blockNumber", "logIndex"))[1],
+       (ARRAY_AGG("logIndex" ORDER BY "blockNumber", "logIndex"))[1],
+       (ARRAY_AGG("blockNumber" ORDER BY "blockNumber" DESC, "logIndex" DESC))[1],
+       (ARRAY_AGG("logIndex" ORDER BY "blockNumber" DESC, "logIndex" DESC))[1]
+FROM "bucketed"
+GROUP BY "chainId", "poolAddress", "interval", "bucketStart";
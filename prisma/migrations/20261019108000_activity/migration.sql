@@ -0,0 +1,124 @@
+-- CreateEnum
+CREATE TYPE "ActivitySubject" AS ENUM ('token', 'pool');
+
+-- CreateEnum
+CREATE TYPE "ActivityRole" AS ENUM ('sender', 'receiver');
+
+-- CreateTable
+CREATE TABLE "activity_buckets" (
+    "chainId" INTEGER NOT NULL,
+    "subject" "ActivitySubject" NOT NULL,
+    "address" VARCHAR(42) NOT NULL,
+    "interval" VARCHAR(3) NOT NULL,
+    "bucketStart" TIMESTAMP(3) NOT NULL,
+    "transferCount" INTEGER NOT NULL DEFAULT 0,
+    "swapCount" INTEGER NOT NULL DEFAULT 0,
+    "uniqueSenders" INTEGER NOT NULL DEFAULT 0,
+    "uniqueReceivers" INTEGER NOT NULL DEFAULT 0,
+    "volume" TEXT,
+    "volume0" TEXT,
+    "volume1" TEXT,
+
+    CONSTRAINT "activity_buckets_pkey" PRIMARY KEY ("chainId","subject","address","interval","bucketStart")
+);
+
+-- CreateTable
+CREATE TABLE "activity_participants" (
+    "chainId" INTEGER NOT NULL,
+    "subject" "ActivitySubject" NOT NULL,
+    "address" VARCHAR(42) NOT NULL,
+    "interval" VARCHAR(3) NOT NULL,
+    "bucketStart" TIMESTAMP(3) NOT NULL,
+    "role" "ActivityRole" NOT NULL,
+    "account" VARCHAR(42) NOT NULL,
+    "eventCount" INTEGER NOT NULL,
+
+    CONSTRAINT "activity_participants_pkey" PRIMARY KEY ("chainId","subject","address","interval","bucketStart","role","account")
+);
+
+-- CreateTable
+CREATE TABLE "chain_stats" (
+    "chainId" INTEGER NOT NULL,
+    "totalEvents" BIGINT NOT NULL DEFAULT 0,
+    "totalTransfers" BIGINT NOT NULL DEFAULT 0,
+    "totalSwaps" BIGINT NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "chain_stats_pkey" PRIMARY KEY ("chainId")
+);
+
+-- Participants of the transfers and swaps indexed so far; the zero address
+-- (mints and burns) is not counted as a sender or receiver
+WITH "intervals" ("interval", "unit") AS (
+    VALUES ('1h', 'hour'), ('1d', 'day')
+),
+"events" AS (
+    SELECT "chainId", 'token'::"ActivitySubject" AS "subject", LOWER("tokenAddress") AS "address",
+           "blockTimestamp", LOWER("from") AS "sender", LOWER("to") AS "receiver"
+    FROM "erc20_transfers"
+    UNION ALL
+    SELECT "chainId", 'pool'::"ActivitySubject", LOWER("poolAddress"),
+           "blockTimestamp", LOWER("sender"), LOWER("recipient")
+    FROM "swaps"
+),
+"roles" AS (
+    SELECT "chainId", "subject", "address", "blockTimestamp", 'sender'::"ActivityRole" AS "role", "sender" AS "account"
+    FROM "events"
+    UNION ALL
+    SELECT "chainId", "subject", "address", "blockTimestamp", 'receiver'::"ActivityRole", "receiver"
+    FROM "events"
+)
+INSERT INTO "activity_participants"
+SELECT "chainId", "subject", "address", "interval", DATE_TRUNC("unit", "blockTimestamp"),
+       "role", "account", COUNT(*)
+FROM "roles" CROSS JOIN "intervals"
+WHERE "account" <> '0x0000000000000000000000000000000000000000'
+GROUP BY "chainId", "subject", "address", "interval", DATE_TRUNC("unit", "blockTimestamp"), "role", "account";
+
+-- Token buckets from transfers
+WITH "intervals" ("interval", "unit") AS (
+    VALUES ('1h', 'hour'), ('1d', 'day')
+)
+INSERT INTO "activity_buckets" ("chainId", "subject", "address", "interval", "bucketStart", "transferCount", "volume")
+SELECT "chainId", 'token', LOWER("tokenAddress"), "interval", DATE_TRUNC("unit", "blockTimestamp"),
+       COUNT(*), SUM("value"::NUMERIC)::TEXT
+FROM "erc20_transfers" CROSS JOIN "intervals"
+GROUP BY "chainId", LOWER("tokenAddress"), "interval", DATE_TRUNC("unit", "blockTimestamp");
+
+-- Pool buckets from swaps
+WITH "intervals" ("interval", "unit") AS (
+    VALUES ('1h', 'hour'), ('1d', 'day')
+)
+INSERT INTO "activity_buckets" ("chainId", "subject", "address", "interval", "bucketStart", "swapCount", "volume0", "volume1")
+SELECT "chainId", 'pool', LOWER("poolAddress"), "interval", DATE_TRUNC("unit", "blockTimestamp"),
+       COUNT(*),
+       SUM("amount0In"::NUMERIC + "amount0Out"::NUMERIC)::TEXT,
+       SUM("amount1In"::NUMERIC + "amount1Out"::NUMERIC)::TEXT
+FROM "swaps" CROSS JOIN "intervals"
+GROUP BY "chainId", LOWER("poolAddress"), "interval", DATE_TRUNC("unit", "blockTimestamp");
+
+-- Unique senders and receivers per bucket
+UPDATE "activity_buckets" AS "bucket"
+SET "uniqueSenders" = "counts"."senders", "uniqueReceivers" = "counts"."receivers"
+FROM (
+    SELECT "chainId", "subject", "address", "interval", "bucketStart",
+           COUNT(*) FILTER (WHERE "role" = 'sender') AS "senders",
+           COUNT(*) FILTER (WHERE "role" = 'receiver') AS "receivers"
+    FROM "activity_participants"
+    GROUP BY "chainId", "subject", "address", "interval", "bucketStart"
+) AS "counts"
+WHERE "bucket"."chainId" = "counts"."chainId"
+  AND "bucket"."subject" = "counts"."subject"
+  AND "bucket"."address" = "counts"."address"
+  AND "bucket"."interval" = "counts"."interval"
+  AND "bucket"."bucketStart" = "counts"."bucketStart";
+
+-- Lifetime totals of every chain indexed so far
+INSERT INTO "chain_stats" ("chainId", "totalEvents", "totalTransfers", "totalSwaps", "updatedAt")
+SELECT "chainId",
+       COUNT(*),
+       (SELECT COUNT(*) FROM "erc20_transfers" AS "t" WHERE "t"."chainId" = "logs"."chainId"),
+       (SELECT COUNT(*) FROM "swaps" AS "s" WHERE "s"."chainId" = "logs"."chainId"),
+       CURRENT_TIMESTAMP
+FROM "event_logs" AS "logs"
+GROUP BY "chainId";
@@ -0,0 +1,57 @@
+-- Token amounts move from text to numeric, so they can be compared, sorted and
+-- summed in the database. Single amounts fit DECIMAL(78, 0) (any int256 or
+-- uint256); running totals are unbounded NUMERIC.
+
+-- AlterTable
+ALTER TABLE "erc20_transfers" ALTER COLUMN "value" SET DATA TYPE DECIMAL(78,0) USING "value"::DECIMAL(78,0);
+
+-- AlterTable
+ALTER TABLE "approvals" ALTER COLUMN "value" SET DATA TYPE DECIMAL(78,0) USING "value"::DECIMAL(78,0);
+
+-- AlterTable
+ALTER TABLE "allowances" ALTER COLUMN "value" SET DATA TYPE DECIMAL(78,0) USING "value"::DECIMAL(78,0);
+
+-- AlterTable
+ALTER TABLE "balances" ALTER COLUMN "value" SET DATA TYPE DECIMAL USING "value"::DECIMAL;
+
+-- AlterTable
+ALTER TABLE "balance_changes" ALTER COLUMN "delta" SET DATA TYPE DECIMAL USING "delta"::DECIMAL;
+
+-- AlterTable
+ALTER TABLE "swaps" ALTER COLUMN "amount0In" SET DATA TYPE DECIMAL(78,0) USING "amount0In"::DECIMAL(78,0),
+ALTER COLUMN "amount1In" SET DATA TYPE DECIMAL(78,0) USING "amount1In"::DECIMAL(78,0),
+ALTER COLUMN "amount0Out" SET DATA TYPE DECIMAL(78,0) USING "amount0Out"::DECIMAL(78,0),
+ALTER COLUMN "amount1Out" SET DATA TYPE DECIMAL(78,0) USING "amount1Out"::DECIMAL(78,0),
+ALTER COLUMN "amount0" SET DATA TYPE DECIMAL(78,0) USING "amount0"::DECIMAL(78,0),
+ALTER COLUMN "amount1" SET DATA TYPE DECIMAL(78,0) USING "amount1"::DECIMAL(78,0),
+ADD COLUMN "volume0" DECIMAL(78,0),
+ADD COLUMN "volume1" DECIMAL(78,0);
+
+-- Swap sizes for the swaps indexed so far
+UPDATE "swaps" SET "volume0" = "amount0In" + "amount0Out", "volume1" = "amount1In" + "amount1Out";
+
+-- AlterTable
+ALTER TABLE "swaps" ALTER COLUMN "volume0" SET NOT NULL,
+ALTER COLUMN "volume1" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "liquidity_events" ALTER COLUMN "amount0" SET DATA TYPE DECIMAL(78,0) USING "amount0"::DECIMAL(78,0),
+ALTER COLUMN "amount1" SET DATA TYPE DECIMAL(78,0) USING "amount1"::DECIMAL(78,0);
+
+-- AlterTable
+ALTER TABLE "candles" ALTER COLUMN "volume0" SET DATA TYPE DECIMAL USING "volume0"::DECIMAL,
+ALTER COLUMN "volume1" SET DATA TYPE DECIMAL USING "volume1"::DECIMAL;
+
+-- AlterTable
+ALTER TABLE "activity_buckets" ALTER COLUMN "volume" SET DATA TYPE DECIMAL USING "volume"::DECIMAL,
+ALTER COLUMN "volume0" SET DATA TYPE DECIMAL USING "volume0"::DECIMAL,
+ALTER COLUMN "volume1" SET DATA TYPE DECIMAL USING "volume1"::DECIMAL;
+
+-- CreateIndex
+CREATE INDEX "erc20_transfers_chainId_value_idx" ON "erc20_transfers"("chainId", "value");
+
+-- CreateIndex
+CREATE INDEX "swaps_chainId_volume0_idx" ON "swaps"("chainId", "volume0");
+
+-- CreateIndex
+CREATE INDEX "swaps_chainId_volume1_idx" ON "swaps"("chainId", "volume1");
@@ -0,0 +1,11 @@
+-- Approval owners and spenders were stored checksummed; store them lowercase
+-- like every other address so wallet queries match
+UPDATE "approvals" SET
+    "tokenAddress" = LOWER("tokenAddress"),
+    "owner" = LOWER("owner"),
+    "spender" = LOWER("spender");
+
+UPDATE "allowances" SET
+    "tokenAddress" = LOWER("tokenAddress"),
+    "owner" = LOWER("owner"),
+    "spender" = LOWER("spender");
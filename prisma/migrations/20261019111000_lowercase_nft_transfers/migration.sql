@@ -0,0 +1,7 @@
+-- NFT transfer parties were stored checksummed; store them lowercase like
+-- every other address so owner queries match
+UPDATE "nft_transfers" SET
+    "tokenAddress" = LOWER("tokenAddress"),
+    "operator" = LOWER("operator"),
+    "from" = LOWER("from"),
+    "to" = LOWER("to");
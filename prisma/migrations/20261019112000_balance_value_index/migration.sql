@@ -0,0 +1,4 @@
+-- Top holders read a token's balances by value, largest first
+
+-- CreateIndex
+CREATE INDEX "balances_chainId_tokenAddress_value_idx" ON "balances"("chainId", "tokenAddress", "value");
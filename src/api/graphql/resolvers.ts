@@ -1,61 +1,320 @@
-import { PubSub } from 'graphql-subscriptions';
+import { GraphQLScalarType, valueFromASTUntyped } from 'graphql';
+import { PubSub, withFilter } from 'graphql-subscriptions';
+import { formatUnits } from 'viem';
 import type { OnchainIndexer } from '../../indexer/index.js';
+import type { SwapQuery, TransferQuery } from '../../indexer/storage.js';
+import type { ActivityInterval, ActivitySubject, CandleInterval } from '../../types/events.js';
 
 const pubsub = new PubSub();
 const NEW_EVENTS_TOPIC = 'NEW_EVENTS';
+const REMOVED_EVENTS_TOPIC = 'REMOVED_EVENTS';
+
+/** Decoded event arguments and argument filters, passed through as-is */
+const JSONScalar = new GraphQLScalarType({
+  name: 'JSON',
+  serialize: (value) => value,
+  parseValue: (value) => value,
+  parseLiteral: (ast) => valueFromASTUntyped(ast),
+});
+
+/** Every query and subscription takes an optional chainId */
+interface ChainArgs {
+  chainId?: number | null;
+}
 
 export function createResolvers(indexer: OnchainIndexer) {
-  const storage = indexer.getStorage();
   const eventEmitter = indexer.getEventEmitter();
 
-  // Subscribe to indexer events and publish to GraphQL subscriptions
+  /** token and formattedValue for types carrying a tokenAddress and a raw value */
+  const tokenAmountFields = {
+    async token(row: { chainId: number; tokenAddress: string }) {
+      return await indexer.getTokenRegistry(row.chainId).getToken(row.tokenAddress);
+    },
+    async formattedValue(row: { chainId: number; tokenAddress: string; value: string }) {
+      const { decimals } = await indexer.getTokenRegistry(row.chainId).getToken(row.tokenAddress);
+      return decimals === null ? null : formatUnits(BigInt(row.value), decimals);
+    },
+  };
+
+  /** rawLog and transaction for every event type */
+  const eventFields = {
+    async rawLog(event: {
+      chainId: number;
+      eventLogId?: string | null;
+      transactionHash: string;
+      logIndex: number;
+    }) {
+      return await indexer.getStorage(event.chainId).getEventLog(event);
+    },
+    async transaction(event: { chainId: number; transactionHash: string }) {
+      return await indexer.getStorage(event.chainId).getTransaction(event.transactionHash);
+    },
+  };
+
+  // Subscribe to indexer events and publish to GraphQL subscriptions.
+  // Events rolled back by a reorg go to removedEvents instead of newEvents.
   eventEmitter.subscribe((event) => {
+    const [topic, field] = event.removed
+      ? [REMOVED_EVENTS_TOPIC, 'removedEvents']
+      : [NEW_EVENTS_TOPIC, 'newEvents'];
+
     if (event.type === 'erc20-transfer') {
-      pubsub.publish(NEW_EVENTS_TOPIC, {
-        newEvents: { ...event.data, __typename: 'ERC20Transfer' },
+      pubsub.publish(topic, {
+        [field]: { ...event.data, __typename: 'ERC20Transfer' },
+      });
+    } else if (event.type === 'approval') {
+      pubsub.publish(topic, {
+        [field]: { ...event.data, __typename: 'Approval' },
+      });
+    } else if (event.type === 'nft-transfer') {
+      pubsub.publish(topic, {
+        [field]: { ...event.data, __typename: 'NFTTransfer' },
       });
     } else if (event.type === 'swap') {
-      pubsub.publish(NEW_EVENTS_TOPIC, {
-        newEvents: { ...event.data, __typename: 'Swap' },
+      pubsub.publish(topic, {
+        [field]: { ...event.data, __typename: 'Swap' },
+      });
+    } else if (event.type === 'liquidity') {
+      pubsub.publish(topic, {
+        [field]: { ...event.data, __typename: 'LiquidityEvent' },
+      });
+    } else if (event.type === 'generic') {
+      pubsub.publish(topic, {
+        [field]: { ...event.data, __typename: 'GenericEvent' },
       });
     }
   });
 
   return {
     Query: {
-      async events(_: any, args: { first?: number; after?: string; type?: string }) {
+      async events(_: any, args: ChainArgs & { first?: number; after?: string; type?: string }) {
         const { first = 10, type } = args;
+        const storage = indexer.getStorage(args.chainId);
 
         if (type === 'ERC20_TRANSFER') {
           const transfers = await storage.getRecentTransfers(first);
           return transfers.map((t: any) => ({ ...t, __typename: 'ERC20Transfer' }));
+        } else if (type === 'APPROVAL') {
+          const approvals = await storage.getApprovals({}, first);
+          return approvals.map((a: any) => ({ ...a, __typename: 'Approval' }));
+        } else if (type === 'NFT_TRANSFER') {
+          const nftTransfers = await storage.getNFTTransfers({}, first);
+          return nftTransfers.map((n: any) => ({ ...n, __typename: 'NFTTransfer' }));
         } else if (type === 'SWAP') {
           const swaps = await storage.getRecentSwaps(first);
           return swaps.map((s: any) => ({ ...s, __typename: 'Swap' }));
+        } else if (type === 'LIQUIDITY') {
+          const liquidity = await storage.getLiquidityEvents({}, first);
+          return liquidity.map((l: any) => ({ ...l, __typename: 'LiquidityEvent' }));
+        } else if (type === 'GENERIC') {
+          const generics = await storage.getGenericEvents({}, first);
+          return generics.map((g: any) => ({ ...g, __typename: 'GenericEvent' }));
         } else {
           return await storage.getRecentEvents(first);
         }
       },
 
-      async transfers(_: any, args: { first?: number; to?: string }) {
-        const { first = 10, to } = args;
+      async transfers(
+        _: any,
+        args: ChainArgs & {
+          first?: number;
+          to?: string;
+          minValue?: string;
+          maxValue?: string;
+          orderBy?: TransferQuery['orderBy'];
+        }
+      ) {
+        const { first = 10, to, minValue, maxValue, orderBy } = args;
+        const storage = indexer.getStorage(args.chainId);
+        const query = { value: { min: minValue, max: maxValue }, orderBy };
         if (to) {
-          return await storage.getTransfersByAddress(to, first);
+          return await storage.getTransfersByAddress(to, first, query);
         }
-        return await storage.getRecentTransfers(first);
+        return await storage.getRecentTransfers(first, query);
+      },
+
+      async approvals(
+        _: any,
+        args: ChainArgs & { first?: number; owner?: string; tokenAddress?: string; spender?: string }
+      ) {
+        const { first = 10, owner, tokenAddress, spender } = args;
+        return await indexer
+          .getStorage(args.chainId)
+          .getApprovals({ owner, tokenAddress, spender }, first);
+      },
+
+      async allowances(
+        _: any,
+        args: ChainArgs & { owner: string; tokenAddress?: string; spender?: string; first?: number }
+      ) {
+        const { first = 50, owner, tokenAddress, spender } = args;
+        return await indexer
+          .getStorage(args.chainId)
+          .getAllowances(owner, { tokenAddress, spender }, first);
       },
 
-      async swaps(_: any, args: { first?: number; poolAddress?: string }) {
-        const { first = 10, poolAddress } = args;
+      async balances(_: any, args: ChainArgs & { owner: string; first?: number }) {
+        const { first = 50, owner } = args;
+        return await indexer.getStorage(args.chainId).getBalances(owner, first);
+      },
+
+      async topHolders(_: any, args: ChainArgs & { token: string; first?: number }) {
+        const { first = 10, token } = args;
+        return await indexer.getStorage(args.chainId).getTopHolders(token, first);
+      },
+
+      async balance(_: any, args: ChainArgs & { token: string; owner: string; block?: string }) {
+        return await indexer
+          .getStorage(args.chainId)
+          .getBalance(
+            args.token,
+            args.owner,
+            args.block !== undefined ? BigInt(args.block) : undefined
+          );
+      },
+
+      async balanceHistory(
+        _: any,
+        args: ChainArgs & { owner: string; token?: string; first?: number }
+      ) {
+        const { first = 50, owner, token } = args;
+        return await indexer
+          .getStorage(args.chainId)
+          .getBalanceHistory(owner, { tokenAddress: token }, first);
+      },
+
+      async nftTransfers(
+        _: any,
+        args: ChainArgs & { first?: number; tokenAddress?: string; tokenId?: string; owner?: string }
+      ) {
+        const { first = 10, tokenAddress, tokenId, owner } = args;
+        return await indexer
+          .getStorage(args.chainId)
+          .getNFTTransfers({ tokenAddress, tokenId, owner }, first);
+      },
+
+      async swaps(
+        _: any,
+        args: ChainArgs & {
+          first?: number;
+          poolAddress?: string;
+          protocol?: string;
+          minVolume0?: string;
+          maxVolume0?: string;
+          minVolume1?: string;
+          maxVolume1?: string;
+          orderBy?: SwapQuery['orderBy'];
+        }
+      ) {
+        const { first = 10, poolAddress, protocol, orderBy } = args;
+        const storage = indexer.getStorage(args.chainId);
+        const query = {
+          volume0: { min: args.minVolume0, max: args.maxVolume0 },
+          volume1: { min: args.minVolume1, max: args.maxVolume1 },
+          orderBy,
+        };
         if (poolAddress) {
-          return await storage.getSwapsByPool(poolAddress, first);
+          return await storage.getSwapsByPool(poolAddress, first, protocol, query);
+        }
+        return await storage.getRecentSwaps(first, protocol, query);
+      },
+
+      async liquidityEvents(
+        _: any,
+        args: ChainArgs & { first?: number; poolAddress?: string; kind?: 'mint' | 'burn' | 'collect' | 'sync' }
+      ) {
+        const { first = 10, poolAddress, kind } = args;
+        return await indexer.getStorage(args.chainId).getLiquidityEvents({ poolAddress, kind }, first);
+      },
+
+      async token(_: any, args: ChainArgs & { address: string }) {
+        return await indexer.getTokenRegistry(args.chainId).getToken(args.address);
+      },
+
+      async pool(_: any, args: ChainArgs & { address: string }) {
+        return await indexer.getStorage(args.chainId).getPool(args.address);
+      },
+
+      async pools(_: any, args: ChainArgs & { first?: number; token?: string }) {
+        const { first = 10, token } = args;
+        return await indexer.getStorage(args.chainId).getPools({ token }, first);
+      },
+
+      async poolState(_: any, args: ChainArgs & { poolAddress: string; blockNumber?: string }) {
+        return await indexer
+          .getStorage(args.chainId)
+          .getPoolState(
+            args.poolAddress,
+            args.blockNumber !== undefined ? BigInt(args.blockNumber) : undefined
+          );
+      },
+
+      async candles(
+        _: any,
+        args: ChainArgs & {
+          pool: string;
+          interval: CandleInterval;
+          from?: string;
+          to?: string;
+          first?: number;
+        }
+      ) {
+        const { first = 500, pool, interval, from, to } = args;
+        return await indexer.getStorage(args.chainId).getCandles(
+          pool,
+          interval,
+          {
+            from: from !== undefined ? new Date(from) : undefined,
+            to: to !== undefined ? new Date(to) : undefined,
+          },
+          first
+        );
+      },
+
+      async timeSeries(
+        _: any,
+        args: ChainArgs & {
+          subject: ActivitySubject;
+          address: string;
+          interval: ActivityInterval;
+          from?: string;
+          to?: string;
+          first?: number;
+        }
+      ) {
+        const { first = 500, subject, address, interval, from, to } = args;
+        return await indexer.getStorage(args.chainId).getTimeSeries(
+          subject,
+          address,
+          interval,
+          {
+            from: from !== undefined ? new Date(from) : undefined,
+            to: to !== undefined ? new Date(to) : undefined,
+          },
+          first
+        );
+      },
+
+      async genericEvents(
+        _: any,
+        args: ChainArgs & {
+          first?: number;
+          eventName?: string;
+          address?: string;
+          args?: Record<string, unknown>;
         }
-        return await storage.getRecentSwaps(first);
+      ) {
+        const { first = 10, eventName, address } = args;
+        return await indexer
+          .getStorage(args.chainId)
+          .getGenericEvents({ eventName, address, args: args.args }, first);
       },
 
-      async stats() {
+      async stats(_: any, args: ChainArgs = {}) {
+        const storage = indexer.getStorage(args.chainId);
         const stats = await storage.getStats();
         return {
+          chainId: storage.chainId,
           totalEvents: stats.totalEvents.toString(),
           totalTransfers: stats.totalTransfers.toString(),
           totalSwaps: stats.totalSwaps.toString(),
@@ -63,20 +322,151 @@ export function createResolvers(indexer: OnchainIndexer) {
         };
       },
 
-      async status() {
-        const currentState = indexer.getState();
+      async status(_: any, args: ChainArgs = {}) {
+        const currentState = indexer.getState(args.chainId);
         return {
+          chainId: currentState.chainId,
           isIndexing: currentState.isIndexing,
           lastBlockNumber: currentState.lastBlockNumber.toString(),
           errorCount: currentState.errorCount,
+          logRangeSize: currentState.logRangeSize.toString(),
+          isBackfilling: currentState.isBackfilling,
+          failingBackfillShards: currentState.failingBackfillShards,
           uptime: indexer.getUptime(),
         };
       },
+
+      async backfillShards(_: any, args: ChainArgs = {}) {
+        return await indexer.getStorage(args.chainId).getBackfillShards();
+      },
+
+      rpcEndpoints(_: any, args: ChainArgs = {}) {
+        return indexer.getRpcStats(args.chainId).map((endpoint) => ({
+          ...endpoint,
+          blockNumber: endpoint.blockNumber?.toString() ?? null,
+        }));
+      },
+    },
+
+    ERC20Transfer: { ...tokenAmountFields, ...eventFields },
+    Approval: { ...tokenAmountFields, ...eventFields },
+    Allowance: tokenAmountFields,
+    Balance: tokenAmountFields,
+    BalanceChange: { token: tokenAmountFields.token },
+    NFTTransfer: eventFields,
+    GenericEvent: eventFields,
+
+    Token: {
+      async holderCount(token: { chainId: number; address: string }) {
+        return await indexer.getStorage(token.chainId).getHolderCount(token.address);
+      },
+    },
+
+    Pool: {
+      async token0(pool: { chainId: number; token0: string }) {
+        return await indexer.getTokenRegistry(pool.chainId).getToken(pool.token0);
+      },
+      async token1(pool: { chainId: number; token1: string }) {
+        return await indexer.getTokenRegistry(pool.chainId).getToken(pool.token1);
+      },
+    },
+
+    Swap: {
+      ...eventFields,
+      async pool(swap: { chainId: number; poolAddress: string }) {
+        return await indexer.getStorage(swap.chainId).getPool(swap.poolAddress);
+      },
+      // Stored swaps carry volumes; live subscription payloads come straight from the decoder
+      volume0(swap: { volume0?: string; amount0In: string; amount0Out: string }) {
+        return swap.volume0 ?? (BigInt(swap.amount0In) + BigInt(swap.amount0Out)).toString();
+      },
+      volume1(swap: { volume1?: string; amount1In: string; amount1Out: string }) {
+        return swap.volume1 ?? (BigInt(swap.amount1In) + BigInt(swap.amount1Out)).toString();
+      },
     },
 
+    LiquidityEvent: {
+      ...eventFields,
+      async pool(event: { chainId: number; poolAddress: string }) {
+        return await indexer.getStorage(event.chainId).getPool(event.poolAddress);
+      },
+    },
+
+    JSON: JSONScalar,
+
+    EventStatus: {
+      PENDING: 'pending',
+      CONFIRMED: 'confirmed',
+    },
+
+    LiquidityEventKind: {
+      MINT: 'mint',
+      BURN: 'burn',
+      COLLECT: 'collect',
+      SYNC: 'sync',
+    },
+
+    CandleInterval: {
+      ONE_MINUTE: '1m',
+      FIVE_MINUTES: '5m',
+      ONE_HOUR: '1h',
+      ONE_DAY: '1d',
+    },
+
+    TransferOrder: {
+      NEWEST: 'newest',
+      LARGEST: 'largest',
+      SMALLEST: 'smallest',
+    },
+
+    SwapOrder: {
+      NEWEST: 'newest',
+      LARGEST_VOLUME0: 'volume0-desc',
+      SMALLEST_VOLUME0: 'volume0-asc',
+      LARGEST_VOLUME1: 'volume1-desc',
+      SMALLEST_VOLUME1: 'volume1-asc',
+    },
+
+    ActivityInterval: {
+      ONE_HOUR: '1h',
+      ONE_DAY: '1d',
+    },
+
+    ActivitySubject: {
+      TOKEN: 'token',
+      POOL: 'pool',
+    },
+
+    NFTStandard: {
+      ERC721: 'erc721',
+      ERC1155: 'erc1155',
+    },
+
+    TransactionStatus: {
+      SUCCESS: 'success',
+      REVERTED: 'reverted',
+    },
+
+    BackfillShardStatus: {
+      PENDING: 'pending',
+      RUNNING: 'running',
+      COMPLETE: 'complete',
+    },
+
+    // Without a chainId, subscriptions stream events from every chain
     Subscription: {
       newEvents: {
-        subscribe: () => pubsub.asyncIterator([NEW_EVENTS_TOPIC]),
+        subscribe: withFilter(
+          () => pubsub.asyncIterator([NEW_EVENTS_TOPIC]),
+          (payload, args: ChainArgs) => args.chainId == null || payload.newEvents.chainId === args.chainId
+        ),
+      },
+      removedEvents: {
+        subscribe: withFilter(
+          () => pubsub.asyncIterator([REMOVED_EVENTS_TOPIC]),
+          (payload, args: ChainArgs) =>
+            args.chainId == null || payload.removedEvents.chainId === args.chainId
+        ),
       },
     },
   };
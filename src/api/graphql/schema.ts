@@ -1,42 +1,374 @@
 import { gql } from 'graphql-tag';
 
 export const typeDefs = gql`
+  """Arbitrary JSON value"""
+  scalar JSON
+
+  """
+  A log as emitted on chain. Logs of typed events indexed before raw logs were
+  kept have empty topics and data until their blocks are reindexed.
+  """
   type EventLog {
     id: String!
+    chainId: Int!
     blockNumber: String!
     blockTimestamp: String!
     transactionHash: String!
+    logIndex: Int!
     address: String!
     topics: [String!]!
     data: String!
   }
 
+  enum TransactionStatus {
+    SUCCESS
+    REVERTED
+  }
+
+  """Transaction that emitted indexed logs, with fields from its receipt"""
+  type Transaction {
+    chainId: Int!
+    hash: String!
+    blockNumber: String!
+    """Account that signed the transaction, e.g. the end user behind a router swap"""
+    from: String!
+    """Called contract; null for contract creation"""
+    to: String
+    """First 4 bytes of the calldata, e.g. 0x38ed1739; null without calldata"""
+    selector: String
+    gasUsed: String!
+    """Price paid per gas in wei"""
+    effectiveGasPrice: String!
+    status: TransactionStatus!
+  }
+
+  """
+  ERC-20 metadata, read from the token contract the first time it is asked for.
+  Fields are null when the token doesn't implement the getter.
+  """
+  type Token {
+    chainId: Int!
+    address: String!
+    name: String
+    symbol: String
+    decimals: Int
+    """Owners with a positive balance, from indexed transfers"""
+    holderCount: Int!
+  }
+
   type ERC20Transfer {
     id: String!
+    chainId: Int!
     blockNumber: String!
     blockTimestamp: String!
     transactionHash: String!
     from: String!
     to: String!
     value: String!
+    """value scaled by the token's decimals, e.g. "1.5"; null when decimals are unknown"""
+    formattedValue: String
+    tokenAddress: String!
+    token: Token!
+    status: EventStatus!
+    """Raw log the event was decoded from"""
+    rawLog: EventLog
+    """Transaction that emitted the event"""
+    transaction: Transaction
+  }
+
+  type Approval {
+    id: String!
+    chainId: Int!
+    blockNumber: String!
+    blockTimestamp: String!
+    transactionHash: String!
+    logIndex: Int!
+    tokenAddress: String!
+    owner: String!
+    spender: String!
+    value: String!
+    """value scaled by the token's decimals; null when decimals are unknown"""
+    formattedValue: String
+    token: Token!
+    status: EventStatus!
+    """Raw log the event was decoded from"""
+    rawLog: EventLog
+    """Transaction that emitted the event"""
+    transaction: Transaction
+  }
+
+  """Current allowance of spender over owner's tokens, as set by the latest Approval"""
+  type Allowance {
+    chainId: Int!
+    tokenAddress: String!
+    owner: String!
+    spender: String!
+    value: String!
+    """value scaled by the token's decimals; null when decimals are unknown"""
+    formattedValue: String
+    token: Token!
+    """Approved for the maximum uint256, i.e. never runs out"""
+    unlimited: Boolean!
+    """Block and transaction of the Approval that set this allowance"""
+    blockNumber: String!
+    transactionHash: String!
+    updatedAt: String!
+  }
+
+  """
+  ERC-20 balance, the sum of the owner's indexed transfers. Addresses are lowercase.
+  Transfers before the start block are not counted, so balances can be incomplete or negative.
+  """
+  type Balance {
+    chainId: Int!
+    tokenAddress: String!
+    owner: String!
+    value: String!
+    """value scaled by the token's decimals; null when decimals are unknown"""
+    formattedValue: String
+    token: Token!
+    """Block the balance is as of; null for the current balance"""
+    blockNumber: String
+  }
+
+  """Net change of an owner's balance in one block"""
+  type BalanceChange {
+    chainId: Int!
+    tokenAddress: String!
+    owner: String!
+    blockNumber: String!
+    blockTimestamp: String!
+    """Signed; negative when more left the owner than arrived"""
+    delta: String!
+    """Balance at the end of the block"""
+    balance: String!
+    token: Token!
+  }
+
+  enum NFTStandard {
+    ERC721
+    ERC1155
+  }
+
+  """ERC-721 Transfer or ERC-1155 TransferSingle/TransferBatch"""
+  type NFTTransfer {
+    id: String!
+    chainId: Int!
+    blockNumber: String!
+    blockTimestamp: String!
+    transactionHash: String!
+    logIndex: Int!
+    standard: NFTStandard!
     tokenAddress: String!
+    """Account that initiated an ERC-1155 transfer"""
+    operator: String
+    from: String!
+    to: String!
+    """Token ids moved; an ERC-1155 TransferBatch carries several"""
+    tokenIds: [String!]!
+    """Amount per token id (always 1 for ERC-721)"""
+    amounts: [String!]!
+    status: EventStatus!
+    """Raw log the event was decoded from"""
+    rawLog: EventLog
+    """Transaction that emitted the event"""
+    transaction: Transaction
   }
 
   type Swap {
     id: String!
+    chainId: Int!
     blockNumber: String!
     blockTimestamp: String!
     transactionHash: String!
     poolAddress: String!
+    """DEX: uniswap-v2 or uniswap-v3 by event shape, or the DEX_FACTORIES label of the pool's factory"""
+    protocol: String!
+    """Pool fee tier in hundredths of a bip (3000 = 0.3%), when known"""
+    fee: Int
     sender: String!
     recipient: String!
     amount0In: String!
     amount1In: String!
     amount0Out: String!
     amount1Out: String!
+    """Signed change in the pool's token0 balance, positive when paid in (V3 only)"""
+    amount0: String
+    """Signed change in the pool's token1 balance, positive when paid in (V3 only)"""
+    amount1: String
+    """Token0 and token1 amounts swapped in either direction (In + Out)"""
+    volume0: String!
+    volume1: String!
+    """Pool price after the swap, as sqrt(token1/token0) in Q64.96 (V3 only)"""
+    sqrtPriceX96: String
+    """Active pool liquidity after the swap (V3 only)"""
+    liquidity: String
+    """Pool tick after the swap (V3 only)"""
+    tick: Int
+    status: EventStatus!
+    """Raw log the event was decoded from"""
+    rawLog: EventLog
+    """Transaction that emitted the event"""
+    transaction: Transaction
+    """Pool and its tokens; null until the pool is discovered"""
+    pool: Pool
+  }
+
+  enum LiquidityEventKind {
+    MINT
+    BURN
+    COLLECT
+    SYNC
+  }
+
+  """Uniswap V2 Mint/Burn/Sync or V3 Mint/Burn/Collect"""
+  type LiquidityEvent {
+    id: String!
+    chainId: Int!
+    blockNumber: String!
+    blockTimestamp: String!
+    transactionHash: String!
+    logIndex: Int!
+    poolAddress: String!
+    kind: LiquidityEventKind!
+    sender: String
+    """V3 position owner"""
+    owner: String
+    recipient: String
+    tickLower: Int
+    tickUpper: Int
+    """Liquidity added or removed by a V3 Mint/Burn"""
+    liquidity: String
+    """Token amounts; the new reserves for a SYNC"""
+    amount0: String!
+    amount1: String!
+    status: EventStatus!
+    """Raw log the event was decoded from"""
+    rawLog: EventLog
+    """Transaction that emitted the event"""
+    transaction: Transaction
+    """Pool and its tokens; null until the pool is discovered"""
+    pool: Pool
+  }
+
+  """
+  Uniswap V2 pair or V3 pool, from its factory's PairCreated/PoolCreated event
+  or read from the pool contract. Addresses are lowercase.
+  """
+  type Pool {
+    chainId: Int!
+    address: String!
+    token0: Token!
+    token1: Token!
+    """V3 fee tier in hundredths of a bip (3000 = 0.3%); null for V2 pairs"""
+    fee: Int
+    tickSpacing: Int
+    factoryAddress: String
+    """Block and transaction of the factory event; null when read from the pool contract"""
+    blockNumber: String
+    transactionHash: String
+  }
+
+  """
+  Pool state after its latest V2 Sync (reserves) or V3 Swap (price, tick, liquidity)
+  """
+  type PoolState {
+    chainId: Int!
+    poolAddress: String!
+    reserve0: String
+    reserve1: String
+    sqrtPriceX96: String
+    tick: Int
+    liquidity: String
+    """Raw price of token0 in token1, not adjusted for token decimals"""
+    price: Float
+    """Block of the event that set this state"""
+    blockNumber: String!
+  }
+
+  enum CandleInterval {
+    ONE_MINUTE
+    FIVE_MINUTES
+    ONE_HOUR
+    ONE_DAY
+  }
+
+  """
+  Open/high/low/close of a pool's raw token0 price in token1 (not adjusted for
+  token decimals) over one bucket, from the V3 sqrtPriceX96 or a V2 swap's amounts
+  """
+  type Candle {
+    chainId: Int!
+    poolAddress: String!
+    interval: CandleInterval!
+    """Start of the bucket, UTC"""
+    bucketStart: String!
+    open: Float!
+    high: Float!
+    low: Float!
+    close: Float!
+    """Raw token0 and token1 amounts swapped in either direction"""
+    volume0: String!
+    volume1: String!
+    swapCount: Int!
+  }
+
+  enum ActivityInterval {
+    ONE_HOUR
+    ONE_DAY
+  }
+
+  enum ActivitySubject {
+    TOKEN
+    POOL
+  }
+
+  """
+  Activity of a token (its ERC-20 transfers) or a pool (its swaps) in one hour or
+  day. Senders and receivers are transfer from/to or swap sender/recipient, not
+  counting the zero address.
+  """
+  type ActivityBucket {
+    chainId: Int!
+    subject: ActivitySubject!
+    address: String!
+    interval: ActivityInterval!
+    """Start of the bucket, UTC"""
+    bucketStart: String!
+    transferCount: Int!
+    swapCount: Int!
+    uniqueSenders: Int!
+    uniqueReceivers: Int!
+    """Raw value transferred; tokens only"""
+    volume: String
+    """Raw token0 and token1 amounts swapped in either direction; pools only"""
+    volume0: String
+    volume1: String
+  }
+
+  """An event decoded with an ABI from the registry (ABI_DIR)"""
+  type GenericEvent {
+    id: String!
+    chainId: Int!
+    blockNumber: String!
+    blockTimestamp: String!
+    transactionHash: String!
+    logIndex: Int!
+    address: String!
+    eventName: String!
+    """Canonical signature, e.g. Transfer(address,address,uint256)"""
+    signature: String!
+    """Decoded arguments keyed by input name (an array when inputs are unnamed); integers are strings"""
+    args: JSON!
+    status: EventStatus!
+    """Raw log the event was decoded from"""
+    rawLog: EventLog
+    """Transaction that emitted the event"""
+    transaction: Transaction
   }
 
   type Stats {
+    chainId: Int!
     totalEvents: String!
     totalTransfers: String!
     totalSwaps: String!
@@ -44,40 +376,219 @@ export const typeDefs = gql`
   }
 
   type IndexerStatus {
+    chainId: Int!
     isIndexing: Boolean!
     lastBlockNumber: String!
     errorCount: Int!
     uptime: Int!
+    """Block range currently used for each eth_getLogs request"""
+    logRangeSize: String!
+    isBackfilling: Boolean!
+    """Backfill shards whose last attempt failed, waiting to be retried"""
+    failingBackfillShards: Int!
+  }
+
+  type RpcEndpoint {
+    """Endpoint origin (paths are hidden since they often carry API keys)"""
+    url: String!
+    """False while benched after repeated failures or a failed consistency check"""
+    healthy: Boolean!
+    latencyMs: Int!
+    """Moving average of request success, from 0 to 1"""
+    successRate: Float!
+    requestCount: Int!
+    errorCount: Int!
+    """Head reported during the last consistency check"""
+    blockNumber: String
+    lastIssue: String
+  }
+
+  enum BackfillShardStatus {
+    PENDING
+    RUNNING
+    COMPLETE
+  }
+
+  """A historical block range indexed by the backfill workers"""
+  type BackfillShard {
+    id: String!
+    chainId: Int!
+    fromBlock: String!
+    toBlock: String!
+    """Every block before this one in the shard is committed"""
+    nextBlock: String!
+    status: BackfillShardStatus!
+    updatedAt: String!
+  }
+
+  """PENDING events are above the confirmed head and may still be reorged out"""
+  enum EventStatus {
+    PENDING
+    CONFIRMED
+  }
+
+  enum TransferOrder {
+    NEWEST
+    LARGEST
+    SMALLEST
+  }
+
+  enum SwapOrder {
+    NEWEST
+    LARGEST_VOLUME0
+    SMALLEST_VOLUME0
+    LARGEST_VOLUME1
+    SMALLEST_VOLUME1
   }
 
   enum EventType {
     ERC20_TRANSFER
+    APPROVAL
+    NFT_TRANSFER
     SWAP
+    LIQUIDITY
+    GENERIC
   }
 
+  """Queries take an optional chainId and default to the first chain in CHAIN_IDS"""
   type Query {
     """Get recent events with optional filtering"""
-    events(first: Int, after: String, type: EventType): [Event!]!
+    events(chainId: Int, first: Int, after: String, type: EventType): [Event!]!
+
+    """Get recent ERC-20 transfers; minValue and maxValue bound the raw value, inclusive"""
+    transfers(
+      chainId: Int
+      first: Int
+      after: String
+      to: String
+      minValue: String
+      maxValue: String
+      orderBy: TransferOrder
+    ): [ERC20Transfer!]!
+
+    """Get ERC-20 Approval events"""
+    approvals(chainId: Int, first: Int, owner: String, tokenAddress: String, spender: String): [Approval!]!
+
+    """Get a wallet's outstanding (non-zero) allowances, including unlimited ones"""
+    allowances(
+      chainId: Int
+      owner: String!
+      tokenAddress: String
+      spender: String
+      first: Int
+    ): [Allowance!]!
+
+    """Get a wallet's non-zero ERC-20 balances"""
+    balances(chainId: Int, owner: String!, first: Int): [Balance!]!
+
+    """Get a token's largest holders by current balance"""
+    topHolders(chainId: Int, token: String!, first: Int): [Balance!]!
 
-    """Get recent ERC-20 transfers"""
-    transfers(first: Int, after: String, to: String): [ERC20Transfer!]!
+    """Get a wallet's balance of a token, currently or at the end of block"""
+    balance(chainId: Int, token: String!, owner: String!, block: String): Balance!
 
-    """Get recent swaps"""
-    swaps(first: Int, after: String, poolAddress: String): [Swap!]!
+    """Get a wallet's balance changes, newest first, optionally for one token"""
+    balanceHistory(chainId: Int, owner: String!, token: String, first: Int): [BalanceChange!]!
+
+    """Get ERC-721/ERC-1155 transfers; owner matches either side of the transfer"""
+    nftTransfers(
+      chainId: Int
+      first: Int
+      tokenAddress: String
+      tokenId: String
+      owner: String
+    ): [NFTTransfer!]!
+
+    """
+    Get recent swaps, optionally in one pool or on one DEX (e.g. protocol: "uniswap-v3");
+    the volume bounds are raw token amounts, inclusive
+    """
+    swaps(
+      chainId: Int
+      first: Int
+      after: String
+      poolAddress: String
+      protocol: String
+      minVolume0: String
+      maxVolume0: String
+      minVolume1: String
+      maxVolume1: String
+      orderBy: SwapOrder
+    ): [Swap!]!
+
+    """Get V2 Mint/Burn/Sync and V3 Mint/Burn/Collect events"""
+    liquidityEvents(
+      chainId: Int
+      first: Int
+      poolAddress: String
+      kind: LiquidityEventKind
+    ): [LiquidityEvent!]!
+
+    """Get a token's name, symbol and decimals"""
+    token(chainId: Int, address: String!): Token!
+
+    """Get a pool and its tokens"""
+    pool(chainId: Int, address: String!): Pool
+
+    """Get discovered pools, newest first; token matches either side of the pair"""
+    pools(chainId: Int, first: Int, token: String): [Pool!]!
+
+    """Get a pool's current state, or its state at the end of blockNumber"""
+    poolState(chainId: Int, poolAddress: String!, blockNumber: String): PoolState
+
+    """Get a pool's candles, oldest first; from and to are ISO timestamps bounding bucketStart"""
+    candles(
+      chainId: Int
+      pool: String!
+      interval: CandleInterval!
+      from: String
+      to: String
+      first: Int
+    ): [Candle!]!
+
+    """Get a token's or pool's hourly or daily activity, oldest first; from and to are ISO timestamps bounding bucketStart"""
+    timeSeries(
+      chainId: Int
+      subject: ActivitySubject!
+      address: String!
+      interval: ActivityInterval!
+      from: String
+      to: String
+      first: Int
+    ): [ActivityBucket!]!
+
+    """Get events decoded with registry ABIs; args matches events containing every given key/value"""
+    genericEvents(
+      chainId: Int
+      first: Int
+      eventName: String
+      address: String
+      args: JSON
+    ): [GenericEvent!]!
 
     """Get indexer statistics"""
-    stats: Stats!
+    stats(chainId: Int): Stats!
 
     """Get indexer status"""
-    status: IndexerStatus!
+    status(chainId: Int): IndexerStatus!
+
+    """Get historical backfill shards and their progress"""
+    backfillShards(chainId: Int): [BackfillShard!]!
+
+    """Get health and latency of each RPC endpoint"""
+    rpcEndpoints(chainId: Int): [RpcEndpoint!]!
   }
 
+  """Subscriptions without a chainId stream events from every chain"""
   type Subscription {
-    """Subscribe to new events in real-time"""
-    newEvents: Event!
+    """Subscribe to new events in real-time (pending events are re-sent once confirmed)"""
+    newEvents(chainId: Int): Event!
+
+    """Subscribe to events removed by a chain reorganization"""
+    removedEvents(chainId: Int): Event!
   }
 
-  union Event = ERC20Transfer | Swap
+  union Event = ERC20Transfer | Approval | NFTTransfer | Swap | LiquidityEvent | GenericEvent
 
   type PageInfo {
     hasNextPage: Boolean!
@@ -1,18 +1,121 @@
 import { config } from 'dotenv';
+import type { BlockFinality, LogFilter } from '../types/events.js';
 
 // Load environment variables
 config();
 
+function parseList(value: string | undefined): string[] | undefined {
+  const items = (value || '').split(',').map((item) => item.trim()).filter(Boolean);
+  return items.length > 0 ? items : undefined;
+}
+
+export interface ChainConfig {
+  chainId: number;
+  /** RPC endpoints; empty uses the chain's public RPCs */
+  rpcUrls: string[];
+  startBlock: bigint;
+}
+
+/**
+ * Chains from CHAIN_IDS (default: Ink mainnet), each configured through
+ * RPC_URLS_<chainId> and START_BLOCK_<chainId>. The first chain falls back to
+ * RPC_URLS/RPC_URL and START_BLOCK so single-chain setups keep working.
+ */
+function parseChains(): ChainConfig[] {
+  const chainIds = parseList(process.env.CHAIN_IDS) ?? ['57073'];
+
+  return chainIds.map((chainId, i) => {
+    const isPrimary = i === 0;
+    const rpcUrls =
+      parseList(process.env[`RPC_URLS_${chainId}`]) ??
+      (isPrimary ? parseList(process.env.RPC_URLS ?? process.env.RPC_URL) : undefined);
+    const startBlock =
+      process.env[`START_BLOCK_${chainId}`] ??
+      (isPrimary ? process.env.START_BLOCK ?? '18000000' : '0');
+
+    return { chainId: Number(chainId), rpcUrls: rpcUrls ?? [], startBlock: BigInt(startBlock) };
+  });
+}
+
+/**
+ * Build getLogs filters from LOG_FILTER_ADDRESSES/LOG_FILTER_TOPICS (one filter)
+ * and LOG_FILTERS (JSON array of filters). Logs matching any filter are indexed;
+ * no filters means every log on the chain.
+ */
+function parseLogFilters(): LogFilter[] {
+  const filters: LogFilter[] = [];
+
+  const addresses = parseList(process.env.LOG_FILTER_ADDRESSES);
+  const topics = parseList(process.env.LOG_FILTER_TOPICS);
+  if (addresses || topics) {
+    filters.push({ addresses, topics });
+  }
+
+  if (process.env.LOG_FILTERS) {
+    try {
+      filters.push(...(JSON.parse(process.env.LOG_FILTERS) as LogFilter[]));
+    } catch {
+      throw new Error('LOG_FILTERS must be a JSON array of { addresses?, topics? } objects');
+    }
+  }
+
+  return filters;
+}
+
+/**
+ * DEX_FACTORIES: JSON object labelling pools by the factory that created them,
+ * e.g. { "0xfactory...": "velodrome-v2" }. Keys are lowercased.
+ */
+function parseDexFactories(): Record<string, string> {
+  if (!process.env.DEX_FACTORIES) {
+    return {};
+  }
+  let factories: unknown;
+  try {
+    factories = JSON.parse(process.env.DEX_FACTORIES);
+  } catch {
+    factories = null;
+  }
+  if (factories === null || typeof factories !== 'object' || Array.isArray(factories)) {
+    throw new Error('DEX_FACTORIES must be a JSON object of { factoryAddress: protocol }');
+  }
+  return Object.fromEntries(
+    Object.entries(factories).map(([address, protocol]) => [address.toLowerCase(), String(protocol)])
+  );
+}
+
 export const env = {
   // Database
   databaseUrl: process.env.DATABASE_URL || '',
+  // Limits for a block's write transaction: how long it may wait for a
+  // connection and how long it may run before Prisma aborts it
+  dbTransactionMaxWaitMs: parseInt(process.env.DB_TRANSACTION_MAX_WAIT_MS || '10000', 10),
+  dbTransactionTimeoutMs: parseInt(process.env.DB_TRANSACTION_TIMEOUT_MS || '60000', 10),
+
+  // Chains, each with its own RPC pool, start block and checkpoint
+  chains: parseChains(),
 
   // Blockchain RPC
-  rpcUrl: process.env.RPC_URL || 'https://rpc-gel.inkonchain.com',
+  rpcRoundRobinBackfill: process.env.RPC_ROUND_ROBIN_BACKFILL === 'true',
+  rpcConsistencyCheckMs: parseInt(process.env.RPC_CONSISTENCY_CHECK_MS || '0', 10),
+  rpcMaxLagBlocks: parseInt(process.env.RPC_MAX_LAG_BLOCKS || '5', 10),
 
   // Indexer Configuration
-  startBlock: BigInt(process.env.START_BLOCK || '18000000'),
   pollIntervalMs: parseInt(process.env.POLL_INTERVAL_MS || '12000', 10),
+  maxReorgDepth: parseInt(process.env.MAX_REORG_DEPTH || '64', 10),
+  confirmations: parseInt(process.env.CONFIRMATIONS || '0', 10),
+  finality: (process.env.FINALITY || 'latest') as BlockFinality,
+  indexPending: process.env.INDEX_PENDING === 'true',
+  minLogRange: parseInt(process.env.LOGS_MIN_RANGE || '10', 10),
+  maxLogRange: parseInt(process.env.LOGS_MAX_RANGE || '10000', 10),
+  headerCacheSize: parseInt(process.env.HEADER_CACHE_SIZE || '10000', 10),
+  backfillWorkers: parseInt(process.env.BACKFILL_WORKERS || '4', 10),
+  backfillShardSize: BigInt(process.env.BACKFILL_SHARD_SIZE || '100000'),
+  logFilters: parseLogFilters(),
+  // Directory of ABI JSON files for decoding arbitrary contract events
+  abiDir: process.env.ABI_DIR || '',
+  // Protocol names for swaps in pools created by these factories
+  dexFactories: parseDexFactories(),
 
   // API
   port: parseInt(process.env.PORT || '4000', 10),
@@ -27,7 +130,36 @@ export function validateEnv(): void {
   if (!env.databaseUrl) {
     throw new Error('DATABASE_URL is required');
   }
-  if (!env.rpcUrl) {
-    throw new Error('RPC_URL is required');
+  const chainIds = env.chains.map((chain) => chain.chainId);
+  if (chainIds.some((chainId) => !Number.isInteger(chainId) || chainId <= 0)) {
+    throw new Error('CHAIN_IDS must be a comma-separated list of positive integers');
+  }
+  if (new Set(chainIds).size !== chainIds.length) {
+    throw new Error('CHAIN_IDS must not contain duplicates');
+  }
+  for (const url of env.chains.flatMap((chain) => chain.rpcUrls)) {
+    if (!URL.canParse(url)) {
+      throw new Error(`Invalid RPC URL: ${url}`);
+    }
+  }
+  if (env.minLogRange < 1 || env.maxLogRange < env.minLogRange) {
+    throw new Error('LOGS_MIN_RANGE must be at least 1 and not above LOGS_MAX_RANGE');
+  }
+  if (!(env.dbTransactionMaxWaitMs > 0) || !(env.dbTransactionTimeoutMs > 0)) {
+    throw new Error('DB_TRANSACTION_MAX_WAIT_MS and DB_TRANSACTION_TIMEOUT_MS must be positive');
+  }
+  if (!['latest', 'safe', 'finalized'].includes(env.finality)) {
+    throw new Error('FINALITY must be one of: latest, safe, finalized');
+  }
+  for (const filter of env.logFilters) {
+    if (!Array.isArray(filter.addresses ?? []) || !Array.isArray(filter.topics ?? [])) {
+      throw new Error('LOG_FILTERS entries must use arrays for addresses and topics');
+    }
+    if (filter.addresses?.some((address) => !/^0x[0-9a-fA-F]{40}$/.test(address))) {
+      throw new Error('Log filter addresses must be 20-byte hex addresses');
+    }
+    if (filter.topics?.some((topic) => !/^0x[0-9a-fA-F]{64}$/.test(topic))) {
+      throw new Error('Log filter topics must be 32-byte hex event signatures (topic0)');
+    }
   }
 }
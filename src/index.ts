@@ -66,18 +66,34 @@ async function main(): Promise<void> {
   );
 
   app.get('/health', async (_req, res) => {
-    const state = indexer.getState();
-    const latestBlock = await indexer.getStorage().getStats();
+    const chains = await Promise.all(
+      indexer.getChainIds().map(async (chainId) => {
+        const state = indexer.getState(chainId);
+        const latestBlock = await indexer.getStorage(chainId).getStats();
+
+        return {
+          chainId,
+          isIndexing: state.isIndexing,
+          lastBlockNumber: state.lastBlockNumber.toString(),
+          errorCount: state.errorCount,
+          logRangeSize: state.logRangeSize.toString(),
+          isBackfilling: state.isBackfilling,
+          failingBackfillShards: state.failingBackfillShards,
+          latestBlockInDb: latestBlock.latestBlock.toString(),
+          rpcEndpoints: indexer.getRpcStats(chainId).map((endpoint) => ({
+            ...endpoint,
+            blockNumber: endpoint.blockNumber?.toString() ?? null,
+          })),
+        };
+      })
+    );
 
+    // Failing backfill shards are retried, but leave a gap in history until they succeed
+    const degraded = chains.some((chain) => chain.failingBackfillShards > 0);
     res.json({
-      status: 'healthy',
+      status: degraded ? 'degraded' : 'healthy',
       uptime: indexer.getUptime(),
-      indexer: {
-        isIndexing: state.isIndexing,
-        lastBlockNumber: state.lastBlockNumber.toString(),
-        errorCount: state.errorCount,
-        latestBlockInDb: latestBlock.latestBlock.toString(),
-      },
+      chains,
       database: dbConnected,
     });
   });
@@ -87,7 +103,10 @@ async function main(): Promise<void> {
       {
         port: env.port,
         graphqlPath: env.graphqlPath,
-        startBlock: env.startBlock.toString(),
+        chains: env.chains.map((chain) => ({
+          chainId: chain.chainId,
+          startBlock: chain.startBlock.toString(),
+        })),
         pollIntervalMs: env.pollIntervalMs,
       },
       'Server started'
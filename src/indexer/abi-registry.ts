@@ -0,0 +1,102 @@
+import { readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { toEventSelector, toEventSignature, type Abi, type AbiEvent } from 'viem';
+import { logger } from '../lib/logger.js';
+
+/**
+ * An ABI file is either a bare ABI array, which applies to every contract, or
+ * `{ "abi": [...], "addresses": ["0x..."] }` to scope it to specific contracts.
+ */
+interface AbiFile {
+  abi: Abi;
+  addresses?: string[];
+}
+
+export interface RegisteredEvent {
+  abiEvent: AbiEvent;
+  /** Canonical signature, e.g. `Transfer(address,address,uint256)` */
+  signature: string;
+}
+
+/**
+ * Event ABIs indexed by topic0, globally and per contract address.
+ * Several events can share a topic0 (e.g. ERC-20 and ERC-721 Transfer differ only
+ * in which inputs are indexed), so each selector maps to a list of candidates.
+ */
+export class AbiRegistry {
+  private global = new Map<string, RegisteredEvent[]>();
+  private byAddress = new Map<string, Map<string, RegisteredEvent[]>>();
+
+  /**
+   * Register every event in abi, for the given contracts or for all contracts
+   */
+  register(abi: Abi, addresses?: string[]): void {
+    const events = abi.filter((item): item is AbiEvent => item.type === 'event');
+
+    const targets = addresses?.length
+      ? addresses.map((address) => {
+          const key = address.toLowerCase();
+          if (!this.byAddress.has(key)) {
+            this.byAddress.set(key, new Map());
+          }
+          return this.byAddress.get(key)!;
+        })
+      : [this.global];
+
+    for (const abiEvent of events) {
+      const selector = toEventSelector(abiEvent);
+      const entry = { abiEvent, signature: toEventSignature(abiEvent) };
+      for (const target of targets) {
+        target.set(selector, [...(target.get(selector) ?? []), entry]);
+      }
+    }
+  }
+
+  /**
+   * Candidate events for a log, contract-specific ABIs first
+   */
+  lookup(address: string, topic0: string): RegisteredEvent[] {
+    const selector = topic0.toLowerCase();
+    return [
+      ...(this.byAddress.get(address.toLowerCase())?.get(selector) ?? []),
+      ...(this.global.get(selector) ?? []),
+    ];
+  }
+
+  get size(): number {
+    let count = 0;
+    for (const events of this.global.values()) count += events.length;
+    for (const selectors of this.byAddress.values()) {
+      for (const events of selectors.values()) count += events.length;
+    }
+    return count;
+  }
+
+  /**
+   * Load every *.json ABI file in dir
+   */
+  static fromDirectory(dir: string): AbiRegistry {
+    const registry = new AbiRegistry();
+    const files = readdirSync(dir).filter((file) => file.endsWith('.json')).sort();
+
+    for (const file of files) {
+      let parsed: Abi | AbiFile;
+      try {
+        parsed = JSON.parse(readFileSync(join(dir, file), 'utf8'));
+      } catch (error) {
+        throw new Error(`Invalid ABI file ${file}: ${(error as Error).message}`);
+      }
+
+      const { abi, addresses }: Partial<AbiFile> = Array.isArray(parsed)
+        ? { abi: parsed as Abi }
+        : (parsed as AbiFile);
+      if (!Array.isArray(abi)) {
+        throw new Error(`Invalid ABI file ${file}: expected an ABI array or { abi, addresses }`);
+      }
+      registry.register(abi, addresses);
+    }
+
+    logger.info({ dir, files: files.length, events: registry.size }, 'Loaded ABI registry');
+    return registry;
+  }
+}
@@ -0,0 +1,196 @@
+import type { BackfillShard } from '@prisma/client';
+import { logger } from '../lib/logger.js';
+import { exponentialRetry } from '../lib/retry.js';
+import type { BlockCallback, BlockPoller } from './block-poller.js';
+import type { EventStorage } from './storage.js';
+
+export interface BackfillOptions {
+  /** Number of shards processed concurrently */
+  workers: number;
+  /** Blocks per shard */
+  shardSize: bigint;
+  /** Delay before a failed shard is retried; doubles with each failure, up to 10 minutes */
+  retryDelayMs?: number;
+}
+
+const MAX_RETRY_DELAY_MS = 10 * 60_000;
+
+/**
+ * Split [fromBlock, toBlock] into consecutive ranges of at most size blocks
+ */
+export function splitRange(
+  fromBlock: bigint,
+  toBlock: bigint,
+  size: bigint
+): Array<{ fromBlock: bigint; toBlock: bigint }> {
+  const ranges: Array<{ fromBlock: bigint; toBlock: bigint }> = [];
+  for (let start = fromBlock; start <= toBlock; start += size) {
+    const end = start + size - 1n;
+    ranges.push({ fromBlock: start, toBlock: end > toBlock ? toBlock : end });
+  }
+  return ranges;
+}
+
+/**
+ * Runs historical backfill as block-range shards over a pool of concurrent
+ * workers, independently of the live tail. Shard progress is persisted after
+ * every batch so a restart resumes incomplete shards where they stopped.
+ */
+export class BackfillCoordinator {
+  private abortController = new AbortController();
+  private activeShards = 0;
+  /** Failures in a row of each shard waiting to be retried, by shard id */
+  private failingShards = new Map<string, number>();
+
+  constructor(
+    private poller: BlockPoller,
+    private storage: EventStorage,
+    private options: BackfillOptions
+  ) {}
+
+  /**
+   * Whether a gap of this many blocks is worth splitting into shards
+   * rather than letting the live tail catch up sequentially
+   */
+  shouldBackfill(fromBlock: bigint, toBlock: bigint): boolean {
+    return this.options.workers > 0 && toBlock - fromBlock + 1n > this.options.shardSize;
+  }
+
+  /**
+   * Persist shards covering [fromBlock, toBlock]; the live tail takes over after toBlock
+   */
+  async plan(fromBlock: bigint, toBlock: bigint): Promise<void> {
+    const ranges = splitRange(fromBlock, toBlock, this.options.shardSize);
+    await this.storage.createBackfillShards(ranges, toBlock);
+
+    logger.info(
+      { fromBlock, toBlock, shards: ranges.length, workers: this.options.workers },
+      'Planned historical backfill'
+    );
+  }
+
+  /**
+   * Process every incomplete shard, at most `workers` at a time
+   */
+  async run(callback: BlockCallback): Promise<void> {
+    const queue = await this.storage.getIncompleteBackfillShards();
+    if (queue.length === 0) {
+      return;
+    }
+
+    logger.info({ shards: queue.length, workers: this.options.workers }, 'Backfill started');
+
+    const workerCount = Math.max(1, Math.min(this.options.workers, queue.length));
+    await Promise.all(
+      Array.from({ length: workerCount }, async () => {
+        for (let shard = queue.shift(); shard; shard = queue.shift()) {
+          if (this.abortController.signal.aborted) {
+            return;
+          }
+          const resumeFrom = await this.processShard(shard, callback);
+          if (resumeFrom !== null) {
+            await this.requeue(queue, { ...shard, nextBlock: resumeFrom });
+          }
+        }
+      })
+    );
+
+    if (!this.abortController.signal.aborted) {
+      logger.info('Backfill complete');
+    }
+  }
+
+  /**
+   * Returns the block to resume from when the shard failed, otherwise null
+   */
+  private async processShard(shard: BackfillShard, callback: BlockCallback): Promise<bigint | null> {
+    this.activeShards++;
+    let nextBlock = shard.nextBlock;
+
+    try {
+      await this.storage.updateBackfillShard(shard, nextBlock);
+
+      // Retries resume from the last persisted batch rather than the shard start
+      await exponentialRetry(
+        () =>
+          this.poller.scanRange(
+            nextBlock,
+            shard.toBlock,
+            callback,
+            async (toBlock) => {
+              nextBlock = toBlock + 1n;
+              await this.storage.updateBackfillShard(shard, nextBlock);
+            },
+            this.abortController.signal
+          ),
+        { maxRetries: 5, baseDelayMs: 1000 }
+      );
+
+      this.failingShards.delete(shard.id);
+      if (nextBlock > shard.toBlock) {
+        logger.info({ fromBlock: shard.fromBlock, toBlock: shard.toBlock }, 'Backfill shard complete');
+      }
+      return null;
+    } catch (error) {
+      logger.error(
+        { error, fromBlock: shard.fromBlock, toBlock: shard.toBlock, nextBlock },
+        'Backfill shard failed'
+      );
+      return nextBlock;
+    } finally {
+      this.activeShards--;
+    }
+  }
+
+  /**
+   * Put a failed shard back on the queue after a delay that doubles with each
+   * failure in a row, so an RPC outage or lock contention doesn't leave it
+   * stopped until a restart
+   */
+  private async requeue(queue: BackfillShard[], shard: BackfillShard): Promise<void> {
+    const failures = (this.failingShards.get(shard.id) ?? 0) + 1;
+    this.failingShards.set(shard.id, failures);
+    const delayMs = Math.min(
+      (this.options.retryDelayMs ?? 60_000) * 2 ** (failures - 1),
+      MAX_RETRY_DELAY_MS
+    );
+    logger.warn(
+      { fromBlock: shard.fromBlock, toBlock: shard.toBlock, failures, delayMs },
+      'Retrying backfill shard after delay'
+    );
+
+    const signal = this.abortController.signal;
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(resolve, delayMs);
+      signal.addEventListener(
+        'abort',
+        () => {
+          clearTimeout(timer);
+          resolve();
+        },
+        { once: true }
+      );
+    });
+    if (signal.aborted) {
+      // Left incomplete; it is picked up again on the next start
+      this.failingShards.delete(shard.id);
+    } else {
+      queue.push(shard);
+    }
+  }
+
+  stop(): void {
+    this.abortController.abort();
+  }
+
+  isRunning(): boolean {
+    return this.activeShards > 0 || this.failingShards.size > 0;
+  }
+
+  /**
+   * Number of shards whose last attempt failed and that are waiting to be retried
+   */
+  getFailingShardCount(): number {
+    return this.failingShards.size;
+  }
+}
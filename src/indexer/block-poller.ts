@@ -1,41 +1,133 @@
-import { createPublicClient, http, type PublicClient, type Log } from 'viem';
+import {
+  createPublicClient,
+  formatLog,
+  http,
+  numberToHex,
+  type Address,
+  type Chain,
+  type Hex,
+  type Log,
+  type PublicClient,
+  type Transport,
+} from 'viem';
 import { ink } from 'viem/chains';
 import { logger } from '../lib/logger.js';
 import { exponentialRetry } from '../lib/retry.js';
+import { LRUCache } from '../lib/lru-cache.js';
+import { AdaptiveLogRange, isRangeLimitError } from './log-range.js';
+import type { BlockFinality, BlockHeader, LogFilter } from '../types/events.js';
 
-export type BlockCallback = (blockNumber: bigint, logs: Log[]) => Promise<void>;
+export type BlockCallback = (
+  blockNumber: bigint,
+  logs: Log[],
+  header: BlockHeader
+) => Promise<void>;
+export type BatchCallback = (toBlock: bigint) => Promise<void>;
+
+export interface BlockPollerOptions {
+  /** Chain to index; defaults to Ink mainnet */
+  chain?: Chain;
+  /** Number of blocks to stay behind the followed head */
+  confirmations?: number;
+  /** Follow the latest block or the `safe`/`finalized` block tag */
+  finality?: BlockFinality;
+  /** Index up to the latest block; blocks above the confirmed head are pending */
+  indexPending?: boolean;
+  /** Smallest eth_getLogs block range to bisect down to */
+  minLogRange?: number;
+  /** Largest eth_getLogs block range to grow up to */
+  maxLogRange?: number;
+  /** Number of block headers kept in the LRU cache */
+  headerCacheSize?: number;
+  /** Only fetch logs matching any of these filters; empty fetches every log */
+  logFilters?: LogFilter[];
+}
+
+// Headers requested concurrently per round; the transport splits them into JSON-RPC batches
+const HEADER_FETCH_CONCURRENCY = 1000;
+
+/**
+ * Thrown by a BlockCallback after rolling back a reorg, to rewind the
+ * poller so it re-indexes everything above the fork point.
+ */
+export class ChainReorgError extends Error {
+  constructor(public readonly forkBlock: bigint) {
+    super(`Chain reorganization, rewinding to block ${forkBlock}`);
+    this.name = 'ChainReorgError';
+  }
+}
 
 export class BlockPoller {
   public client: PublicClient;
   private currentBlock: bigint;
+  private confirmedBlock: bigint;
   private pollInterval: number;
+  private confirmations: bigint;
+  private finality: BlockFinality;
+  private indexPending: boolean;
+  private logRange: AdaptiveLogRange;
+  private headerCache: LRUCache<bigint, BlockHeader>;
+  private logFilters: LogFilter[];
   private isRunning: boolean = false;
   private errorCount: number = 0;
 
-  constructor(rpcUrl: string, startBlock: bigint, pollInterval: number) {
+  /**
+   * @param rpc RPC URL, or a transport such as one from RpcPool
+   */
+  constructor(
+    rpc: string | Transport,
+    startBlock: bigint,
+    pollInterval: number,
+    options: BlockPollerOptions = {}
+  ) {
     this.client = createPublicClient({
-      chain: ink,
-      transport: http(rpcUrl, {
-        retryCount: 3,
-        timeout: 30_000,
-      }),
+      chain: options.chain ?? ink,
+      transport:
+        typeof rpc === 'string'
+          ? http(rpc, {
+              batch: { batchSize: 100 },
+              retryCount: 3,
+              timeout: 30_000,
+            })
+          : rpc,
     });
     this.currentBlock = startBlock;
+    this.confirmedBlock = startBlock - 1n;
     this.pollInterval = pollInterval;
+    this.confirmations = BigInt(options.confirmations ?? 0);
+    this.finality = options.finality ?? 'latest';
+    this.indexPending = options.indexPending ?? false;
+    this.logRange = new AdaptiveLogRange({
+      minRange: BigInt(options.minLogRange ?? 10),
+      maxRange: BigInt(options.maxLogRange ?? 10_000),
+      initialRange: 100n,
+    });
+    this.headerCache = new LRUCache(options.headerCacheSize ?? 10_000);
+    this.logFilters = options.logFilters ?? [];
   }
 
-  async start(callback: BlockCallback): Promise<void> {
+  async start(callback: BlockCallback, onBatchComplete?: BatchCallback): Promise<void> {
     if (this.isRunning) {
       logger.warn('Block poller is already running');
       return;
     }
 
     this.isRunning = true;
-    logger.info({ startBlock: this.currentBlock, pollIntervalMs: this.pollInterval }, 'Block poller started');
+    logger.info(
+      {
+        startBlock: this.currentBlock,
+        pollIntervalMs: this.pollInterval,
+        confirmations: this.confirmations,
+        finality: this.finality,
+        indexPending: this.indexPending,
+        logFilters: this.logFilters.length,
+      },
+      'Block poller started'
+    );
 
     while (this.isRunning) {
       try {
-        await this.pollBlocks(callback);
+        await this.pollBlocks(callback, onBatchComplete);
         this.errorCount = 0;
       } catch (error) {
         this.errorCount++;
@@ -55,49 +147,223 @@ export class BlockPoller {
     }
   }
 
-  private async pollBlocks(callback: BlockCallback): Promise<void> {
+  private async pollBlocks(
+    callback: BlockCallback,
+    onBatchComplete?: BatchCallback
+  ): Promise<void> {
     return exponentialRetry(
       async () => {
         const latestBlock = await this.client.getBlockNumber();
+        this.confirmedBlock = await this.getConfirmedHead(latestBlock);
 
-        if (latestBlock < this.currentBlock) {
+        const endBlock = this.indexPending ? latestBlock : this.confirmedBlock;
+        if (endBlock < this.currentBlock) {
           logger.debug('No new blocks');
           return;
         }
 
-        const endBlock = latestBlock;
         logger.debug(
           { from: this.currentBlock, to: endBlock, blockCount: Number(endBlock - this.currentBlock) + 1 },
           'Processing block range'
         );
 
-        const BATCH_SIZE = 100n;
-        for (let block = this.currentBlock; block <= endBlock; block += BATCH_SIZE) {
-          const batchEnd = block + BATCH_SIZE - 1n > endBlock ? endBlock : block + BATCH_SIZE - 1n;
-
-          const logs = await this.client.getLogs({
-            fromBlock: block,
-            toBlock: batchEnd,
+        try {
+          await this.scanRange(this.currentBlock, endBlock, callback, async (toBlock) => {
+            // Every block up to toBlock is committed, so resume after it on retry
+            await onBatchComplete?.(toBlock);
+            this.currentBlock = toBlock + 1n;
           });
-
-          const blockNumbers = new Set(logs.map((log) => log.blockNumber));
-          for (const blockNumber of blockNumbers) {
-            const blockLogs = logs.filter((log) => log.blockNumber === blockNumber);
-            await callback(blockNumber, blockLogs);
+        } catch (error) {
+          if (error instanceof ChainReorgError) {
+            logger.warn({ forkBlock: error.forkBlock }, 'Rewinding poller after reorg');
+            this.currentBlock = error.forkBlock + 1n;
+            // Cached headers above the fork point belong to the orphaned chain
+            this.headerCache.deleteWhere((blockNumber) => blockNumber > error.forkBlock);
+            return;
           }
-
-          logger.debug(
-            { from: block, to: batchEnd, logCount: logs.length },
-            'Processed batch'
-          );
+          throw error;
         }
-
-        this.currentBlock = endBlock + 1n;
       },
       { maxRetries: 3, baseDelayMs: 1000 }
     );
   }
 
+  /**
+   * Index [fromBlock, toBlock] in adaptive getLogs batches: each block with logs
+   * is handed to the callback with its header, then the batch end is reported.
+   * Used by the live poll loop and by backfill workers.
+   */
+  async scanRange(
+    fromBlock: bigint,
+    toBlock: bigint,
+    callback: BlockCallback,
+    onBatchComplete?: BatchCallback,
+    signal?: AbortSignal
+  ): Promise<void> {
+    for (let block = fromBlock; block <= toBlock && !signal?.aborted; ) {
+      const { logs, toBlock: batchEnd } = await this.fetchLogs(block, toBlock);
+
+      const blockNumbers = new Set(logs.map((log) => log.blockNumber));
+      const headers = await this.getBlockHeaders([...blockNumbers]);
+      for (const blockNumber of blockNumbers) {
+        const blockLogs = logs.filter((log) => log.blockNumber === blockNumber);
+        await callback(blockNumber, blockLogs, headers.get(blockNumber)!);
+      }
+
+      await onBatchComplete?.(batchEnd);
+
+      logger.debug(
+        { from: block, to: batchEnd, logCount: logs.length, rangeSize: this.logRange.get() },
+        'Processed batch'
+      );
+      block = batchEnd + 1n;
+    }
+  }
+
+  /**
+   * Fetch logs from fromBlock using the adaptive range, bisecting whenever the
+   * provider rejects the range as too large and growing it while responses stay small.
+   */
+  private async fetchLogs(
+    fromBlock: bigint,
+    endBlock: bigint
+  ): Promise<{ logs: Log<bigint, number, false>[]; toBlock: bigint }> {
+    for (;;) {
+      const rangeEnd = fromBlock + this.logRange.get() - 1n;
+      const toBlock = rangeEnd > endBlock ? endBlock : rangeEnd;
+
+      try {
+        const logs = await this.requestLogs(fromBlock, toBlock);
+
+        const previousRange = this.logRange.get();
+        this.logRange.grow(logs.length);
+        if (this.logRange.get() !== previousRange) {
+          logger.debug({ rangeSize: this.logRange.get(), logCount: logs.length }, 'Grew getLogs range');
+        }
+
+        return { logs, toBlock };
+      } catch (error) {
+        if (!isRangeLimitError(error) || !this.logRange.shrink()) {
+          throw error;
+        }
+        logger.info(
+          { from: fromBlock, to: toBlock, rangeSize: this.logRange.get() },
+          'getLogs range rejected by provider, bisecting'
+        );
+      }
+    }
+  }
+
+  /**
+   * Run eth_getLogs over [fromBlock, toBlock]: once unfiltered, or once per
+   * configured filter with the results merged back into chain order.
+   */
+  private async requestLogs(
+    fromBlock: bigint,
+    toBlock: bigint
+  ): Promise<Log<bigint, number, false>[]> {
+    if (this.logFilters.length === 0) {
+      return this.client.getLogs({ fromBlock, toBlock });
+    }
+
+    const results = await Promise.all(
+      this.logFilters.map((filter) =>
+        this.client.request({
+          method: 'eth_getLogs',
+          params: [
+            {
+              fromBlock: numberToHex(fromBlock),
+              toBlock: numberToHex(toBlock),
+              address: filter.addresses as Address[] | undefined,
+              topics: filter.topics ? [filter.topics as Hex[]] : undefined,
+            },
+          ],
+        })
+      )
+    );
+
+    // A log can match more than one filter
+    const logs = new Map<string, Log<bigint, number, false>>();
+    for (const rpcLog of results.flat()) {
+      const log = formatLog(rpcLog) as Log<bigint, number, false>;
+      logs.set(`${log.blockNumber}:${log.logIndex}`, log);
+    }
+
+    return [...logs.values()].sort((a, b) =>
+      a.blockNumber === b.blockNumber
+        ? a.logIndex - b.logIndex
+        : a.blockNumber < b.blockNumber ? -1 : 1
+    );
+  }
+
+  /**
+   * Get headers for the given blocks, serving repeats from the LRU cache and
+   * fetching the rest concurrently so the transport sends them as JSON-RPC batches.
+   */
+  async getBlockHeaders(blockNumbers: bigint[]): Promise<Map<bigint, BlockHeader>> {
+    const headers = new Map<bigint, BlockHeader>();
+    const missing: bigint[] = [];
+
+    for (const blockNumber of blockNumbers) {
+      const cached = this.headerCache.get(blockNumber);
+      if (cached) {
+        headers.set(blockNumber, cached);
+      } else {
+        missing.push(blockNumber);
+      }
+    }
+
+    for (let i = 0; i < missing.length; i += HEADER_FETCH_CONCURRENCY) {
+      const blocks = await Promise.all(
+        missing
+          .slice(i, i + HEADER_FETCH_CONCURRENCY)
+          .map((blockNumber) => this.client.getBlock({ blockNumber }))
+      );
+
+      for (const block of blocks) {
+        const header: BlockHeader = {
+          number: block.number,
+          hash: block.hash,
+          parentHash: block.parentHash,
+          timestamp: new Date(Number(block.timestamp) * 1000),
+        };
+        this.headerCache.set(header.number, header);
+        headers.set(header.number, header);
+      }
+    }
+
+    if (missing.length > 0) {
+      logger.debug(
+        { requested: blockNumbers.length, fetched: missing.length },
+        'Fetched block headers'
+      );
+    }
+
+    return headers;
+  }
+
+  /**
+   * Fetch the current confirmed head from the chain
+   */
+  async fetchConfirmedHead(): Promise<bigint> {
+    return exponentialRetry(async () => {
+      this.confirmedBlock = await this.getConfirmedHead(await this.client.getBlockNumber());
+      return this.confirmedBlock;
+    });
+  }
+
+  /**
+   * Resolve the highest block considered confirmed under the finality settings
+   */
+  private async getConfirmedHead(latestBlock: bigint): Promise<bigint> {
+    let head = latestBlock;
+    if (this.finality !== 'latest') {
+      const block = await this.client.getBlock({ blockTag: this.finality });
+      head = block.number;
+    }
+    return head - this.confirmations;
+  }
+
   async stop(): Promise<void> {
     logger.info('Stopping block poller...');
     this.isRunning = false;
@@ -107,6 +373,27 @@ export class BlockPoller {
     return this.currentBlock;
   }
 
+  /**
+   * Highest block that meets the confirmation depth / finality setting
+   */
+  getConfirmedBlock(): bigint {
+    return this.confirmedBlock;
+  }
+
+  /**
+   * Block range currently used for each eth_getLogs request
+   */
+  getLogRangeSize(): bigint {
+    return this.logRange.get();
+  }
+
+  /**
+   * Set the next block to poll, e.g. to resume from a persisted checkpoint
+   */
+  setCurrentBlock(blockNumber: bigint): void {
+    this.currentBlock = blockNumber;
+  }
+
   async getLatestBlockNumber(): Promise<bigint> {
     return exponentialRetry(() => this.client.getBlockNumber());
   }
@@ -0,0 +1,297 @@
+import { BlockPoller, ChainReorgError } from './block-poller.js';
+import { EventDecoder } from './event-decoder.js';
+import type { AbiRegistry } from './abi-registry.js';
+import { EventStorage } from './storage.js';
+import { ReorgDetector } from './reorg.js';
+import { PoolRegistry } from './pool-registry.js';
+import { TokenRegistry } from './token-registry.js';
+import { TransactionRegistry } from './transaction-registry.js';
+import { BackfillCoordinator } from './backfill.js';
+import { RpcPool, type RpcEndpointStats } from './rpc-pool.js';
+import { getChain } from './chains.js';
+import type { IndexerEventEmitter } from './index.js';
+import { logger } from '../lib/logger.js';
+import { env, type ChainConfig } from '../config/env.js';
+import type { BlockHeader, DecodedEvent, EventStatus, IndexerState } from '../types/events.js';
+
+/**
+ * Indexing pipeline for a single chain: its own RPC pool, poller, backfill
+ * workers, storage scope and checkpoint. Events go to the shared emitter.
+ */
+export class ChainIndexer {
+  readonly chainId: number;
+  private rpcPool: RpcPool;
+  private blockPoller: BlockPoller;
+  private eventDecoder: EventDecoder;
+  private storage: EventStorage;
+  private reorgDetector: ReorgDetector;
+  private poolRegistry: PoolRegistry;
+  private tokenRegistry: TokenRegistry;
+  private transactionRegistry: TransactionRegistry;
+  private backfill: BackfillCoordinator;
+  private eventEmitter: IndexerEventEmitter;
+  private startBlock: bigint;
+  private state: IndexerState;
+
+  constructor(config: ChainConfig, eventEmitter: IndexerEventEmitter, abiRegistry?: AbiRegistry) {
+    const chain = getChain(config.chainId);
+    this.chainId = config.chainId;
+    this.startBlock = config.startBlock;
+    this.rpcPool = new RpcPool(
+      config.rpcUrls.length > 0 ? config.rpcUrls : [...chain.rpcUrls.default.http],
+      { maxLagBlocks: env.rpcMaxLagBlocks }
+    );
+    const pollerOptions = {
+      chain,
+      confirmations: env.confirmations,
+      finality: env.finality,
+      indexPending: env.indexPending,
+      minLogRange: env.minLogRange,
+      maxLogRange: env.maxLogRange,
+      headerCacheSize: env.headerCacheSize,
+      logFilters: env.logFilters,
+    };
+    this.blockPoller = new BlockPoller(
+      this.rpcPool.transport('failover'),
+      config.startBlock,
+      env.pollIntervalMs,
+      pollerOptions
+    );
+    this.eventDecoder = new EventDecoder(abiRegistry);
+    this.storage = new EventStorage(config.chainId);
+    this.reorgDetector = new ReorgDetector(
+      this.blockPoller.client,
+      this.storage,
+      env.maxReorgDepth
+    );
+    this.poolRegistry = new PoolRegistry(this.blockPoller.client, this.storage, env.dexFactories);
+    this.tokenRegistry = new TokenRegistry(this.blockPoller.client, this.storage);
+    this.transactionRegistry = new TransactionRegistry(this.blockPoller.client, this.storage);
+    // Backfill scans through its own poller so it can spread load across endpoints
+    const backfillPoller = new BlockPoller(
+      this.rpcPool.transport(env.rpcRoundRobinBackfill ? 'round-robin' : 'failover'),
+      config.startBlock,
+      env.pollIntervalMs,
+      pollerOptions
+    );
+    this.backfill = new BackfillCoordinator(backfillPoller, this.storage, {
+      workers: env.backfillWorkers,
+      shardSize: env.backfillShardSize,
+    });
+    this.eventEmitter = eventEmitter;
+
+    this.state = {
+      chainId: config.chainId,
+      lastBlockNumber: config.startBlock,
+      isIndexing: false,
+      errorCount: 0,
+      logRangeSize: this.blockPoller.getLogRangeSize(),
+      isBackfilling: false,
+      failingBackfillShards: 0,
+    };
+  }
+
+  /**
+   * Start indexing; resolves once the live poller stops
+   */
+  async start(): Promise<void> {
+    logger.info(
+      { chainId: this.chainId, chain: this.blockPoller.client.chain?.name },
+      'Starting chain indexer...'
+    );
+
+    this.state.isIndexing = true;
+    this.rpcPool.startConsistencyChecks(env.rpcConsistencyCheckMs);
+
+    // Resume after the last fully committed block instead of the start block
+    let nextBlock = this.startBlock;
+    const checkpoint = await this.storage.getCheckpoint();
+    if (checkpoint !== null && checkpoint >= this.startBlock) {
+      nextBlock = checkpoint + 1n;
+      this.state.lastBlockNumber = checkpoint;
+      logger.info({ chainId: this.chainId, checkpoint }, 'Resuming from persisted checkpoint');
+    }
+
+    // Hand a large gap to the backfill workers so the live tail can start at head
+    const head = await this.blockPoller.fetchConfirmedHead();
+    if (this.backfill.shouldBackfill(nextBlock, head)) {
+      await this.backfill.plan(nextBlock, head);
+      nextBlock = head + 1n;
+      this.state.lastBlockNumber = head;
+    }
+    this.blockPoller.setCurrentBlock(nextBlock);
+
+    // Runs alongside the live tail, resuming shards left incomplete by a previous run
+    this.backfill
+      .run(async (blockNumber, logs, header) => {
+        await this.processBlock(blockNumber, logs, header, 'backfill');
+      })
+      .catch((error) => {
+        logger.error({ error, chainId: this.chainId }, 'Backfill failed');
+      });
+
+    // Start block polling
+    await this.blockPoller.start(
+      async (blockNumber, logs, header) => {
+        await this.processBlock(blockNumber, logs, header);
+      },
+      async (toBlock) => {
+        await this.storage.updateCheckpoint(toBlock);
+        this.state.lastBlockNumber = toBlock;
+
+        if (env.indexPending) {
+          await this.confirmPendingEvents();
+        }
+      }
+    );
+
+    logger.info({ chainId: this.chainId }, 'Chain indexer stopped');
+  }
+
+  /**
+   * Process a single block. Backfilled blocks are historical: they skip reorg
+   * checks, are always confirmed, and are not streamed to subscribers.
+   */
+  private async processBlock(
+    blockNumber: bigint,
+    logs: any[],
+    header: BlockHeader,
+    source: 'live' | 'backfill' = 'live'
+  ): Promise<void> {
+    const isLive = source === 'live';
+
+    try {
+      logger.debug({ chainId: this.chainId, blockNumber, logCount: logs.length }, 'Processing block');
+
+      const blockTimestamp = header.timestamp;
+
+      // Roll back orphaned blocks before building on top of them
+      const forkBlock = isLive ? await this.reorgDetector.check(header) : null;
+      if (forkBlock !== null) {
+        await this.rollback(forkBlock);
+        throw new ChainReorgError(forkBlock);
+      }
+
+      // Blocks above the confirmed head are only reached with INDEX_PENDING
+      const status: EventStatus =
+        isLive && blockNumber > this.blockPoller.getConfirmedBlock() ? 'pending' : 'confirmed';
+
+      // Decode all logs
+      const decodedEvents: DecodedEvent[] = [];
+      for (const log of logs) {
+        const decoded = this.eventDecoder.decode(log, blockTimestamp);
+        if (decoded.type !== 'unknown') {
+          decoded.data.chainId = this.chainId;
+          decoded.data.status = status;
+        }
+        decodedEvents.push(decoded);
+      }
+
+      // Fill in pools first so swaps carry their protocol and Swap.pool resolves for subscribers
+      await this.poolRegistry.discover(decodedEvents);
+
+      const transactions = await this.transactionRegistry.getTransactions(decodedEvents);
+
+      // Save to database
+      await this.storage.saveBlockEvents(header, decodedEvents, {
+        updateCheckpoint: isLive,
+        transactions,
+      });
+
+      if (isLive) {
+        // Emit events for WebSocket subscribers
+        for (const event of decodedEvents) {
+          this.eventEmitter.emit(event);
+        }
+
+        // Update state
+        this.state.lastBlockNumber = blockNumber;
+      }
+
+      logger.debug(
+        { blockNumber, decodedCount: decodedEvents.length },
+        'Block processed successfully'
+      );
+    } catch (error) {
+      if (error instanceof ChainReorgError) {
+        throw error;
+      }
+      this.state.errorCount++;
+      logger.error({ error, chainId: this.chainId, blockNumber }, 'Error processing block');
+      throw error;
+    }
+  }
+
+  /**
+   * Promote pending events that have reached the confirmed head and re-publish them
+   */
+  private async confirmPendingEvents(): Promise<void> {
+    const confirmed = await this.storage.confirmEvents(this.blockPoller.getConfirmedBlock());
+
+    for (const event of confirmed) {
+      this.eventEmitter.emit(event);
+    }
+
+    if (confirmed.length > 0) {
+      logger.debug(
+        { chainId: this.chainId, count: confirmed.length },
+        'Promoted pending events to confirmed'
+      );
+    }
+  }
+
+  /**
+   * Remove everything above the fork point and notify subscribers
+   */
+  private async rollback(forkBlock: bigint): Promise<void> {
+    const removed = await this.storage.rollbackToBlock(forkBlock);
+    this.poolRegistry.reset();
+    this.transactionRegistry.reset();
+    this.state.lastBlockNumber = forkBlock;
+
+    for (const event of removed) {
+      this.eventEmitter.emit(event);
+    }
+  }
+
+  async stop(): Promise<void> {
+    logger.info({ chainId: this.chainId }, 'Stopping chain indexer...');
+    this.state.isIndexing = false;
+    this.backfill.stop();
+    this.rpcPool.stop();
+    await this.blockPoller.stop();
+  }
+
+  /**
+   * Get current state of this chain's pipeline
+   */
+  getState(): IndexerState {
+    return {
+      ...this.state,
+      logRangeSize: this.blockPoller.getLogRangeSize(),
+      isBackfilling: this.backfill.isRunning(),
+      failingBackfillShards: this.backfill.getFailingShardCount(),
+    };
+  }
+
+  /**
+   * Get health and latency of each RPC endpoint
+   */
+  getRpcStats(): RpcEndpointStats[] {
+    return this.rpcPool.getStats();
+  }
+
+  /**
+   * Get storage scoped to this chain
+   */
+  getStorage(): EventStorage {
+    return this.storage;
+  }
+
+  /**
+   * Get token metadata, read from the chain on first use
+   */
+  getTokenRegistry(): TokenRegistry {
+    return this.tokenRegistry;
+  }
+}
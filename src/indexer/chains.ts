@@ -0,0 +1,13 @@
+import type { Chain } from 'viem';
+import * as chains from 'viem/chains';
+
+/**
+ * Look up a chain definition by id from the chains viem ships with
+ */
+export function getChain(chainId: number): Chain {
+  const chain = (Object.values(chains) as Chain[]).find((candidate) => candidate.id === chainId);
+  if (!chain) {
+    throw new Error(`Unsupported chain id ${chainId}: not a chain known to viem`);
+  }
+  return chain;
+}
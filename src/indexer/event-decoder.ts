@@ -1,6 +1,12 @@
-import { decodeEventLog, type Log, type Abi, type Address } from 'viem';
-import { logger } from '../lib/logger.js';
-import type { DecodedEvent, ERC20TransferData, SwapData } from '../types/events.js';
+import { decodeEventLog, toEventSelector, type AbiEvent, type Address, type Hex, type Log } from 'viem';
+import type { AbiRegistry } from './abi-registry.js';
+import type {
+  DecodedEvent,
+  GenericEventData,
+  JsonValue,
+  LiquidityEventData,
+  LiquidityEventKind,
+} from '../types/events.js';
 
 // ERC-20 Transfer event ABI
 const ERC20_TRANSFER_ABI = [
@@ -15,6 +21,62 @@ const ERC20_TRANSFER_ABI = [
   },
 ] as const;
 
+// ERC-20 Approval event ABI (ERC-721 Approval indexes the tokenId and is not matched)
+const ERC20_APPROVAL_ABI = [
+  {
+    type: 'event',
+    name: 'Approval',
+    inputs: [
+      { type: 'address', name: 'owner', indexed: true },
+      { type: 'address', name: 'spender', indexed: true },
+      { type: 'uint256', name: 'value', indexed: false },
+    ],
+  },
+] as const;
+
+// ERC-721 Transfer event ABI: same topic0 as ERC-20, but tokenId is indexed
+const ERC721_TRANSFER_ABI = [
+  {
+    type: 'event',
+    name: 'Transfer',
+    inputs: [
+      { type: 'address', name: 'from', indexed: true },
+      { type: 'address', name: 'to', indexed: true },
+      { type: 'uint256', name: 'tokenId', indexed: true },
+    ],
+  },
+] as const;
+
+// ERC-1155 single transfer event ABI
+const ERC1155_TRANSFER_SINGLE_ABI = [
+  {
+    type: 'event',
+    name: 'TransferSingle',
+    inputs: [
+      { type: 'address', name: 'operator', indexed: true },
+      { type: 'address', name: 'from', indexed: true },
+      { type: 'address', name: 'to', indexed: true },
+      { type: 'uint256', name: 'id', indexed: false },
+      { type: 'uint256', name: 'value', indexed: false },
+    ],
+  },
+] as const;
+
+// ERC-1155 batch transfer event ABI
+const ERC1155_TRANSFER_BATCH_ABI = [
+  {
+    type: 'event',
+    name: 'TransferBatch',
+    inputs: [
+      { type: 'address', name: 'operator', indexed: true },
+      { type: 'address', name: 'from', indexed: true },
+      { type: 'address', name: 'to', indexed: true },
+      { type: 'uint256[]', name: 'ids', indexed: false },
+      { type: 'uint256[]', name: 'values', indexed: false },
+    ],
+  },
+] as const;
+
 // Uniswap V2/PancakeSwap Swap event ABI
 const SWAP_ABI = [
   {
@@ -41,140 +103,512 @@ const SWAP_V3_ABI = [
       { type: 'address', name: 'recipient', indexed: true },
       { type: 'int256', name: 'amount0', indexed: false },
       { type: 'int256', name: 'amount1', indexed: false },
-      { type: 'uint256', name: 'sqrtPriceX96', indexed: false },
+      { type: 'uint160', name: 'sqrtPriceX96', indexed: false },
       { type: 'uint128', name: 'liquidity', indexed: false },
       { type: 'int24', name: 'tick', indexed: false },
     ],
   },
 ] as const;
 
-export class EventDecoder {
-  /**
-   * Decode a single log into a structured event
-   */
-  decode(log: Log, blockTimestamp: Date): DecodedEvent {
-    // Try ERC-20 Transfer first (most common)
-    const erc20Transfer = this.tryDecodeERC20Transfer(log, blockTimestamp);
-    if (erc20Transfer) {
-      return { type: 'erc20-transfer', data: erc20Transfer };
-    }
+// Uniswap V2 pair liquidity event ABIs
+const V2_MINT_ABI = [
+  {
+    type: 'event',
+    name: 'Mint',
+    inputs: [
+      { type: 'address', name: 'sender', indexed: true },
+      { type: 'uint256', name: 'amount0', indexed: false },
+      { type: 'uint256', name: 'amount1', indexed: false },
+    ],
+  },
+] as const;
 
-    // Try Uniswap V2/PancakeSwap Swap
-    const swap = this.tryDecodeSwapV2(log, blockTimestamp);
-    if (swap) {
-      return { type: 'swap', data: swap };
-    }
+const V2_BURN_ABI = [
+  {
+    type: 'event',
+    name: 'Burn',
+    inputs: [
+      { type: 'address', name: 'sender', indexed: true },
+      { type: 'uint256', name: 'amount0', indexed: false },
+      { type: 'uint256', name: 'amount1', indexed: false },
+      { type: 'address', name: 'to', indexed: true },
+    ],
+  },
+] as const;
 
-    // Try Uniswap V3 Swap
-    const swapV3 = this.tryDecodeSwapV3(log, blockTimestamp);
-    if (swapV3) {
-      return { type: 'swap', data: swapV3 };
-    }
+const V2_SYNC_ABI = [
+  {
+    type: 'event',
+    name: 'Sync',
+    inputs: [
+      { type: 'uint112', name: 'reserve0', indexed: false },
+      { type: 'uint112', name: 'reserve1', indexed: false },
+    ],
+  },
+] as const;
 
-    // Unknown event type
-    return { type: 'unknown', log };
-  }
+// Uniswap V3 pool liquidity event ABIs
+const V3_MINT_ABI = [
+  {
+    type: 'event',
+    name: 'Mint',
+    inputs: [
+      { type: 'address', name: 'sender', indexed: false },
+      { type: 'address', name: 'owner', indexed: true },
+      { type: 'int24', name: 'tickLower', indexed: true },
+      { type: 'int24', name: 'tickUpper', indexed: true },
+      { type: 'uint128', name: 'amount', indexed: false },
+      { type: 'uint256', name: 'amount0', indexed: false },
+      { type: 'uint256', name: 'amount1', indexed: false },
+    ],
+  },
+] as const;
 
-  /**
-   * Try to decode as ERC-20 Transfer
-   */
-  private tryDecodeERC20Transfer(
-    log: Log,
-    blockTimestamp: Date
-  ): ERC20TransferData | null {
-    try {
+const V3_BURN_ABI = [
+  {
+    type: 'event',
+    name: 'Burn',
+    inputs: [
+      { type: 'address', name: 'owner', indexed: true },
+      { type: 'int24', name: 'tickLower', indexed: true },
+      { type: 'int24', name: 'tickUpper', indexed: true },
+      { type: 'uint128', name: 'amount', indexed: false },
+      { type: 'uint256', name: 'amount0', indexed: false },
+      { type: 'uint256', name: 'amount1', indexed: false },
+    ],
+  },
+] as const;
+
+const V3_COLLECT_ABI = [
+  {
+    type: 'event',
+    name: 'Collect',
+    inputs: [
+      { type: 'address', name: 'owner', indexed: true },
+      { type: 'address', name: 'recipient', indexed: false },
+      { type: 'int24', name: 'tickLower', indexed: true },
+      { type: 'int24', name: 'tickUpper', indexed: true },
+      { type: 'uint128', name: 'amount0', indexed: false },
+      { type: 'uint128', name: 'amount1', indexed: false },
+    ],
+  },
+] as const;
+
+// Uniswap V2 factory PairCreated event ABI (last input is the new pair count)
+const V2_PAIR_CREATED_ABI = [
+  {
+    type: 'event',
+    name: 'PairCreated',
+    inputs: [
+      { type: 'address', name: 'token0', indexed: true },
+      { type: 'address', name: 'token1', indexed: true },
+      { type: 'address', name: 'pair', indexed: false },
+      { type: 'uint256', name: 'pairCount', indexed: false },
+    ],
+  },
+] as const;
+
+// Uniswap V3 factory PoolCreated event ABI
+const V3_POOL_CREATED_ABI = [
+  {
+    type: 'event',
+    name: 'PoolCreated',
+    inputs: [
+      { type: 'address', name: 'token0', indexed: true },
+      { type: 'address', name: 'token1', indexed: true },
+      { type: 'uint24', name: 'fee', indexed: true },
+      { type: 'int24', name: 'tickSpacing', indexed: false },
+      { type: 'address', name: 'pool', indexed: false },
+    ],
+  },
+] as const;
+
+/**
+ * Decoder for one event signature. Handlers are registered under their
+ * topic0 and topic count, so a handler only sees logs it can decode.
+ */
+export interface EventHandler {
+  /** topic0 of the event */
+  selector: Hex;
+  /** Topics on a matching log: topic0 plus one per indexed input */
+  topicCount: number;
+  /** Return null to let the next handler for the same selector try */
+  decode(log: Log, blockTimestamp: Date): DecodedEvent | null;
+}
+
+/**
+ * Build a handler for a single-event ABI. `build` receives the decoded args.
+ */
+export function defineHandler(
+  abi: readonly [AbiEvent],
+  build: (args: Record<string, any>, log: Log, blockTimestamp: Date) => DecodedEvent
+): EventHandler {
+  const [abiEvent] = abi;
+  return {
+    selector: toEventSelector(abiEvent),
+    topicCount: 1 + abiEvent.inputs.filter((input) => input.indexed).length,
+    decode(log, blockTimestamp) {
       const decoded = decodeEventLog({
-        abi: ERC20_TRANSFER_ABI,
+        abi: [abiEvent],
         data: log.data,
         topics: log.topics as any,
       });
+      return build(decoded.args as Record<string, any>, log, blockTimestamp);
+    },
+  };
+}
 
-      if (decoded.eventName === 'Transfer') {
-        return {
-          from: decoded.args.from as Address,
-          to: decoded.args.to as Address,
-          value: (decoded.args.value as bigint).toString(),
-          tokenAddress: log.address,
-          transactionHash: log.transactionHash || '',
-          logIndex: log.logIndex ?? 0,
-          blockNumber: log.blockNumber ?? 0n,
-          blockTimestamp,
-        };
-      }
-    } catch {
-      // Not an ERC-20 Transfer, continue
+/**
+ * Fields every decoded event takes from its log
+ */
+function logFields(log: Log, blockTimestamp: Date) {
+  return {
+    topics: log.topics as string[],
+    data: log.data,
+    transactionHash: log.transactionHash || '',
+    logIndex: log.logIndex ?? 0,
+    blockNumber: log.blockNumber ?? 0n,
+    blockTimestamp,
+  };
+}
+
+/**
+ * Liquidity event with the fields a given pool event doesn't carry left null
+ */
+function liquidityEvent(
+  kind: LiquidityEventKind,
+  args: Record<string, any>,
+  fields: Partial<LiquidityEventData>,
+  log: Log,
+  blockTimestamp: Date
+): DecodedEvent {
+  return {
+    type: 'liquidity',
+    data: {
+      poolAddress: log.address,
+      kind,
+      sender: null,
+      owner: null,
+      recipient: null,
+      tickLower: null,
+      tickUpper: null,
+      liquidity: null,
+      amount0: (args.amount0 as bigint).toString(),
+      amount1: (args.amount1 as bigint).toString(),
+      ...fields,
+      ...logFields(log, blockTimestamp),
+    },
+  };
+}
+
+const BUILTIN_HANDLERS: EventHandler[] = [
+  defineHandler(ERC20_TRANSFER_ABI, (args, log, blockTimestamp) => ({
+    type: 'erc20-transfer',
+    data: {
+      from: args.from as Address,
+      to: args.to as Address,
+      value: (args.value as bigint).toString(),
+      tokenAddress: log.address,
+      ...logFields(log, blockTimestamp),
+    },
+  })),
+
+  defineHandler(ERC20_APPROVAL_ABI, (args, log, blockTimestamp) => ({
+    type: 'approval',
+    data: {
+      tokenAddress: log.address,
+      owner: args.owner as Address,
+      spender: args.spender as Address,
+      value: (args.value as bigint).toString(),
+      ...logFields(log, blockTimestamp),
+    },
+  })),
+
+  // ERC-721 Transfer shares topic0 with ERC-20; the topic count tells them apart
+  defineHandler(ERC721_TRANSFER_ABI, (args, log, blockTimestamp) => ({
+    type: 'nft-transfer',
+    data: {
+      standard: 'erc721',
+      tokenAddress: log.address,
+      operator: null,
+      from: args.from as Address,
+      to: args.to as Address,
+      tokenIds: [(args.tokenId as bigint).toString()],
+      amounts: ['1'],
+      ...logFields(log, blockTimestamp),
+    },
+  })),
+
+  defineHandler(ERC1155_TRANSFER_SINGLE_ABI, (args, log, blockTimestamp) => ({
+    type: 'nft-transfer',
+    data: {
+      standard: 'erc1155',
+      tokenAddress: log.address,
+      operator: args.operator as Address,
+      from: args.from as Address,
+      to: args.to as Address,
+      tokenIds: [(args.id as bigint).toString()],
+      amounts: [(args.value as bigint).toString()],
+      ...logFields(log, blockTimestamp),
+    },
+  })),
+
+  defineHandler(ERC1155_TRANSFER_BATCH_ABI, (args, log, blockTimestamp) => ({
+    type: 'nft-transfer',
+    data: {
+      standard: 'erc1155',
+      tokenAddress: log.address,
+      operator: args.operator as Address,
+      from: args.from as Address,
+      to: args.to as Address,
+      tokenIds: (args.ids as readonly bigint[]).map((id) => id.toString()),
+      amounts: (args.values as readonly bigint[]).map((amount) => amount.toString()),
+      ...logFields(log, blockTimestamp),
+    },
+  })),
+
+  // Uniswap V2/PancakeSwap Swap
+  defineHandler(SWAP_ABI, (args, log, blockTimestamp) => {
+    const amount0In = args.amount0In as bigint;
+    const amount1In = args.amount1In as bigint;
+    const amount0Out = args.amount0Out as bigint;
+    const amount1Out = args.amount1Out as bigint;
+
+    return {
+      type: 'swap',
+      data: {
+        poolAddress: log.address,
+        protocol: 'uniswap-v2',
+        sender: args.sender as Address,
+        recipient: args.to as Address,
+        amount0In: amount0In > 0n ? amount0In.toString() : '0',
+        amount1In: amount1In > 0n ? amount1In.toString() : '0',
+        amount0Out: amount0Out > 0n ? amount0Out.toString() : '0',
+        amount1Out: amount1Out > 0n ? amount1Out.toString() : '0',
+        ...logFields(log, blockTimestamp),
+      },
+    };
+  }),
+
+  // Uniswap V3 Swap: signed pool balance deltas, positive is paid into the pool
+  defineHandler(SWAP_V3_ABI, (args, log, blockTimestamp) => {
+    const amount0 = args.amount0 as bigint;
+    const amount1 = args.amount1 as bigint;
+
+    return {
+      type: 'swap',
+      data: {
+        poolAddress: log.address,
+        protocol: 'uniswap-v3',
+        sender: args.sender as Address,
+        recipient: args.recipient as Address,
+        amount0In: amount0 > 0n ? amount0.toString() : '0',
+        amount1In: amount1 > 0n ? amount1.toString() : '0',
+        amount0Out: amount0 < 0n ? (-amount0).toString() : '0',
+        amount1Out: amount1 < 0n ? (-amount1).toString() : '0',
+        amount0: amount0.toString(),
+        amount1: amount1.toString(),
+        sqrtPriceX96: (args.sqrtPriceX96 as bigint).toString(),
+        liquidity: (args.liquidity as bigint).toString(),
+        tick: Number(args.tick),
+        ...logFields(log, blockTimestamp),
+      },
+    };
+  }),
+
+  // Uniswap V2 pair liquidity
+  defineHandler(V2_MINT_ABI, (args, log, blockTimestamp) =>
+    liquidityEvent('mint', args, { sender: args.sender }, log, blockTimestamp)
+  ),
+  defineHandler(V2_BURN_ABI, (args, log, blockTimestamp) =>
+    liquidityEvent('burn', args, { sender: args.sender, recipient: args.to }, log, blockTimestamp)
+  ),
+  defineHandler(V2_SYNC_ABI, (args, log, blockTimestamp) =>
+    liquidityEvent(
+      'sync',
+      { amount0: args.reserve0, amount1: args.reserve1 },
+      {},
+      log,
+      blockTimestamp
+    )
+  ),
+
+  // Uniswap V3 pool liquidity
+  defineHandler(V3_MINT_ABI, (args, log, blockTimestamp) =>
+    liquidityEvent(
+      'mint',
+      args,
+      {
+        sender: args.sender,
+        owner: args.owner,
+        tickLower: Number(args.tickLower),
+        tickUpper: Number(args.tickUpper),
+        liquidity: (args.amount as bigint).toString(),
+      },
+      log,
+      blockTimestamp
+    )
+  ),
+  defineHandler(V3_BURN_ABI, (args, log, blockTimestamp) =>
+    liquidityEvent(
+      'burn',
+      args,
+      {
+        owner: args.owner,
+        tickLower: Number(args.tickLower),
+        tickUpper: Number(args.tickUpper),
+        liquidity: (args.amount as bigint).toString(),
+      },
+      log,
+      blockTimestamp
+    )
+  ),
+  defineHandler(V3_COLLECT_ABI, (args, log, blockTimestamp) =>
+    liquidityEvent(
+      'collect',
+      args,
+      {
+        owner: args.owner,
+        recipient: args.recipient,
+        tickLower: Number(args.tickLower),
+        tickUpper: Number(args.tickUpper),
+      },
+      log,
+      blockTimestamp
+    )
+  ),
+
+  // Factory events; addresses are lowercased to match the pool's own log addresses
+  defineHandler(V2_PAIR_CREATED_ABI, (args, log, blockTimestamp) => ({
+    type: 'pool-created',
+    data: {
+      factoryAddress: log.address.toLowerCase(),
+      poolAddress: (args.pair as string).toLowerCase(),
+      token0: (args.token0 as string).toLowerCase(),
+      token1: (args.token1 as string).toLowerCase(),
+      fee: null,
+      tickSpacing: null,
+      ...logFields(log, blockTimestamp),
+    },
+  })),
+  defineHandler(V3_POOL_CREATED_ABI, (args, log, blockTimestamp) => ({
+    type: 'pool-created',
+    data: {
+      factoryAddress: log.address.toLowerCase(),
+      poolAddress: (args.pool as string).toLowerCase(),
+      token0: (args.token0 as string).toLowerCase(),
+      token1: (args.token1 as string).toLowerCase(),
+      fee: Number(args.fee),
+      tickSpacing: Number(args.tickSpacing),
+      ...logFields(log, blockTimestamp),
+    },
+  })),
+];
+
+/**
+ * Convert decoded arguments to JSON: integers become decimal strings
+ */
+function toJsonValue(value: unknown): JsonValue {
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(toJsonValue);
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, toJsonValue(item)])
+    );
+  }
+  return value as JsonValue;
+}
+
+function handlerKey(selector: string, topicCount: number): string {
+  return `${selector.toLowerCase()}:${topicCount}`;
+}
+
+/**
+ * Decodes logs by looking up handlers for their topic0 and topic count, so a
+ * log only reaches decoders whose signature it matches. Logs no handler
+ * accepts fall back to the ABI registry, then to `unknown`.
+ */
+export class EventDecoder {
+  private handlers = new Map<string, EventHandler[]>();
+
+  /**
+   * @param abiRegistry User-supplied ABIs tried when no handler matches
+   */
+  constructor(private abiRegistry?: AbiRegistry) {
+    for (const handler of BUILTIN_HANDLERS) {
+      this.register(handler);
     }
-    return null;
   }
 
   /**
-   * Try to decode as Uniswap V2/PancakeSwap Swap
+   * Add a handler. Handlers sharing a selector and topic count are tried in
+   * registration order, after the built-in ones.
    */
-  private tryDecodeSwapV2(log: Log, blockTimestamp: Date): SwapData | null {
-    try {
-      const decoded = decodeEventLog({
-        abi: SWAP_ABI,
-        data: log.data,
-        topics: log.topics as any,
-      });
+  register(handler: EventHandler): void {
+    const key = handlerKey(handler.selector, handler.topicCount);
+    this.handlers.set(key, [...(this.handlers.get(key) ?? []), handler]);
+  }
 
-      if (decoded.eventName === 'Swap') {
-        const amount0In = (decoded.args.amount0In as bigint);
-        const amount1In = (decoded.args.amount1In as bigint);
-        const amount0Out = (decoded.args.amount0Out as bigint);
-        const amount1Out = (decoded.args.amount1Out as bigint);
+  /**
+   * Decode a single log into a structured event
+   */
+  decode(log: Log, blockTimestamp: Date): DecodedEvent {
+    const topic0 = log.topics[0];
+    if (!topic0) {
+      return { type: 'unknown', log };
+    }
 
-        return {
-          poolAddress: log.address,
-          sender: decoded.args.sender as Address,
-          recipient: decoded.args.to as Address,
-          amount0In: amount0In > 0n ? amount0In.toString() : '0',
-          amount1In: amount1In > 0n ? amount1In.toString() : '0',
-          amount0Out: amount0Out > 0n ? amount0Out.toString() : '0',
-          amount1Out: amount1Out > 0n ? amount1Out.toString() : '0',
-          transactionHash: log.transactionHash || '',
-          logIndex: log.logIndex ?? 0,
-          blockNumber: log.blockNumber ?? 0n,
-          blockTimestamp,
-        };
+    for (const handler of this.handlers.get(handlerKey(topic0, log.topics.length)) ?? []) {
+      try {
+        const decoded = handler.decode(log, blockTimestamp);
+        if (decoded) {
+          return decoded;
+        }
+      } catch {
+        // Data doesn't match the signature (e.g. a non-standard token), try the next
       }
-    } catch {
-      // Not a V2 Swap, continue
     }
-    return null;
+
+    // Try ABIs from the registry
+    const generic = this.tryDecodeGeneric(log, topic0, blockTimestamp);
+    if (generic) {
+      return { type: 'generic', data: generic };
+    }
+
+    // Unknown event type
+    return { type: 'unknown', log };
   }
 
   /**
-   * Try to decode as Uniswap V3 Swap
+   * Try each registered ABI event matching the log's address and topic0
    */
-  private tryDecodeSwapV3(log: Log, blockTimestamp: Date): SwapData | null {
-    try {
-      const decoded = decodeEventLog({
-        abi: SWAP_V3_ABI,
-        data: log.data,
-        topics: log.topics as any,
-      });
+  private tryDecodeGeneric(log: Log, topic0: Hex, blockTimestamp: Date): GenericEventData | null {
+    if (!this.abiRegistry) {
+      return null;
+    }
 
-      if (decoded.eventName === 'Swap') {
-        const amount0 = decoded.args.amount0 as bigint;
-        const amount1 = decoded.args.amount1 as bigint;
+    for (const { abiEvent, signature } of this.abiRegistry.lookup(log.address, topic0)) {
+      try {
+        const decoded = decodeEventLog({
+          abi: [abiEvent],
+          data: log.data,
+          topics: log.topics as any,
+        });
 
         return {
-          poolAddress: log.address,
-          sender: decoded.args.sender as Address,
-          recipient: decoded.args.recipient as Address,
-          amount0In: amount0 < 0n ? (-amount0).toString() : '0',
-          amount1In: amount1 < 0n ? (-amount1).toString() : '0',
-          amount0Out: amount0 > 0n ? amount0.toString() : '0',
-          amount1Out: amount1 > 0n ? amount1.toString() : '0',
-          transactionHash: log.transactionHash || '',
-          logIndex: log.logIndex ?? 0,
-          blockNumber: log.blockNumber ?? 0n,
-          blockTimestamp,
+          address: log.address,
+          eventName: decoded.eventName,
+          signature,
+          args: toJsonValue(decoded.args),
+          ...logFields(log, blockTimestamp),
         };
+      } catch {
+        // Indexed inputs or data layout don't match this candidate, try the next
       }
-    } catch {
-      // Not a V3 Swap, continue
     }
     return null;
   }
@@ -1,6 +1,8 @@
-import { BlockPoller } from './block-poller.js';
-import { EventDecoder } from './event-decoder.js';
-import { EventStorage } from './storage.js';
+import { ChainIndexer } from './chain-indexer.js';
+import { AbiRegistry } from './abi-registry.js';
+import type { EventStorage } from './storage.js';
+import type { TokenRegistry } from './token-registry.js';
+import type { RpcEndpointStats } from './rpc-pool.js';
 import { logger } from '../lib/logger.js';
 import { env } from '../config/env.js';
 import type { DecodedEvent, IndexerState } from '../types/events.js';
@@ -25,109 +27,80 @@ export class IndexerEventEmitter {
   }
 }
 
+/**
+ * Runs one ChainIndexer pipeline per configured chain. Queries take an
+ * optional chainId and default to the first configured chain.
+ */
 export class OnchainIndexer {
-  private blockPoller: BlockPoller;
-  private eventDecoder: EventDecoder;
-  private storage: EventStorage;
+  private chains: Map<number, ChainIndexer>;
+  private primaryChainId: number;
   private eventEmitter: IndexerEventEmitter;
-  private state: IndexerState;
   private startTime: Date;
 
   constructor() {
-    this.blockPoller = new BlockPoller(
-      env.rpcUrl,
-      env.startBlock,
-      env.pollIntervalMs
-    );
-    this.eventDecoder = new EventDecoder();
-    this.storage = new EventStorage();
     this.eventEmitter = new IndexerEventEmitter();
+    // ABIs are shared by every chain; per-address scoping keeps contracts apart
+    const abiRegistry = env.abiDir ? AbiRegistry.fromDirectory(env.abiDir) : undefined;
+    this.chains = new Map(
+      env.chains.map((config) => [
+        config.chainId,
+        new ChainIndexer(config, this.eventEmitter, abiRegistry),
+      ])
+    );
+    this.primaryChainId = env.chains[0].chainId;
     this.startTime = new Date();
-
-    this.state = {
-      lastBlockNumber: env.startBlock,
-      isIndexing: false,
-      errorCount: 0,
-    };
   }
 
   /**
-   * Start the indexer
+   * Start every chain; resolves once all of them have stopped
    */
   async start(): Promise<void> {
-    logger.info('Starting Onchain Indexer...');
-
-    this.state.isIndexing = true;
+    logger.info({ chainIds: this.getChainIds() }, 'Starting Onchain Indexer...');
 
-    // Start block polling
-    await this.blockPoller.start(async (blockNumber, logs) => {
-      await this.processBlock(blockNumber, logs);
-    });
+    await Promise.all([...this.chains.values()].map((chain) => chain.start()));
 
     logger.info('Onchain Indexer stopped');
   }
 
   /**
-   * Process a single block
+   * Stop the indexer
    */
-  private async processBlock(
-    blockNumber: bigint,
-    logs: any[]
-  ): Promise<void> {
-    try {
-      logger.debug({ blockNumber, logCount: logs.length }, 'Processing block');
-
-      // Get block timestamp
-      const block = await this.blockPoller.client?.getBlock({ blockNumber });
-      const blockTimestamp = new Date(Number(block?.timestamp || 0) * 1000);
-
-      // Decode all logs
-      const decodedEvents: DecodedEvent[] = [];
-      for (const log of logs) {
-        const decoded = this.eventDecoder.decode(log, blockTimestamp);
-        decodedEvents.push(decoded);
-      }
-
-      // Save to database
-      await this.storage.saveBlockEvents(blockNumber, blockTimestamp, decodedEvents);
-
-      // Emit events for WebSocket subscribers
-      for (const event of decodedEvents) {
-        this.eventEmitter.emit(event);
-      }
+  async stop(): Promise<void> {
+    logger.info('Stopping Onchain Indexer...');
+    await Promise.all([...this.chains.values()].map((chain) => chain.stop()));
+  }
 
-      // Update state
-      this.state.lastBlockNumber = blockNumber;
-
-      logger.debug(
-        { blockNumber, decodedCount: decodedEvents.length },
-        'Block processed successfully'
-      );
-    } catch (error) {
-      this.state.errorCount++;
-      logger.error({ error, blockNumber }, 'Error processing block');
-      throw error;
+  /**
+   * Get the pipeline for chainId, or the primary chain when omitted
+   */
+  getChain(chainId?: number | null): ChainIndexer {
+    const chain = this.chains.get(chainId ?? this.primaryChainId);
+    if (!chain) {
+      throw new Error(`Chain ${chainId} is not indexed; configured chains: ${this.getChainIds().join(', ')}`);
     }
+    return chain;
+  }
+
+  getChainIds(): number[] {
+    return [...this.chains.keys()];
   }
 
   /**
-   * Stop the indexer
+   * Get current indexer state
    */
-  async stop(): Promise<void> {
-    logger.info('Stopping Onchain Indexer...');
-    this.state.isIndexing = false;
-    await this.blockPoller.stop();
+  getState(chainId?: number | null): IndexerState {
+    return this.getChain(chainId).getState();
   }
 
   /**
-   * Get current indexer state
+   * Get health and latency of each RPC endpoint
    */
-  getState(): IndexerState {
-    return { ...this.state };
+  getRpcStats(chainId?: number | null): RpcEndpointStats[] {
+    return this.getChain(chainId).getRpcStats();
   }
 
   /**
-   * Get event emitter for WebSocket subscriptions
+   * Get event emitter for WebSocket subscriptions (events from every chain)
    */
   getEventEmitter(): IndexerEventEmitter {
     return this.eventEmitter;
@@ -136,8 +109,15 @@ export class OnchainIndexer {
   /**
    * Get storage instance for queries
    */
-  getStorage(): EventStorage {
-    return this.storage;
+  getStorage(chainId?: number | null): EventStorage {
+    return this.getChain(chainId).getStorage();
+  }
+
+  /**
+   * Get token metadata for chainId, or the primary chain when omitted
+   */
+  getTokenRegistry(chainId?: number | null): TokenRegistry {
+    return this.getChain(chainId).getTokenRegistry();
   }
 
   /**
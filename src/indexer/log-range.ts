@@ -0,0 +1,84 @@
+export interface LogRangeOptions {
+  minRange: bigint;
+  maxRange: bigint;
+  initialRange?: bigint;
+  /** Keep growing the range while responses have fewer logs than this */
+  targetLogCount?: number;
+}
+
+// Provider messages for oversized eth_getLogs requests (Alchemy, Infura, QuickNode, geth, ...)
+const RANGE_LIMIT_PATTERNS = [
+  /query returned more than \d+ results/i,
+  /block range (is )?too (large|wide)/i,
+  /exceed(s|ed)? (the )?max(imum)? block range/i,
+  /range (is )?too large/i,
+  /response size (exceeded|should not greater)/i,
+  /log response size exceeded/i,
+  /too many (results|logs)/i,
+  // Not a bare "limit exceeded": that also matches rate limits
+  /(block range|results?|logs?) limit exceeded/i,
+];
+
+/**
+ * Check whether an error (or any error in its cause chain) is a provider
+ * rejecting an eth_getLogs range as too large or too dense.
+ */
+export function isRangeLimitError(error: unknown): boolean {
+  let current: any = error;
+  while (current) {
+    const text = `${current.message ?? ''} ${current.details ?? ''}`;
+    if (RANGE_LIMIT_PATTERNS.some((pattern) => pattern.test(text))) {
+      return true;
+    }
+    current = current.cause;
+  }
+  return false;
+}
+
+/**
+ * Block range size for eth_getLogs that halves when the provider rejects a
+ * range and doubles again while responses stay small.
+ */
+export class AdaptiveLogRange {
+  private size: bigint;
+  private minRange: bigint;
+  private maxRange: bigint;
+  private targetLogCount: number;
+
+  constructor(options: LogRangeOptions) {
+    this.minRange = options.minRange;
+    this.maxRange = options.maxRange;
+    this.targetLogCount = options.targetLogCount ?? 2000;
+    this.size = this.clamp(options.initialRange ?? options.minRange);
+  }
+
+  get(): bigint {
+    return this.size;
+  }
+
+  /**
+   * Halve the range after a rejection. Returns false when already at the minimum.
+   */
+  shrink(): boolean {
+    if (this.size <= this.minRange) {
+      return false;
+    }
+    this.size = this.clamp(this.size / 2n);
+    return true;
+  }
+
+  /**
+   * Double the range after a response with few enough logs
+   */
+  grow(logCount: number): void {
+    if (logCount < this.targetLogCount) {
+      this.size = this.clamp(this.size * 2n);
+    }
+  }
+
+  private clamp(size: bigint): bigint {
+    if (size < this.minRange) return this.minRange;
+    if (size > this.maxRange) return this.maxRange;
+    return size;
+  }
+}
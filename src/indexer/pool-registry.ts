@@ -0,0 +1,147 @@
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  ContractFunctionZeroDataError,
+  parseAbi,
+  type Address,
+  type PublicClient,
+} from 'viem';
+import { LRUCache } from '../lib/lru-cache.js';
+import { logger } from '../lib/logger.js';
+import type { EventStorage } from './storage.js';
+import type { DecodedEvent } from '../types/events.js';
+
+// Getters shared by Uniswap V2 pairs and V3 pools; fee() is V3 only
+const POOL_ABI = parseAbi([
+  'function token0() view returns (address)',
+  'function token1() view returns (address)',
+  'function factory() view returns (address)',
+  'function fee() view returns (uint24)',
+]);
+
+/**
+ * Whether a failed read means the contract isn't a pool, as opposed to an RPC
+ * failure worth retrying on a later block
+ */
+function isNotAPool(error: unknown): boolean {
+  return (
+    error instanceof BaseError &&
+    error.walk(
+      (cause) =>
+        cause instanceof ContractFunctionRevertedError ||
+        cause instanceof ContractFunctionZeroDataError
+    ) !== null
+  );
+}
+
+/** What swaps need to know about their pool */
+interface PoolInfo {
+  factoryAddress: string | null;
+  fee: number | null;
+}
+
+/**
+ * Makes sure every pool that emits a swap or liquidity event has a Pool row.
+ * Pools created by an indexed factory event are saved with it; any other pool
+ * is read from its contract the first time it is seen.
+ */
+export class PoolRegistry {
+  /** Pool address -> factory and fee, or null for contracts that aren't pools */
+  private pools: LRUCache<string, PoolInfo | null>;
+
+  /**
+   * @param factories Protocol name by lowercase factory address (DEX_FACTORIES)
+   */
+  constructor(
+    private client: PublicClient,
+    private storage: EventStorage,
+    private factories: Record<string, string> = {},
+    cacheSize: number = 10000
+  ) {
+    this.pools = new LRUCache(cacheSize);
+  }
+
+  /**
+   * Discover the pools behind a block's events and label each swap with its
+   * pool's protocol and fee tier. Failures are logged, not thrown: a missing
+   * pool only leaves `Swap.pool` unresolved and the protocol at its default.
+   */
+  async discover(events: DecodedEvent[]): Promise<void> {
+    const unseen = new Set<string>();
+    for (const event of events) {
+      if (event.type === 'pool-created') {
+        const { factoryAddress, fee } = event.data;
+        this.pools.set(event.data.poolAddress, { factoryAddress, fee });
+      } else if (event.type === 'swap' || event.type === 'liquidity') {
+        const address = event.data.poolAddress.toLowerCase();
+        if (this.pools.get(address) === undefined) {
+          unseen.add(address);
+        }
+      }
+    }
+
+    for (const address of unseen) {
+      try {
+        this.pools.set(address, await this.resolve(address));
+      } catch (error) {
+        logger.warn({ error, chainId: this.storage.chainId, address }, 'Failed to discover pool');
+      }
+    }
+
+    for (const event of events) {
+      const pool = event.type === 'swap' && this.pools.get(event.data.poolAddress.toLowerCase());
+      if (pool) {
+        event.data.fee = pool.fee;
+        event.data.protocol =
+          (pool.factoryAddress && this.factories[pool.factoryAddress]) || event.data.protocol;
+      }
+    }
+  }
+
+  /**
+   * Forget cached pools, e.g. after a reorg removed pools created above the fork
+   */
+  reset(): void {
+    this.pools.deleteWhere(() => true);
+  }
+
+  private async resolve(address: string): Promise<PoolInfo | null> {
+    const stored = await this.storage.getPool(address);
+    if (stored) {
+      return stored;
+    }
+
+    const contract = { address: address as Address, abi: POOL_ABI };
+    let token0: string;
+    let token1: string;
+    try {
+      [token0, token1] = await Promise.all([
+        this.client.readContract({ ...contract, functionName: 'token0' }),
+        this.client.readContract({ ...contract, functionName: 'token1' }),
+      ]);
+    } catch (error) {
+      if (isNotAPool(error)) {
+        logger.debug({ chainId: this.storage.chainId, address }, 'Contract is not a pool');
+        return null;
+      }
+      throw error;
+    }
+
+    // Forks may omit factory(); V2 pairs have no fee()
+    const [factoryAddress, fee] = await Promise.all([
+      this.client.readContract({ ...contract, functionName: 'factory' }).catch(() => null),
+      this.client.readContract({ ...contract, functionName: 'fee' }).catch(() => null),
+    ]);
+
+    const pool = {
+      address,
+      token0: token0.toLowerCase(),
+      token1: token1.toLowerCase(),
+      fee,
+      factoryAddress: factoryAddress?.toLowerCase() ?? null,
+    };
+    await this.storage.savePool(pool);
+    logger.info({ chainId: this.storage.chainId, ...pool }, 'Discovered pool');
+    return pool;
+  }
+}
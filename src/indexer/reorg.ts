@@ -0,0 +1,67 @@
+import type { PublicClient } from 'viem';
+import { logger } from '../lib/logger.js';
+import { exponentialRetry } from '../lib/retry.js';
+import type { EventStorage } from './storage.js';
+import type { BlockHeader } from '../types/events.js';
+
+export class ReorgDetector {
+  constructor(
+    private client: PublicClient,
+    private storage: EventStorage,
+    private maxDepth: number
+  ) {}
+
+  /**
+   * Check a new block against the closest indexed block below it.
+   * Returns the fork point (last block still on the canonical chain) when
+   * the stored chain has been reorganized, or null when it is intact.
+   */
+  async check(block: BlockHeader): Promise<bigint | null> {
+    const parent = await this.storage.getBlockBefore(block.number);
+    if (!parent) {
+      return null;
+    }
+
+    // The direct parent's hash is already in the header; anything older needs a lookup
+    const canonicalHash =
+      parent.number === block.number - 1n
+        ? block.parentHash
+        : await this.getCanonicalHash(parent.number);
+
+    if (canonicalHash === parent.hash) {
+      return null;
+    }
+
+    logger.warn(
+      { blockNumber: block.number, storedBlock: parent.number, storedHash: parent.hash, canonicalHash },
+      'Chain reorganization detected'
+    );
+
+    return this.findForkPoint(parent.number);
+  }
+
+  /**
+   * Walk back through indexed blocks until one still matches the canonical chain
+   */
+  private async findForkPoint(fromBlock: bigint): Promise<bigint> {
+    const stored = await this.storage.getBlocksDescending(fromBlock, this.maxDepth);
+
+    for (const block of stored) {
+      if ((await this.getCanonicalHash(block.number)) === block.hash) {
+        return block.number;
+      }
+    }
+
+    const deepest = stored.length > 0 ? stored[stored.length - 1].number : fromBlock;
+    logger.error(
+      { fromBlock, maxDepth: this.maxDepth },
+      'Reorg deeper than max depth, rolling back all checked blocks'
+    );
+    return deepest - 1n;
+  }
+
+  private async getCanonicalHash(blockNumber: bigint): Promise<string> {
+    const block = await exponentialRetry(() => this.client.getBlock({ blockNumber }));
+    return block.hash;
+  }
+}
@@ -0,0 +1,348 @@
+import {
+  createTransport,
+  hexToBigInt,
+  http,
+  numberToHex,
+  shouldThrow,
+  type EIP1193RequestFn,
+  type Hex,
+  type Transport,
+} from 'viem';
+import { logger } from '../lib/logger.js';
+import { isRangeLimitError } from './log-range.js';
+
+/**
+ * How a transport picks endpoints: `failover` always starts with the best
+ * scoring endpoint, `round-robin` spreads requests across healthy endpoints.
+ */
+export type RpcRoutingMode = 'failover' | 'round-robin';
+
+export interface RpcPoolOptions {
+  /** Per-request timeout */
+  timeoutMs?: number;
+  /** JSON-RPC requests per HTTP batch */
+  batchSize?: number;
+  /** Consecutive failures before an endpoint is benched */
+  maxFailures?: number;
+  /** How long a benched endpoint is skipped before it is tried again */
+  cooldownMs?: number;
+  /** Blocks an endpoint may trail the highest head before it is benched */
+  maxLagBlocks?: number;
+}
+
+export interface RpcEndpointStats {
+  /** Endpoint origin; paths are dropped since they often carry API keys */
+  url: string;
+  healthy: boolean;
+  /** Moving average of request latency */
+  latencyMs: number;
+  /** Moving average of request success, from 0 to 1 */
+  successRate: number;
+  requestCount: number;
+  errorCount: number;
+  /** Head reported during the last consistency check */
+  blockNumber: bigint | null;
+  /** Why the endpoint was last benched */
+  lastIssue: string | null;
+}
+
+interface Endpoint {
+  url: string;
+  request: EIP1193RequestFn;
+  latencyMs: number;
+  successRate: number;
+  requestCount: number;
+  errorCount: number;
+  consecutiveFailures: number;
+  blockNumber: bigint | null;
+  benchedUntil: number;
+  lastIssue: string | null;
+}
+
+// Weight of the newest sample in the latency and success moving averages
+const EWMA_WEIGHT = 0.2;
+
+/**
+ * Pool of RPC endpoints behind a viem transport. Tracks latency and success per
+ * endpoint, fails over to the next endpoint when one errors, benches endpoints
+ * that keep failing or fall out of sync, and can compare heads and block hashes
+ * across providers to spot lagging or forked nodes.
+ */
+export class RpcPool {
+  private endpoints: Endpoint[];
+  private maxFailures: number;
+  private cooldownMs: number;
+  private maxLagBlocks: bigint;
+  private nextIndex = 0;
+  private checkTimer: NodeJS.Timeout | null = null;
+
+  constructor(urls: string[], options: RpcPoolOptions = {}) {
+    if (urls.length === 0) {
+      throw new Error('RpcPool needs at least one endpoint');
+    }
+
+    this.maxFailures = options.maxFailures ?? 3;
+    this.cooldownMs = options.cooldownMs ?? 30_000;
+    this.maxLagBlocks = BigInt(options.maxLagBlocks ?? 5);
+    this.endpoints = urls.map((url) => ({
+      url: new URL(url).origin,
+      // Failover replaces per-endpoint retries
+      request: http(url, {
+        batch: { batchSize: options.batchSize ?? 100 },
+        retryCount: 0,
+        timeout: options.timeoutMs ?? 30_000,
+      })({ retryCount: 0 }).request,
+      latencyMs: 0,
+      successRate: 1,
+      requestCount: 0,
+      errorCount: 0,
+      consecutiveFailures: 0,
+      blockNumber: null,
+      benchedUntil: 0,
+      lastIssue: null,
+    }));
+  }
+
+  /**
+   * viem transport that routes every request through the pool
+   */
+  transport(mode: RpcRoutingMode = 'failover'): Transport {
+    return ({ retryCount }) =>
+      createTransport({
+        key: `rpcPool-${mode}`,
+        name: 'RPC Pool',
+        type: 'rpcPool',
+        retryCount,
+        request: ((args) => this.request(args, mode)) as EIP1193RequestFn,
+      });
+  }
+
+  private async request(
+    args: { method: string; params?: unknown },
+    mode: RpcRoutingMode
+  ): Promise<unknown> {
+    let lastError: unknown;
+
+    for (const endpoint of this.order(mode)) {
+      const started = Date.now();
+      try {
+        const result = await endpoint.request(args as Parameters<EIP1193RequestFn>[0]);
+        this.recordSuccess(endpoint, Date.now() - started);
+        return result;
+      } catch (error) {
+        // The node answered; the request itself needs to change, so don't fail
+        // over. A throttled endpoint is failing, though, and another may serve.
+        if (!isRateLimitError(error) && (isRangeLimitError(error) || shouldThrow(error as Error))) {
+          this.recordSuccess(endpoint, Date.now() - started);
+          throw error;
+        }
+
+        this.recordFailure(endpoint, error);
+        lastError = error;
+        logger.warn(
+          { url: endpoint.url, method: args.method, error: (error as Error).message },
+          'RPC request failed, trying next endpoint'
+        );
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Endpoints in the order to try them; benched endpoints are a last resort
+   */
+  private order(mode: RpcRoutingMode): Endpoint[] {
+    const now = Date.now();
+    const available = this.endpoints.filter((endpoint) => endpoint.benchedUntil <= now);
+    const benched = this.endpoints.filter((endpoint) => endpoint.benchedUntil > now);
+
+    if (mode === 'round-robin' && available.length > 0) {
+      const start = this.nextIndex++ % available.length;
+      return [...available.slice(start), ...available.slice(0, start), ...benched];
+    }
+
+    return [...available.sort((a, b) => score(b) - score(a)), ...benched];
+  }
+
+  private recordSuccess(endpoint: Endpoint, latencyMs: number): void {
+    endpoint.requestCount++;
+    endpoint.consecutiveFailures = 0;
+    endpoint.latencyMs =
+      endpoint.requestCount === 1
+        ? latencyMs
+        : endpoint.latencyMs + EWMA_WEIGHT * (latencyMs - endpoint.latencyMs);
+    endpoint.successRate += EWMA_WEIGHT * (1 - endpoint.successRate);
+  }
+
+  private recordFailure(endpoint: Endpoint, error: unknown): void {
+    endpoint.requestCount++;
+    endpoint.errorCount++;
+    endpoint.consecutiveFailures++;
+    endpoint.successRate -= EWMA_WEIGHT * endpoint.successRate;
+
+    if (endpoint.consecutiveFailures >= this.maxFailures) {
+      endpoint.consecutiveFailures = 0;
+      this.bench(endpoint, (error as Error).message);
+    }
+  }
+
+  private bench(endpoint: Endpoint, reason: string): void {
+    endpoint.benchedUntil = Date.now() + this.cooldownMs;
+    endpoint.lastIssue = reason;
+    logger.warn({ url: endpoint.url, reason, cooldownMs: this.cooldownMs }, 'RPC endpoint benched');
+  }
+
+  /**
+   * Compare heads and block hashes across endpoints. Endpoints more than
+   * maxLagBlocks behind the highest head, or whose hash at the common height
+   * disagrees with the majority, are benched.
+   */
+  async checkConsistency(): Promise<void> {
+    if (this.endpoints.length < 2) {
+      return;
+    }
+
+    const heads = await Promise.all(
+      this.endpoints.map(async (endpoint) => {
+        try {
+          endpoint.blockNumber = hexToBigInt(
+            (await endpoint.request({ method: 'eth_blockNumber' })) as Hex
+          );
+          return endpoint.blockNumber;
+        } catch (error) {
+          this.recordFailure(endpoint, error);
+          return null;
+        }
+      })
+    );
+
+    const highest = heads.reduce<bigint | null>(
+      (max, head) => (head !== null && (max === null || head > max) ? head : max),
+      null
+    );
+    if (highest === null) {
+      return;
+    }
+
+    const inSync: Endpoint[] = [];
+    this.endpoints.forEach((endpoint, i) => {
+      const head = heads[i];
+      if (head === null) {
+        return;
+      }
+      if (highest - head > this.maxLagBlocks) {
+        this.bench(endpoint, `Lagging ${highest - head} blocks behind the highest head`);
+      } else {
+        inSync.push(endpoint);
+      }
+    });
+    if (inSync.length < 2) {
+      return;
+    }
+
+    // Highest block every in-sync endpoint should have
+    const common = inSync.reduce((min, endpoint) =>
+      endpoint.blockNumber! < min ? endpoint.blockNumber! : min, highest);
+    const hashes = await Promise.all(
+      inSync.map(async (endpoint) => {
+        try {
+          const block = (await endpoint.request({
+            method: 'eth_getBlockByNumber',
+            params: [numberToHex(common), false],
+          })) as { hash: Hex } | null;
+          return block?.hash ?? null;
+        } catch (error) {
+          this.recordFailure(endpoint, error);
+          return null;
+        }
+      })
+    );
+
+    const counts = new Map<Hex, number>();
+    for (const hash of hashes) {
+      if (hash) {
+        counts.set(hash, (counts.get(hash) ?? 0) + 1);
+      }
+    }
+    if (counts.size < 2) {
+      return;
+    }
+
+    const ranked = [...counts.entries()].sort((a, b) => b[1] - a[1]);
+    if (ranked[0][1] === ranked[1][1]) {
+      logger.warn({ blockNumber: common, hashes: ranked }, 'RPC endpoints disagree on block hash with no majority');
+      return;
+    }
+
+    const majority = ranked[0][0];
+    inSync.forEach((endpoint, i) => {
+      if (hashes[i] && hashes[i] !== majority) {
+        this.bench(endpoint, `Block ${common} hash ${hashes[i]} differs from majority ${majority}`);
+      }
+    });
+  }
+
+  /**
+   * Run checkConsistency every intervalMs until stopped
+   */
+  startConsistencyChecks(intervalMs: number): void {
+    if (this.checkTimer || intervalMs <= 0 || this.endpoints.length < 2) {
+      return;
+    }
+
+    this.checkTimer = setInterval(() => {
+      this.checkConsistency().catch((error) => {
+        logger.error({ error }, 'RPC consistency check failed');
+      });
+    }, intervalMs);
+    this.checkTimer.unref();
+  }
+
+  stop(): void {
+    if (this.checkTimer) {
+      clearInterval(this.checkTimer);
+      this.checkTimer = null;
+    }
+  }
+
+  getStats(): RpcEndpointStats[] {
+    const now = Date.now();
+    return this.endpoints.map((endpoint) => ({
+      url: endpoint.url,
+      healthy: endpoint.benchedUntil <= now,
+      latencyMs: Math.round(endpoint.latencyMs),
+      successRate: endpoint.successRate,
+      requestCount: endpoint.requestCount,
+      errorCount: endpoint.errorCount,
+      blockNumber: endpoint.blockNumber,
+      lastIssue: endpoint.lastIssue,
+    }));
+  }
+}
+
+/**
+ * Reliable endpoints first, then faster ones
+ */
+function score(endpoint: Endpoint): number {
+  return endpoint.successRate / (1 + endpoint.latencyMs / 1000);
+}
+
+/**
+ * Check whether an error (or any error in its cause chain) is an endpoint
+ * throttling requests: HTTP 429 or a rate limit message
+ */
+function isRateLimitError(error: unknown): boolean {
+  let current: any = error;
+  while (current) {
+    if (current.status === 429 || current.code === 429) {
+      return true;
+    }
+    const text = `${current.message ?? ''} ${current.details ?? ''}`;
+    if (/rate limit|too many requests|request limit/i.test(text)) {
+      return true;
+    }
+    current = current.cause;
+  }
+  return false;
+}
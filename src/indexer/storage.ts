@@ -1,13 +1,34 @@
+import { Prisma, type BackfillShard } from '@prisma/client';
+import { maxUint256, zeroAddress } from 'viem';
 import { prisma } from '../lib/prisma.js';
+import { env } from '../config/env.js';
+import type { TokenMetadata } from './token-registry.js';
 import { logger } from '../lib/logger.js';
-import type { DecodedEvent, ERC20TransferData, SwapData } from '../types/events.js';
+import type {
+  ActivityInterval,
+  ActivitySubject,
+  ApprovalData,
+  BlockHeader,
+  CandleInterval,
+  DecodedEvent,
+  ERC20TransferData,
+  GenericEventData,
+  LiquidityEventData,
+  NFTTransferData,
+  PoolCreatedData,
+  RawLog,
+  SwapData,
+  TransactionData,
+} from '../types/events.js';
 
-/** Convert BigInt and Date fields to strings for GraphQL serialization */
+/** Convert BigInt, Decimal and Date fields to strings for GraphQL serialization */
 function serialize(row: Record<string, any>): Record<string, any> {
   const result: Record<string, any> = {};
   for (const [key, value] of Object.entries(row)) {
     if (typeof value === 'bigint') {
       result[key] = value.toString();
+    } else if (Prisma.Decimal.isDecimal(value)) {
+      result[key] = value.toFixed();
     } else if (value instanceof Date) {
       result[key] = value.toISOString();
     } else {
@@ -17,113 +38,1901 @@ function serialize(row: Record<string, any>): Record<string, any> {
   return result;
 }
 
+/** A token amount: a string in decoded events, a Decimal when read back from a row */
+type Amount = string | Prisma.Decimal;
+
+/**
+ * Amount as a bigint. Decimals go through toFixed(), since their toString()
+ * switches to exponent notation for large values.
+ */
+function toBigInt(amount: Amount | number): bigint {
+  return BigInt(Prisma.Decimal.isDecimal(amount) ? amount.toFixed() : amount);
+}
+
+/** A row with its Decimal amounts as strings, as in decoded events */
+type WithStringAmounts<T> = {
+  [K in keyof T]: T[K] extends Prisma.Decimal
+    ? string
+    : T[K] extends Prisma.Decimal | null
+      ? string | null
+      : T[K];
+};
+
+/** Rows read back to publish as events carry amounts as strings, like decoded events */
+function withStringAmounts<T extends Record<string, any>>(row: T): WithStringAmounts<T> {
+  const result: Record<string, any> = { ...row };
+  for (const [key, value] of Object.entries(row)) {
+    if (Prisma.Decimal.isDecimal(value)) {
+      result[key] = value.toFixed();
+    }
+  }
+  return result as WithStringAmounts<T>;
+}
+
+/** Inclusive bounds on a raw token amount */
+export interface AmountRange {
+  min?: string;
+  max?: string;
+}
+
+/** Value range and ordering for transfer lists; newest first by default */
+export interface TransferQuery {
+  value?: AmountRange;
+  orderBy?: 'newest' | 'largest' | 'smallest';
+}
+
+/** Token0/token1 volume ranges and ordering for swap lists; newest first by default */
+export interface SwapQuery {
+  volume0?: AmountRange;
+  volume1?: AmountRange;
+  orderBy?: 'newest' | 'volume0-desc' | 'volume0-asc' | 'volume1-desc' | 'volume1-asc';
+}
+
+const NEWEST_FIRST = { blockNumber: 'desc' } as const;
+
+const TRANSFER_ORDER: Record<
+  NonNullable<TransferQuery['orderBy']>,
+  Prisma.ERC20TransferOrderByWithRelationInput | Prisma.ERC20TransferOrderByWithRelationInput[]
+> = {
+  newest: NEWEST_FIRST,
+  largest: [{ value: 'desc' }, NEWEST_FIRST],
+  smallest: [{ value: 'asc' }, NEWEST_FIRST],
+};
+
+const SWAP_ORDER: Record<
+  NonNullable<SwapQuery['orderBy']>,
+  Prisma.SwapOrderByWithRelationInput | Prisma.SwapOrderByWithRelationInput[]
+> = {
+  newest: NEWEST_FIRST,
+  'volume0-desc': [{ volume0: 'desc' }, NEWEST_FIRST],
+  'volume0-asc': [{ volume0: 'asc' }, NEWEST_FIRST],
+  'volume1-desc': [{ volume1: 'desc' }, NEWEST_FIRST],
+  'volume1-asc': [{ volume1: 'asc' }, NEWEST_FIRST],
+};
+
+/** Where clause bounding field by range; empty without bounds */
+function amountWhere(field: string, range: AmountRange = {}): Record<string, unknown> {
+  if (range.min === undefined && range.max === undefined) {
+    return {};
+  }
+  return { [field]: { gte: range.min, lte: range.max } };
+}
+
+/** Raw topics and data for an event's log row; empty when the event didn't come from a log */
+function rawLog(fields: RawLog): { topics: string[]; data: string } {
+  return { topics: fields.topics ?? [], data: fields.data ?? '0x' };
+}
+
+/** Unique key shared by every event table: one row per log per chain */
+function naturalKey(row: { chainId: number; transactionHash: string; logIndex: number }) {
+  return {
+    chainId_transactionHash_logIndex: {
+      chainId: row.chainId,
+      transactionHash: row.transactionHash,
+      logIndex: row.logIndex,
+    },
+  };
+}
+
+/** Position of the event a derived row was last updated from */
+interface EventPosition {
+  blockNumber: bigint;
+  logIndex: number;
+}
+
+/**
+ * Whether current already reflects an event after next. Backfill workers commit
+ * older blocks after newer ones, so derived rows only move forward.
+ */
+function isAfter(current: EventPosition | null, next: EventPosition): boolean {
+  return (
+    current !== null &&
+    (current.blockNumber > next.blockNumber ||
+      (current.blockNumber === next.blockNumber && current.logIndex > next.logIndex))
+  );
+}
+
+/** Pool fields set by a V2 Sync (reserves) or a V3 Swap (price, tick, liquidity) */
+interface PoolUpdate extends EventPosition {
+  poolAddress: string;
+  blockTimestamp: Date;
+  reserve0: string | null;
+  reserve1: string | null;
+  sqrtPriceX96: string | null;
+  tick: number | null;
+  liquidity: string | null;
+}
+
+/**
+ * Raw price of token0 in token1 (not adjusted for decimals), from the V3
+ * sqrtPriceX96 or the V2 reserves
+ */
+function poolPrice(row: {
+  reserve0: string | null;
+  reserve1: string | null;
+  sqrtPriceX96: string | null;
+}): number | null {
+  if (row.sqrtPriceX96) {
+    return (Number(row.sqrtPriceX96) / 2 ** 96) ** 2;
+  }
+  if (row.reserve0 && row.reserve1 && row.reserve0 !== '0') {
+    return Number(row.reserve1) / Number(row.reserve0);
+  }
+  return null;
+}
+
+/** Candle bucket length in milliseconds */
+const CANDLE_INTERVALS: Record<CandleInterval, number> = {
+  '1m': 60_000,
+  '5m': 300_000,
+  '1h': 3_600_000,
+  '1d': 86_400_000,
+};
+
+/** Start of the interval-long bucket containing timestamp */
+function bucketStart(timestamp: Date, interval: CandleInterval): Date {
+  const length = CANDLE_INTERVALS[interval];
+  return new Date(Math.floor(timestamp.getTime() / length) * length);
+}
+
+/** Swap fields candles are built from */
+interface CandleSwap extends EventPosition {
+  poolAddress: string;
+  blockTimestamp: Date;
+  amount0In: Amount;
+  amount1In: Amount;
+  amount0Out: Amount;
+  amount1Out: Amount;
+  sqrtPriceX96?: string | null;
+}
+
+/**
+ * Raw price of token0 in token1 after a swap: the V3 pool price, or what
+ * a V2 swap paid
+ */
+function swapPrice(swap: CandleSwap): number | null {
+  if (swap.sqrtPriceX96) {
+    return poolPrice({ reserve0: null, reserve1: null, sqrtPriceX96: swap.sqrtPriceX96 });
+  }
+  const amount0 = toBigInt(swap.amount0In) + toBigInt(swap.amount0Out);
+  const amount1 = toBigInt(swap.amount1In) + toBigInt(swap.amount1Out);
+  return amount0 > 0n ? Number(amount1) / Number(amount0) : null;
+}
+
+/** Swaps netted into one candle before it is written */
+interface CandleTally {
+  key: { chainId: number; poolAddress: string; interval: CandleInterval; bucketStart: Date };
+  open: EventPosition & { price: number };
+  close: EventPosition & { price: number };
+  high: number;
+  low: number;
+  volume0: bigint;
+  volume1: bigint;
+  swapCount: number;
+}
+
+const ACTIVITY_INTERVALS: ActivityInterval[] = ['1h', '1d'];
+
+/** A transfer or swap as counted in its token's or pool's activity */
+interface ActivityEvent {
+  subject: ActivitySubject;
+  address: string;
+  blockTimestamp: Date;
+  sender: string;
+  receiver: string;
+  /** Raw amounts added to the bucket's volume fields */
+  volumes: Partial<Record<'volume' | 'volume0' | 'volume1', bigint>>;
+}
+
+/** Events netted into one activity bucket before it is written */
+interface ActivityTally {
+  bucket: {
+    chainId: number;
+    subject: ActivitySubject;
+    address: string;
+    interval: ActivityInterval;
+    bucketStart: Date;
+  };
+  countField: 'transferCount' | 'swapCount';
+  count: number;
+  volumes: Record<string, bigint>;
+  /** Events per sending and receiving account */
+  senders: Map<string, number>;
+  receivers: Map<string, number>;
+}
+
+function transferActivity(transfer: {
+  tokenAddress: string;
+  from: string;
+  to: string;
+  value: Amount;
+  blockTimestamp: Date;
+}): ActivityEvent {
+  return {
+    subject: 'token',
+    address: transfer.tokenAddress.toLowerCase(),
+    blockTimestamp: transfer.blockTimestamp,
+    sender: transfer.from.toLowerCase(),
+    receiver: transfer.to.toLowerCase(),
+    volumes: { volume: toBigInt(transfer.value) },
+  };
+}
+
+function swapActivity(swap: CandleSwap & { sender: string; recipient: string }): ActivityEvent {
+  return {
+    subject: 'pool',
+    address: swap.poolAddress.toLowerCase(),
+    blockTimestamp: swap.blockTimestamp,
+    sender: swap.sender.toLowerCase(),
+    receiver: swap.recipient.toLowerCase(),
+    volumes: {
+      volume0: toBigInt(swap.amount0In) + toBigInt(swap.amount0Out),
+      volume1: toBigInt(swap.amount1In) + toBigInt(swap.amount1Out),
+    },
+  };
+}
+
+/** An amount to move an owner's token balance by */
+interface BalanceAdjustment {
+  tokenAddress: string;
+  owner: string;
+  amount: bigint;
+}
+
+/** Limits for interactive write transactions, which run one query per round trip */
+const TRANSACTION_OPTIONS = {
+  maxWait: env.dbTransactionMaxWaitMs,
+  timeout: env.dbTransactionTimeoutMs,
+};
+
+/**
+ * Reads and writes for one chain: every row written carries the chain's id
+ * and every query is scoped to it.
+ */
 export class EventStorage {
+  constructor(readonly chainId: number) {}
+
   /**
-   * Save all events from a block atomically
+   * Save all events from a block, and the transactions that emitted them,
+   * atomically. Backfill workers pass `updateCheckpoint: false` since their
+   * blocks sit below the live checkpoint.
    */
   async saveBlockEvents(
-    blockNumber: bigint,
-    blockTimestamp: Date,
-    events: DecodedEvent[]
+    block: BlockHeader,
+    events: DecodedEvent[],
+    options: { updateCheckpoint?: boolean; transactions?: TransactionData[] } = {}
   ): Promise<void> {
+    const { number: blockNumber, timestamp: blockTimestamp } = block;
+
     try {
       await prisma.$transaction(async (tx) => {
+        await tx.block.upsert({
+          where: { chainId_number: { chainId: this.chainId, number: blockNumber } },
+          create: {
+            chainId: this.chainId,
+            number: blockNumber,
+            hash: block.hash,
+            parentHash: block.parentHash,
+            timestamp: blockTimestamp,
+          },
+          update: { hash: block.hash, parentHash: block.parentHash, timestamp: blockTimestamp },
+        });
+
+        for (const transaction of options.transactions ?? []) {
+          await this.saveTransaction(tx, transaction);
+        }
+
+        // Totals only count rows this block adds, so replays leave them alone
+        const blockLogs = { where: { chainId: this.chainId, blockNumber } };
+        const logsBefore = await tx.eventLog.count(blockLogs);
+        let newTransfers = 0;
+        let newSwaps = 0;
+        const activity: ActivityEvent[] = [];
+        const createdSwaps: SwapData[] = [];
+
         for (const event of events) {
           if (event.type === 'erc20-transfer') {
-            await tx.eventLog.create({
-              data: {
-                blockNumber,
-                blockTimestamp,
-                transactionHash: event.data.transactionHash || '',
-                logIndex: event.data.logIndex || 0,
-                address: event.data.tokenAddress || '0x',
-                topics: [],
-                data: '0x',
-              },
+            const eventLogId = await this.saveEventLog(tx, {
+              blockNumber,
+              blockTimestamp,
+              transactionHash: event.data.transactionHash || '',
+              logIndex: event.data.logIndex || 0,
+              address: event.data.tokenAddress || '0x',
+              ...rawLog(event.data),
+            });
+            if (await this.saveERC20Transfer(tx, event.data, eventLogId)) {
+              newTransfers++;
+              activity.push(transferActivity(event.data));
+            }
+          } else if (event.type === 'approval') {
+            const eventLogId = await this.saveEventLog(tx, {
+              blockNumber,
+              blockTimestamp,
+              transactionHash: event.data.transactionHash,
+              logIndex: event.data.logIndex,
+              address: event.data.tokenAddress,
+              ...rawLog(event.data),
             });
-            await this.saveERC20Transfer(tx, event.data);
+            await this.saveApproval(tx, event.data, eventLogId);
+          } else if (event.type === 'nft-transfer') {
+            const eventLogId = await this.saveEventLog(tx, {
+              blockNumber,
+              blockTimestamp,
+              transactionHash: event.data.transactionHash,
+              logIndex: event.data.logIndex,
+              address: event.data.tokenAddress,
+              ...rawLog(event.data),
+            });
+            await this.saveNFTTransfer(tx, event.data, eventLogId);
           } else if (event.type === 'swap') {
-            await tx.eventLog.create({
-              data: {
-                blockNumber,
-                blockTimestamp,
-                transactionHash: event.data.transactionHash || '',
-                logIndex: event.data.logIndex || 0,
-                address: event.data.poolAddress || '0x',
-                topics: [],
-                data: '0x',
-              },
+            const eventLogId = await this.saveEventLog(tx, {
+              blockNumber,
+              blockTimestamp,
+              transactionHash: event.data.transactionHash || '',
+              logIndex: event.data.logIndex || 0,
+              address: event.data.poolAddress || '0x',
+              ...rawLog(event.data),
+            });
+            if (await this.saveSwap(tx, event.data, eventLogId)) {
+              newSwaps++;
+              createdSwaps.push(event.data);
+              activity.push(swapActivity(event.data));
+            }
+          } else if (event.type === 'liquidity') {
+            const eventLogId = await this.saveEventLog(tx, {
+              blockNumber,
+              blockTimestamp,
+              transactionHash: event.data.transactionHash,
+              logIndex: event.data.logIndex,
+              address: event.data.poolAddress,
+              ...rawLog(event.data),
+            });
+            await this.saveLiquidityEvent(tx, event.data, eventLogId);
+          } else if (event.type === 'pool-created') {
+            await this.saveEventLog(tx, {
+              blockNumber,
+              blockTimestamp,
+              transactionHash: event.data.transactionHash,
+              logIndex: event.data.logIndex,
+              address: event.data.factoryAddress,
+              ...rawLog(event.data),
+            });
+            await this.savePoolCreated(tx, event.data);
+          } else if (event.type === 'generic') {
+            const eventLogId = await this.saveEventLog(tx, {
+              blockNumber,
+              blockTimestamp,
+              transactionHash: event.data.transactionHash,
+              logIndex: event.data.logIndex,
+              address: event.data.address,
+              ...rawLog(event.data),
             });
-            await this.saveSwap(tx, event.data);
+            await this.saveGenericEvent(tx, event.data, eventLogId);
           } else if (event.type === 'unknown' && event.log) {
-            await tx.eventLog.create({
-              data: {
-                blockNumber,
-                blockTimestamp,
-                transactionHash: event.log.transactionHash || '',
-                logIndex: event.log.logIndex || 0,
-                address: event.log.address || '0x',
-                topics: (event.log.topics as string[]) || [],
-                data: event.log.data || '0x',
-              },
+            await this.saveEventLog(tx, {
+              blockNumber,
+              blockTimestamp,
+              transactionHash: event.log.transactionHash || '',
+              logIndex: event.log.logIndex || 0,
+              address: event.log.address || '0x',
+              topics: (event.log.topics as string[]) || [],
+              data: event.log.data || '0x',
             });
           }
         }
-      });
+
+        await this.updateBalances(
+          tx,
+          block,
+          events.flatMap((event) => (event.type === 'erc20-transfer' ? [event.data] : []))
+        );
+        const swaps = events.flatMap((event) => (event.type === 'swap' ? [event.data] : []));
+        await this.updatePoolsFromSwaps(tx, swaps);
+        await this.addToCandles(tx, createdSwaps);
+        await this.countActivity(tx, activity, 1);
+        await this.addToStats(tx, {
+          totalEvents: (await tx.eventLog.count(blockLogs)) - logsBefore,
+          totalTransfers: newTransfers,
+          totalSwaps: newSwaps,
+        });
+
+        if (options.updateCheckpoint ?? true) {
+          await this.saveCheckpoint(tx, blockNumber);
+        }
+      }, TRANSACTION_OPTIONS);
 
       logger.info(
-        { blockNumber, eventCount: events.length },
+        { chainId: this.chainId, blockNumber, eventCount: events.length },
         'Saved block events successfully'
       );
     } catch (error) {
-      logger.error({ error, blockNumber }, 'Failed to save block events');
+      logger.error({ error, chainId: this.chainId, blockNumber }, 'Failed to save block events');
       throw error;
     }
   }
 
-  private async saveERC20Transfer(tx: any, data: ERC20TransferData): Promise<void> {
-    await tx.eRC20Transfer.create({
-      data: {
-        blockNumber: data.blockNumber,
-        blockTimestamp: data.blockTimestamp,
-        transactionHash: data.transactionHash,
-        logIndex: data.logIndex,
-        from: data.from,
-        to: data.to,
-        value: data.value,
-        tokenAddress: data.tokenAddress,
+  /**
+   * Writes are upserts keyed on (chainId, transactionHash, logIndex), so
+   * re-processing a block range after a retry or restart never duplicates rows.
+   * Returns the row's id for the typed row decoded from the log.
+   */
+  private async saveEventLog(
+    tx: any,
+    log: Omit<Prisma.EventLogCreateInput, 'chainId'>
+  ): Promise<string> {
+    const data = { ...log, chainId: this.chainId };
+    const row = await tx.eventLog.upsert({
+      where: naturalKey(data),
+      create: data,
+      update: data,
+      select: { id: true },
+    });
+    return row.id;
+  }
+
+  private async saveTransaction(tx: any, data: TransactionData): Promise<void> {
+    const row = {
+      chainId: this.chainId,
+      hash: data.hash,
+      blockNumber: data.blockNumber,
+      from: data.from,
+      to: data.to,
+      selector: data.selector,
+      gasUsed: data.gasUsed,
+      effectiveGasPrice: data.effectiveGasPrice,
+      status: data.status,
+    };
+    await tx.transaction.upsert({
+      where: { chainId_hash: { chainId: this.chainId, hash: row.hash } },
+      create: row,
+      update: row,
+    });
+  }
+
+  /**
+   * Returns whether the transfer is new; replays are not counted in activity
+   */
+  private async saveERC20Transfer(
+    tx: any,
+    data: ERC20TransferData,
+    eventLogId: string
+  ): Promise<boolean> {
+    const row = {
+      chainId: this.chainId,
+      blockNumber: data.blockNumber,
+      blockTimestamp: data.blockTimestamp,
+      transactionHash: data.transactionHash,
+      logIndex: data.logIndex,
+      from: data.from,
+      to: data.to,
+      value: data.value,
+      tokenAddress: data.tokenAddress,
+      status: data.status ?? 'confirmed',
+      eventLogId,
+    };
+    const existing = await tx.eRC20Transfer.findUnique({ where: naturalKey(row), select: { id: true } });
+    await tx.eRC20Transfer.upsert({ where: naturalKey(row), create: row, update: row });
+    return !existing;
+  }
+
+  /**
+   * Add (sign 1) or take out (sign -1) events in their hourly and daily
+   * activity buckets. Events are netted per bucket and account first, so a
+   * busy block writes each row once; rows are written in key order so
+   * concurrent blocks lock them in the same order. Buckets left without
+   * events are deleted.
+   */
+  private async countActivity(tx: any, events: ActivityEvent[], sign: 1 | -1): Promise<void> {
+    const buckets = new Map<string, ActivityTally>();
+    for (const event of events) {
+      for (const interval of ACTIVITY_INTERVALS) {
+        const start = bucketStart(event.blockTimestamp, interval);
+        const order = ACTIVITY_INTERVALS.indexOf(interval);
+        const id = [event.subject, event.address, order, start.getTime()].join(':');
+        let tally = buckets.get(id);
+        if (!tally) {
+          tally = {
+            bucket: {
+              chainId: this.chainId,
+              subject: event.subject,
+              address: event.address,
+              interval,
+              bucketStart: start,
+            },
+            countField: event.subject === 'token' ? 'transferCount' : 'swapCount',
+            count: 0,
+            volumes: {},
+            senders: new Map(),
+            receivers: new Map(),
+          };
+          buckets.set(id, tally);
+        }
+        tally.count++;
+        for (const [field, amount] of Object.entries(event.volumes)) {
+          tally.volumes[field] = (tally.volumes[field] ?? 0n) + amount;
+        }
+        tally.senders.set(event.sender, (tally.senders.get(event.sender) ?? 0) + 1);
+        tally.receivers.set(event.receiver, (tally.receivers.get(event.receiver) ?? 0) + 1);
+      }
+    }
+
+    for (const id of [...buckets.keys()].sort()) {
+      const { bucket, countField, count, volumes, senders, receivers } = buckets.get(id)!;
+      let uniqueSenders = 0;
+      for (const account of [...senders.keys()].sort()) {
+        const events = sign * senders.get(account)!;
+        uniqueSenders += await this.countParticipant(tx, bucket, 'sender', account, events);
+      }
+      let uniqueReceivers = 0;
+      for (const account of [...receivers.keys()].sort()) {
+        const events = sign * receivers.get(account)!;
+        uniqueReceivers += await this.countParticipant(tx, bucket, 'receiver', account, events);
+      }
+
+      // Incremented in place: the live tail and backfill workers count events
+      // into the same bucket concurrently
+      const key = { chainId_subject_address_interval_bucketStart: bucket };
+      const create: Record<string, unknown> = {
+        ...bucket,
+        [countField]: sign * count,
+        uniqueSenders,
+        uniqueReceivers,
+      };
+      const update: Record<string, unknown> = {
+        [countField]: { increment: sign * count },
+        uniqueSenders: { increment: uniqueSenders },
+        uniqueReceivers: { increment: uniqueReceivers },
+      };
+      for (const [field, amount] of Object.entries(volumes)) {
+        const volume = (BigInt(sign) * amount).toString();
+        create[field] = volume;
+        update[field] = { increment: volume };
+      }
+      const row = await tx.activityBucket.upsert({ where: key, create, update });
+      if (row[countField] <= 0) {
+        await tx.activityBucket.deleteMany({ where: bucket });
+      }
+    }
+  }
+
+  /**
+   * Add (positive) or take out (negative) an account's events in a bucket.
+   * Returns 1 when the account is new to the bucket, -1 when its last event
+   * there was taken out, and 0 otherwise. The zero address (mints and burns)
+   * is not a participant.
+   */
+  private async countParticipant(
+    tx: any,
+    bucket: Record<string, unknown>,
+    role: 'sender' | 'receiver',
+    account: string,
+    events: number
+  ): Promise<number> {
+    if (account === zeroAddress) {
+      return 0;
+    }
+
+    const participant = { ...bucket, role, account };
+    const where = { chainId_subject_address_interval_bucketStart_role_account: participant };
+    if (events > 0) {
+      const row = await tx.activityParticipant.upsert({
+        where,
+        create: { ...participant, eventCount: events },
+        update: { eventCount: { increment: events } },
+      });
+      return row.eventCount === events ? 1 : 0;
+    }
+
+    const row = await tx.activityParticipant.update({
+      where,
+      data: { eventCount: { decrement: -events } },
+    });
+    if (row.eventCount > 0) {
+      return 0;
+    }
+    await tx.activityParticipant.delete({ where });
+    return -1;
+  }
+
+  /**
+   * Add to the chain's lifetime totals, or take rolled back rows out of them
+   */
+  private async addToStats(
+    tx: any,
+    totals: { totalEvents: number; totalTransfers: number; totalSwaps: number }
+  ): Promise<void> {
+    if (!totals.totalEvents && !totals.totalTransfers && !totals.totalSwaps) {
+      return;
+    }
+    await tx.chainStats.upsert({
+      where: { chainId: this.chainId },
+      create: {
+        chainId: this.chainId,
+        totalEvents: BigInt(totals.totalEvents),
+        totalTransfers: BigInt(totals.totalTransfers),
+        totalSwaps: BigInt(totals.totalSwaps),
+      },
+      update: {
+        totalEvents: { increment: BigInt(totals.totalEvents) },
+        totalTransfers: { increment: BigInt(totals.totalTransfers) },
+        totalSwaps: { increment: BigInt(totals.totalSwaps) },
       },
     });
   }
 
-  private async saveSwap(tx: any, data: SwapData): Promise<void> {
-    await tx.swap.create({
-      data: {
-        blockNumber: data.blockNumber,
-        blockTimestamp: data.blockTimestamp,
-        transactionHash: data.transactionHash,
-        logIndex: data.logIndex,
-        poolAddress: data.poolAddress,
-        sender: data.sender,
-        recipient: data.recipient,
-        amount0In: data.amount0In,
-        amount1In: data.amount1In,
-        amount0Out: data.amount0Out,
-        amount1Out: data.amount1Out,
+  /**
+   * Record each holder's net balance change from the block's transfers and
+   * apply it to their balance. A replayed block replaces its earlier change,
+   * so the balance only moves by the difference. Changes are added to the
+   * balance in place, so blocks may commit in any order and concurrently.
+   */
+  private async updateBalances(
+    tx: any,
+    block: BlockHeader,
+    transfers: ERC20TransferData[]
+  ): Promise<void> {
+    const changes = new Map<string, { tokenAddress: string; owner: string; delta: bigint }>();
+    const move = (tokenAddress: string, owner: string, amount: bigint) => {
+      if (owner === zeroAddress) {
+        return;
+      }
+      const key = `${tokenAddress}:${owner}`;
+      const change = changes.get(key) ?? { tokenAddress, owner, delta: 0n };
+      change.delta += amount;
+      changes.set(key, change);
+    };
+    for (const transfer of transfers) {
+      const tokenAddress = transfer.tokenAddress.toLowerCase();
+      const value = BigInt(transfer.value);
+      move(tokenAddress, transfer.from.toLowerCase(), -value);
+      move(tokenAddress, transfer.to.toLowerCase(), value);
+    }
+
+    const adjustments: BalanceAdjustment[] = [];
+    for (const { tokenAddress, owner, delta } of changes.values()) {
+      const key = {
+        chainId_tokenAddress_owner_blockNumber: {
+          chainId: this.chainId,
+          tokenAddress,
+          owner,
+          blockNumber: block.number,
+        },
+      };
+      const previous = await tx.balanceChange.findUnique({ where: key });
+      if (delta === 0n && !previous) {
+        continue;
+      }
+
+      const row = {
+        chainId: this.chainId,
+        tokenAddress,
+        owner,
+        blockNumber: block.number,
+        blockTimestamp: block.timestamp,
+        delta: delta.toString(),
+      };
+      await tx.balanceChange.upsert({ where: key, create: row, update: row });
+      adjustments.push({ tokenAddress, owner, amount: delta - toBigInt(previous?.delta ?? 0) });
+    }
+    await this.adjustBalances(tx, adjustments);
+  }
+
+  /**
+   * Move balances and the holder counts of their tokens. Balances are written
+   * in (token, owner) order and holder counts after all of them, in token
+   * order, so concurrent blocks take row locks in the same order.
+   */
+  private async adjustBalances(tx: any, adjustments: BalanceAdjustment[]): Promise<void> {
+    const id = (adjustment: BalanceAdjustment) => `${adjustment.tokenAddress}:${adjustment.owner}`;
+    const sorted = [...adjustments].sort((a, b) => (id(a) < id(b) ? -1 : id(a) > id(b) ? 1 : 0));
+    const holders = new Map<string, number>();
+    for (const { tokenAddress, owner, amount } of sorted) {
+      const change = await this.adjustBalance(tx, tokenAddress, owner, amount);
+      holders.set(tokenAddress, (holders.get(tokenAddress) ?? 0) + change);
+    }
+
+    for (const tokenAddress of [...holders.keys()].sort()) {
+      const change = holders.get(tokenAddress)!;
+      if (change === 0) {
+        continue;
+      }
+      await tx.tokenStats.upsert({
+        where: { chainId_tokenAddress: { chainId: this.chainId, tokenAddress } },
+        create: { chainId: this.chainId, tokenAddress, holderCount: change },
+        update: { holderCount: { increment: change } },
+      });
+    }
+  }
+
+  /**
+   * Returns 1 when the owner becomes a holder (positive balance), -1 when
+   * they stop being one, and 0 otherwise
+   */
+  private async adjustBalance(
+    tx: any,
+    tokenAddress: string,
+    owner: string,
+    amount: bigint
+  ): Promise<number> {
+    if (amount === 0n) {
+      return 0;
+    }
+
+    // Increment in place rather than read and write back: the live tail and
+    // backfill workers commit blocks moving the same holder concurrently. The
+    // upsert locks the row until commit, so the returned value is exact.
+    const key = { chainId_tokenAddress_owner: { chainId: this.chainId, tokenAddress, owner } };
+    const balance = await tx.balance.upsert({
+      where: key,
+      create: { chainId: this.chainId, tokenAddress, owner, value: amount.toString() },
+      update: { value: { increment: amount.toString() } },
+    });
+    const after = toBigInt(balance.value);
+    const before = after - amount;
+    if (before > 0n === after > 0n) {
+      return 0;
+    }
+    return after > 0n ? 1 : -1;
+  }
+
+  /**
+   * Save the Approval and move the allowance to it, unless the allowance already
+   * reflects a later Approval (backfill workers commit older blocks after newer ones)
+   */
+  private async saveApproval(
+    tx: any,
+    data: ApprovalData,
+    eventLogId: string
+  ): Promise<void> {
+    const row = {
+      chainId: this.chainId,
+      blockNumber: data.blockNumber,
+      blockTimestamp: data.blockTimestamp,
+      transactionHash: data.transactionHash,
+      logIndex: data.logIndex,
+      tokenAddress: data.tokenAddress.toLowerCase(),
+      owner: data.owner.toLowerCase(),
+      spender: data.spender.toLowerCase(),
+      value: data.value,
+      status: data.status ?? 'confirmed',
+      eventLogId,
+    };
+    await tx.approval.upsert({ where: naturalKey(row), create: row, update: row });
+    await this.setAllowance(tx, row);
+  }
+
+  private async setAllowance(
+    tx: any,
+    approval: {
+      tokenAddress: string;
+      owner: string;
+      spender: string;
+      value: string;
+      blockNumber: bigint;
+      logIndex: number;
+      transactionHash: string;
+    }
+  ): Promise<void> {
+    const key = {
+      chainId_tokenAddress_owner_spender: {
+        chainId: this.chainId,
+        tokenAddress: approval.tokenAddress,
+        owner: approval.owner,
+        spender: approval.spender,
       },
+    };
+
+    if (isAfter(await tx.allowance.findUnique({ where: key }), approval)) {
+      return;
+    }
+
+    const row = {
+      chainId: this.chainId,
+      tokenAddress: approval.tokenAddress,
+      owner: approval.owner,
+      spender: approval.spender,
+      value: approval.value,
+      blockNumber: approval.blockNumber,
+      logIndex: approval.logIndex,
+      transactionHash: approval.transactionHash,
+    };
+    await tx.allowance.upsert({ where: key, create: row, update: row });
+  }
+
+  private async saveNFTTransfer(tx: any, data: NFTTransferData, eventLogId: string): Promise<void> {
+    const row = {
+      chainId: this.chainId,
+      blockNumber: data.blockNumber,
+      blockTimestamp: data.blockTimestamp,
+      transactionHash: data.transactionHash,
+      logIndex: data.logIndex,
+      standard: data.standard,
+      tokenAddress: data.tokenAddress.toLowerCase(),
+      operator: data.operator?.toLowerCase() ?? null,
+      from: data.from.toLowerCase(),
+      to: data.to.toLowerCase(),
+      tokenIds: data.tokenIds,
+      amounts: data.amounts,
+      status: data.status ?? 'confirmed',
+      eventLogId,
+    };
+    await tx.nFTTransfer.upsert({ where: naturalKey(row), create: row, update: row });
+  }
+
+  /**
+   * Returns whether the swap is new; replays are not counted in candles or activity
+   */
+  private async saveSwap(tx: any, data: SwapData, eventLogId: string): Promise<boolean> {
+    const row = {
+      chainId: this.chainId,
+      blockNumber: data.blockNumber,
+      blockTimestamp: data.blockTimestamp,
+      transactionHash: data.transactionHash,
+      logIndex: data.logIndex,
+      poolAddress: data.poolAddress,
+      protocol: data.protocol,
+      fee: data.fee ?? null,
+      sender: data.sender,
+      recipient: data.recipient,
+      amount0In: data.amount0In,
+      amount1In: data.amount1In,
+      amount0Out: data.amount0Out,
+      amount1Out: data.amount1Out,
+      amount0: data.amount0 ?? null,
+      amount1: data.amount1 ?? null,
+      volume0: (BigInt(data.amount0In) + BigInt(data.amount0Out)).toString(),
+      volume1: (BigInt(data.amount1In) + BigInt(data.amount1Out)).toString(),
+      sqrtPriceX96: data.sqrtPriceX96 ?? null,
+      liquidity: data.liquidity ?? null,
+      tick: data.tick ?? null,
+      status: data.status ?? 'confirmed',
+      eventLogId,
+    };
+    const existing = await tx.swap.findUnique({ where: naturalKey(row), select: { id: true } });
+    await tx.swap.upsert({ where: naturalKey(row), create: row, update: row });
+    return !existing;
+  }
+
+  /**
+   * Move each pool's state and block snapshot to the block's last V3 swap in
+   * it; earlier swaps in the block would be overwritten anyway
+   */
+  private async updatePoolsFromSwaps(tx: any, swaps: SwapData[]): Promise<void> {
+    const latest = new Map<string, SwapData>();
+    for (const swap of swaps) {
+      const current = latest.get(swap.poolAddress);
+      if (swap.sqrtPriceX96 && !isAfter(current ?? null, swap)) {
+        latest.set(swap.poolAddress, swap);
+      }
+    }
+
+    for (const poolAddress of [...latest.keys()].sort()) {
+      const swap = latest.get(poolAddress)!;
+      await this.updatePool(tx, {
+        poolAddress,
+        blockNumber: swap.blockNumber,
+        blockTimestamp: swap.blockTimestamp,
+        logIndex: swap.logIndex,
+        reserve0: null,
+        reserve1: null,
+        sqrtPriceX96: swap.sqrtPriceX96!,
+        tick: swap.tick ?? null,
+        liquidity: swap.liquidity ?? null,
+      });
+    }
+  }
+
+  /**
+   * Add swaps to their candles for each of intervals. Swaps are netted per
+   * candle first, so a busy block writes each candle once, and candles are
+   * written in key order so concurrent blocks lock them in the same order.
+   * Open and close follow the swaps' positions rather than the order they
+   * arrive in.
+   */
+  private async addToCandles(
+    tx: any,
+    swaps: CandleSwap[],
+    intervals: CandleInterval[] = Object.keys(CANDLE_INTERVALS) as CandleInterval[]
+  ): Promise<void> {
+    const candles = new Map<string, CandleTally>();
+    for (const swap of swaps) {
+      const price = swapPrice(swap);
+      if (price === null) {
+        continue;
+      }
+      const poolAddress = swap.poolAddress.toLowerCase();
+      const volume0 = toBigInt(swap.amount0In) + toBigInt(swap.amount0Out);
+      const volume1 = toBigInt(swap.amount1In) + toBigInt(swap.amount1Out);
+      const position = { blockNumber: swap.blockNumber, logIndex: swap.logIndex, price };
+
+      for (const interval of intervals) {
+        const start = bucketStart(swap.blockTimestamp, interval);
+        const id = [poolAddress, intervals.indexOf(interval), start.getTime()].join(':');
+        const tally = candles.get(id);
+        if (!tally) {
+          candles.set(id, {
+            key: { chainId: this.chainId, poolAddress, interval, bucketStart: start },
+            open: position,
+            close: position,
+            high: price,
+            low: price,
+            volume0,
+            volume1,
+            swapCount: 1,
+          });
+          continue;
+        }
+        tally.high = Math.max(tally.high, price);
+        tally.low = Math.min(tally.low, price);
+        tally.volume0 += volume0;
+        tally.volume1 += volume1;
+        tally.swapCount++;
+        if (isAfter(tally.open, position)) {
+          tally.open = position;
+        }
+        if (!isAfter(tally.close, position)) {
+          tally.close = position;
+        }
+      }
+    }
+
+    for (const id of [...candles.keys()].sort()) {
+      const { key, open, close, high, low, volume0, volume1, swapCount } = candles.get(id)!;
+      const where = { chainId_poolAddress_interval_bucketStart: key };
+
+      // Volumes and the count are incremented in place since the live tail and
+      // backfill workers add swaps to the same candle concurrently. The upsert
+      // locks the row until commit, so the prices it returns are current.
+      const candle = await tx.candle.upsert({
+        where,
+        create: {
+          ...key,
+          open: open.price,
+          high,
+          low,
+          close: close.price,
+          volume0: volume0.toString(),
+          volume1: volume1.toString(),
+          swapCount,
+          openBlockNumber: open.blockNumber,
+          openLogIndex: open.logIndex,
+          closeBlockNumber: close.blockNumber,
+          closeLogIndex: close.logIndex,
+        },
+        update: {
+          volume0: { increment: volume0.toString() },
+          volume1: { increment: volume1.toString() },
+          swapCount: { increment: swapCount },
+        },
+      });
+      if (candle.swapCount === swapCount) {
+        continue;
+      }
+
+      const opensBefore = isAfter(
+        { blockNumber: candle.openBlockNumber, logIndex: candle.openLogIndex },
+        open
+      );
+      const closesBefore = !isAfter(
+        { blockNumber: candle.closeBlockNumber, logIndex: candle.closeLogIndex },
+        close
+      );
+      const data = {
+        ...(high > candle.high && { high }),
+        ...(low < candle.low && { low }),
+        ...(opensBefore && {
+          open: open.price,
+          openBlockNumber: open.blockNumber,
+          openLogIndex: open.logIndex,
+        }),
+        ...(closesBefore && {
+          close: close.price,
+          closeBlockNumber: close.blockNumber,
+          closeLogIndex: close.logIndex,
+        }),
+      };
+      if (Object.keys(data).length > 0) {
+        await tx.candle.update({ where, data });
+      }
+    }
+  }
+
+  private async saveLiquidityEvent(
+    tx: any,
+    data: LiquidityEventData,
+    eventLogId: string
+  ): Promise<void> {
+    const row = {
+      chainId: this.chainId,
+      blockNumber: data.blockNumber,
+      blockTimestamp: data.blockTimestamp,
+      transactionHash: data.transactionHash,
+      logIndex: data.logIndex,
+      poolAddress: data.poolAddress,
+      kind: data.kind,
+      sender: data.sender,
+      owner: data.owner,
+      recipient: data.recipient,
+      tickLower: data.tickLower,
+      tickUpper: data.tickUpper,
+      liquidity: data.liquidity,
+      amount0: data.amount0,
+      amount1: data.amount1,
+      status: data.status ?? 'confirmed',
+      eventLogId,
+    };
+    await tx.liquidityEvent.upsert({ where: naturalKey(row), create: row, update: row });
+
+    if (row.kind === 'sync') {
+      await this.updatePool(tx, {
+        ...row,
+        reserve0: row.amount0,
+        reserve1: row.amount1,
+        sqrtPriceX96: null,
+        tick: null,
+        liquidity: null,
+      });
+    }
+  }
+
+  /**
+   * Record a pool's state in its snapshot for the block and, unless a later
+   * event already moved it, as its current state
+   */
+  private async updatePool(tx: any, update: PoolUpdate): Promise<void> {
+    const state = {
+      reserve0: update.reserve0,
+      reserve1: update.reserve1,
+      sqrtPriceX96: update.sqrtPriceX96,
+      tick: update.tick,
+      liquidity: update.liquidity,
+      blockNumber: update.blockNumber,
+      logIndex: update.logIndex,
+    };
+
+    const snapshotKey = {
+      chainId_poolAddress_blockNumber: {
+        chainId: this.chainId,
+        poolAddress: update.poolAddress,
+        blockNumber: update.blockNumber,
+      },
+    };
+    if (!isAfter(await tx.poolSnapshot.findUnique({ where: snapshotKey }), update)) {
+      const snapshot = {
+        ...state,
+        chainId: this.chainId,
+        poolAddress: update.poolAddress,
+        blockTimestamp: update.blockTimestamp,
+      };
+      await tx.poolSnapshot.upsert({ where: snapshotKey, create: snapshot, update: snapshot });
+    }
+
+    const stateKey = {
+      chainId_poolAddress: { chainId: this.chainId, poolAddress: update.poolAddress },
+    };
+    if (!isAfter(await tx.poolState.findUnique({ where: stateKey }), update)) {
+      const current = { ...state, chainId: this.chainId, poolAddress: update.poolAddress };
+      await tx.poolState.upsert({ where: stateKey, create: current, update: current });
+    }
+  }
+
+  /**
+   * The factory event is authoritative, so it replaces a pool row read from
+   * the pool contract
+   */
+  private async savePoolCreated(tx: any, data: PoolCreatedData): Promise<void> {
+    const row = {
+      chainId: this.chainId,
+      address: data.poolAddress,
+      token0: data.token0,
+      token1: data.token1,
+      fee: data.fee,
+      tickSpacing: data.tickSpacing,
+      factoryAddress: data.factoryAddress,
+      blockNumber: data.blockNumber,
+      transactionHash: data.transactionHash,
+    };
+    await tx.pool.upsert({
+      where: { chainId_address: { chainId: this.chainId, address: row.address } },
+      create: row,
+      update: row,
+    });
+  }
+
+  /**
+   * Save a pool read from its contract. Keeps an existing row, which may come
+   * from the factory event.
+   */
+  async savePool(pool: {
+    address: string;
+    token0: string;
+    token1: string;
+    fee: number | null;
+    factoryAddress: string | null;
+  }): Promise<void> {
+    const row = { ...pool, chainId: this.chainId, address: pool.address.toLowerCase() };
+    await prisma.pool.upsert({
+      where: { chainId_address: { chainId: this.chainId, address: row.address } },
+      create: row,
+      update: {},
+    });
+  }
+
+  async saveToken(token: TokenMetadata): Promise<void> {
+    const row = { ...token, chainId: this.chainId, address: token.address.toLowerCase() };
+    await prisma.token.upsert({
+      where: { chainId_address: { chainId: this.chainId, address: row.address } },
+      create: row,
+      update: row,
+    });
+  }
+
+  private async saveGenericEvent(
+    tx: any,
+    data: GenericEventData,
+    eventLogId: string
+  ): Promise<void> {
+    const row = {
+      chainId: this.chainId,
+      blockNumber: data.blockNumber,
+      blockTimestamp: data.blockTimestamp,
+      transactionHash: data.transactionHash,
+      logIndex: data.logIndex,
+      address: data.address,
+      eventName: data.eventName,
+      signature: data.signature,
+      args: data.args ?? {},
+      status: data.status ?? 'confirmed',
+      eventLogId,
+    };
+    await tx.genericEvent.upsert({ where: naturalKey(row), create: row, update: row });
+  }
+
+  /**
+   * Delete everything indexed above forkBlock and rewind the checkpoint to it.
+   * Returns the typed events that were removed so subscribers can be notified.
+   */
+  async rollbackToBlock(forkBlock: bigint): Promise<DecodedEvent[]> {
+    const above = { chainId: this.chainId, blockNumber: { gt: forkBlock } };
+
+    const removed = await prisma.$transaction(async (tx) => {
+      const [transfers, approvals, nftTransfers, swaps, liquidity, generics] = await Promise.all([
+        tx.eRC20Transfer.findMany({ where: above, orderBy: { blockNumber: 'asc' } }),
+        tx.approval.findMany({ where: above, orderBy: { blockNumber: 'asc' } }),
+        tx.nFTTransfer.findMany({ where: above, orderBy: { blockNumber: 'asc' } }),
+        tx.swap.findMany({ where: above, orderBy: { blockNumber: 'asc' } }),
+        tx.liquidityEvent.findMany({ where: above, orderBy: { blockNumber: 'asc' } }),
+        tx.genericEvent.findMany({ where: above, orderBy: { blockNumber: 'asc' } }),
+      ]);
+
+      await tx.eRC20Transfer.deleteMany({ where: above });
+      await this.rollbackBalances(tx, forkBlock);
+      await tx.approval.deleteMany({ where: above });
+      await this.rollbackAllowances(tx, forkBlock);
+      await tx.nFTTransfer.deleteMany({ where: above });
+      await tx.swap.deleteMany({ where: above });
+      await this.rollbackCandles(tx, swaps);
+      await tx.liquidityEvent.deleteMany({ where: above });
+      await this.rollbackPools(tx, forkBlock);
+      // Pools read from their contract have no block and are kept
+      await tx.pool.deleteMany({ where: above });
+      await tx.genericEvent.deleteMany({ where: above });
+      const { count: removedLogs } = await tx.eventLog.deleteMany({ where: above });
+      await this.countActivity(
+        tx,
+        [...transfers.map(transferActivity), ...swaps.map(swapActivity)],
+        -1
+      );
+      await this.addToStats(tx, {
+        totalEvents: -removedLogs,
+        totalTransfers: -transfers.length,
+        totalSwaps: -swaps.length,
+      });
+      await tx.transaction.deleteMany({ where: above });
+      await tx.block.deleteMany({ where: { chainId: this.chainId, number: { gt: forkBlock } } });
+      await this.saveCheckpoint(tx, forkBlock);
+
+      return [
+        ...transfers.map((row): DecodedEvent => ({
+          type: 'erc20-transfer',
+          data: withStringAmounts(row),
+          removed: true,
+        })),
+        ...approvals.map((row): DecodedEvent => ({
+          type: 'approval',
+          data: withStringAmounts(row),
+          removed: true,
+        })),
+        ...nftTransfers.map((data): DecodedEvent => ({ type: 'nft-transfer', data, removed: true })),
+        ...swaps.map((row): DecodedEvent => ({ type: 'swap', data: withStringAmounts(row), removed: true })),
+        ...liquidity.map((row): DecodedEvent => ({
+          type: 'liquidity',
+          data: withStringAmounts(row),
+          removed: true,
+        })),
+        ...generics.map((data): DecodedEvent => ({
+          type: 'generic',
+          data: data as GenericEventData,
+          removed: true,
+        })),
+      ];
+    }, TRANSACTION_OPTIONS);
+
+    logger.warn(
+      { chainId: this.chainId, forkBlock, removedCount: removed.length },
+      'Rolled back blocks above fork point'
+    );
+    return removed;
+  }
+
+  /**
+   * Rebuild the candles that contained rolled back swaps from the swaps that
+   * survived. Those swaps must already be deleted.
+   */
+  private async rollbackCandles(tx: any, removed: CandleSwap[]): Promise<void> {
+    const buckets = new Map<string, { poolAddress: string; interval: CandleInterval; start: Date }>();
+    for (const swap of removed) {
+      for (const interval of Object.keys(CANDLE_INTERVALS) as CandleInterval[]) {
+        const poolAddress = swap.poolAddress.toLowerCase();
+        const start = bucketStart(swap.blockTimestamp, interval);
+        buckets.set(`${poolAddress}:${interval}:${start.getTime()}`, { poolAddress, interval, start });
+      }
+    }
+
+    for (const { poolAddress, interval, start } of buckets.values()) {
+      await tx.candle.deleteMany({
+        where: { chainId: this.chainId, poolAddress, interval, bucketStart: start },
+      });
+      const survivors = await tx.swap.findMany({
+        where: {
+          chainId: this.chainId,
+          poolAddress,
+          blockTimestamp: { gte: start, lt: new Date(start.getTime() + CANDLE_INTERVALS[interval]) },
+        },
+        orderBy: [{ blockNumber: 'asc' }, { logIndex: 'asc' }],
+      });
+      await this.addToCandles(tx, survivors, [interval]);
+    }
+  }
+
+  /**
+   * Drop balance changes above forkBlock and take them back out of balances
+   */
+  private async rollbackBalances(tx: any, forkBlock: bigint): Promise<void> {
+    const above = { chainId: this.chainId, blockNumber: { gt: forkBlock } };
+    const stale = await tx.balanceChange.findMany({ where: above });
+    if (stale.length === 0) {
+      return;
+    }
+
+    await tx.balanceChange.deleteMany({ where: above });
+    await this.adjustBalances(
+      tx,
+      stale.map((change: any) => ({
+        tokenAddress: change.tokenAddress,
+        owner: change.owner,
+        amount: -toBigInt(change.delta),
+      }))
+    );
+  }
+
+  /**
+   * Reset allowances last set above forkBlock to the latest Approval that
+   * survived the rollback, or drop them if none did. Approvals above the fork
+   * must already be deleted.
+   */
+  private async rollbackAllowances(tx: any, forkBlock: bigint): Promise<void> {
+    const stale = await tx.allowance.findMany({
+      where: { chainId: this.chainId, blockNumber: { gt: forkBlock } },
+    });
+    if (stale.length === 0) {
+      return;
+    }
+
+    await tx.allowance.deleteMany({
+      where: { chainId: this.chainId, blockNumber: { gt: forkBlock } },
+    });
+    for (const allowance of stale) {
+      const previous = await tx.approval.findFirst({
+        where: {
+          chainId: this.chainId,
+          tokenAddress: allowance.tokenAddress,
+          owner: allowance.owner,
+          spender: allowance.spender,
+        },
+        orderBy: [{ blockNumber: 'desc' }, { logIndex: 'desc' }],
+      });
+      if (previous) {
+        await this.setAllowance(tx, previous);
+      }
+    }
+  }
+
+  /**
+   * Drop pool snapshots above forkBlock and reset pools whose current state
+   * came from above it to their latest surviving snapshot
+   */
+  private async rollbackPools(tx: any, forkBlock: bigint): Promise<void> {
+    const above = { chainId: this.chainId, blockNumber: { gt: forkBlock } };
+    await tx.poolSnapshot.deleteMany({ where: above });
+
+    const stale = await tx.poolState.findMany({ where: above });
+    if (stale.length === 0) {
+      return;
+    }
+
+    await tx.poolState.deleteMany({ where: above });
+    for (const pool of stale) {
+      const previous = await tx.poolSnapshot.findFirst({
+        where: { chainId: this.chainId, poolAddress: pool.poolAddress },
+        orderBy: { blockNumber: 'desc' },
+      });
+      if (previous) {
+        const { blockTimestamp: _, ...state } = previous;
+        await tx.poolState.create({ data: state });
+      }
+    }
+  }
+
+  /**
+   * Promote pending events at or below upToBlock to confirmed.
+   * Returns the promoted events so subscribers can be notified.
+   */
+  async confirmEvents(upToBlock: bigint): Promise<DecodedEvent[]> {
+    const where = {
+      chainId: this.chainId,
+      status: 'pending' as const,
+      blockNumber: { lte: upToBlock },
+    };
+
+    return prisma.$transaction(async (tx) => {
+      const [transfers, approvals, nftTransfers, swaps, liquidity, generics] = await Promise.all([
+        tx.eRC20Transfer.findMany({ where, orderBy: { blockNumber: 'asc' } }),
+        tx.approval.findMany({ where, orderBy: { blockNumber: 'asc' } }),
+        tx.nFTTransfer.findMany({ where, orderBy: { blockNumber: 'asc' } }),
+        tx.swap.findMany({ where, orderBy: { blockNumber: 'asc' } }),
+        tx.liquidityEvent.findMany({ where, orderBy: { blockNumber: 'asc' } }),
+        tx.genericEvent.findMany({ where, orderBy: { blockNumber: 'asc' } }),
+      ]);
+
+      if (
+        transfers.length === 0 &&
+        approvals.length === 0 &&
+        nftTransfers.length === 0 &&
+        swaps.length === 0 &&
+        liquidity.length === 0 &&
+        generics.length === 0
+      ) {
+        return [];
+      }
+
+      await tx.eRC20Transfer.updateMany({ where, data: { status: 'confirmed' } });
+      await tx.approval.updateMany({ where, data: { status: 'confirmed' } });
+      await tx.nFTTransfer.updateMany({ where, data: { status: 'confirmed' } });
+      await tx.swap.updateMany({ where, data: { status: 'confirmed' } });
+      await tx.liquidityEvent.updateMany({ where, data: { status: 'confirmed' } });
+      await tx.genericEvent.updateMany({ where, data: { status: 'confirmed' } });
+
+      return [
+        ...transfers.map((row): DecodedEvent => ({
+          type: 'erc20-transfer',
+          data: { ...withStringAmounts(row), status: 'confirmed' },
+        })),
+        ...approvals.map((row): DecodedEvent => ({
+          type: 'approval',
+          data: { ...withStringAmounts(row), status: 'confirmed' },
+        })),
+        ...nftTransfers.map((row): DecodedEvent => ({
+          type: 'nft-transfer',
+          data: { ...row, status: 'confirmed' },
+        })),
+        ...swaps.map((row): DecodedEvent => ({
+          type: 'swap',
+          data: { ...withStringAmounts(row), status: 'confirmed' },
+        })),
+        ...liquidity.map((row): DecodedEvent => ({
+          type: 'liquidity',
+          data: { ...withStringAmounts(row), status: 'confirmed' },
+        })),
+        ...generics.map((row): DecodedEvent => ({
+          type: 'generic',
+          data: { ...(row as GenericEventData), status: 'confirmed' },
+        })),
+      ];
+    });
+  }
+
+  /**
+   * Get the highest indexed block header below blockNumber
+   */
+  async getBlockBefore(blockNumber: bigint): Promise<BlockHeader | null> {
+    return prisma.block.findFirst({
+      where: { chainId: this.chainId, number: { lt: blockNumber } },
+      orderBy: { number: 'desc' },
+    });
+  }
+
+  /**
+   * Get indexed block headers at or below blockNumber, newest first
+   */
+  async getBlocksDescending(blockNumber: bigint, limit: number): Promise<BlockHeader[]> {
+    return prisma.block.findMany({
+      where: { chainId: this.chainId, number: { lte: blockNumber } },
+      orderBy: { number: 'desc' },
+      take: limit,
+    });
+  }
+
+  private async saveCheckpoint(tx: any, blockNumber: bigint): Promise<void> {
+    await tx.indexerCheckpoint.upsert({
+      where: { chainId: this.chainId },
+      create: { chainId: this.chainId, blockNumber },
+      update: { blockNumber },
     });
   }
 
-  async getRecentTransfers(limit: number = 10): Promise<any[]> {
+  /**
+   * Advance the checkpoint past blocks that had no logs to save
+   */
+  async updateCheckpoint(blockNumber: bigint): Promise<void> {
+    await this.saveCheckpoint(prisma, blockNumber);
+  }
+
+  /**
+   * Get the last fully committed block, or null if nothing has been indexed yet
+   */
+  async getCheckpoint(): Promise<bigint | null> {
+    const checkpoint = await prisma.indexerCheckpoint.findUnique({
+      where: { chainId: this.chainId },
+    });
+    return checkpoint?.blockNumber ?? null;
+  }
+
+  /**
+   * Persist backfill shards and move the live checkpoint to the end of the
+   * backfilled range, so the live tail starts at head while workers catch up.
+   */
+  async createBackfillShards(
+    ranges: Array<{ fromBlock: bigint; toBlock: bigint }>,
+    liveCheckpoint: bigint
+  ): Promise<void> {
+    await prisma.$transaction(async (tx) => {
+      await tx.backfillShard.createMany({
+        data: ranges.map((range) => ({
+          ...range,
+          chainId: this.chainId,
+          nextBlock: range.fromBlock,
+        })),
+      });
+      await this.saveCheckpoint(tx, liveCheckpoint);
+    });
+  }
+
+  async getIncompleteBackfillShards(): Promise<BackfillShard[]> {
+    return prisma.backfillShard.findMany({
+      where: { chainId: this.chainId, status: { not: 'complete' } },
+      orderBy: { fromBlock: 'asc' },
+    });
+  }
+
+  /**
+   * Record that every block before nextBlock in the shard is committed
+   */
+  async updateBackfillShard(
+    shard: { id: string; toBlock: bigint },
+    nextBlock: bigint
+  ): Promise<void> {
+    await prisma.backfillShard.update({
+      where: { id: shard.id },
+      data: { nextBlock, status: nextBlock > shard.toBlock ? 'complete' : 'running' },
+    });
+  }
+
+  async getBackfillShards(): Promise<any[]> {
+    const rows = await prisma.backfillShard.findMany({
+      where: { chainId: this.chainId },
+      orderBy: { fromBlock: 'asc' },
+    });
+    return rows.map(serialize);
+  }
+
+  async getRecentTransfers(limit: number = 10, query: TransferQuery = {}): Promise<any[]> {
     const rows = await prisma.eRC20Transfer.findMany({
+      where: { chainId: this.chainId, ...amountWhere('value', query.value) },
+      take: limit,
+      orderBy: TRANSFER_ORDER[query.orderBy ?? 'newest'],
+    });
+    return rows.map(serialize);
+  }
+
+  /**
+   * Get ERC-20 Approval events, newest first
+   */
+  async getApprovals(
+    filter: { owner?: string; tokenAddress?: string; spender?: string } = {},
+    limit: number = 10
+  ): Promise<any[]> {
+    const rows = await prisma.approval.findMany({
+      where: {
+        chainId: this.chainId,
+        owner: filter.owner?.toLowerCase(),
+        tokenAddress: filter.tokenAddress?.toLowerCase(),
+        spender: filter.spender?.toLowerCase(),
+      },
+      take: limit,
+      orderBy: { blockNumber: 'desc' },
+    });
+    return rows.map(serialize);
+  }
+
+  /**
+   * Get an owner's outstanding (non-zero) allowances. `unlimited` flags
+   * max-uint256 approvals, which never decrease as tokens are spent.
+   */
+  async getAllowances(
+    owner: string,
+    filter: { tokenAddress?: string; spender?: string } = {},
+    limit: number = 50
+  ): Promise<any[]> {
+    const rows = await prisma.allowance.findMany({
+      where: {
+        chainId: this.chainId,
+        owner: owner.toLowerCase(),
+        tokenAddress: filter.tokenAddress?.toLowerCase(),
+        spender: filter.spender?.toLowerCase(),
+        value: { not: '0' },
+      },
+      take: limit,
+      orderBy: { blockNumber: 'desc' },
+    });
+    return rows.map((row) => ({
+      ...serialize(row),
+      unlimited: toBigInt(row.value) === maxUint256,
+    }));
+  }
+
+  /**
+   * Get an owner's non-zero token balances, most recently changed first
+   */
+  async getBalances(owner: string, limit: number = 50): Promise<any[]> {
+    const rows = await prisma.balance.findMany({
+      where: { chainId: this.chainId, owner: owner.toLowerCase(), value: { not: '0' } },
+      take: limit,
+      orderBy: { updatedAt: 'desc' },
+    });
+    return rows.map(serialize);
+  }
+
+  /**
+   * Get a token's largest holders, largest balance first
+   */
+  async getTopHolders(tokenAddress: string, limit: number = 10): Promise<any[]> {
+    const rows = await prisma.balance.findMany({
+      where: { chainId: this.chainId, tokenAddress: tokenAddress.toLowerCase(), value: { gt: 0 } },
+      take: limit,
+      orderBy: { value: 'desc' },
+    });
+    return rows.map(serialize);
+  }
+
+  /**
+   * Get the number of owners with a positive balance of a token
+   */
+  async getHolderCount(tokenAddress: string): Promise<number> {
+    const stats = await prisma.tokenStats.findUnique({
+      where: {
+        chainId_tokenAddress: { chainId: this.chainId, tokenAddress: tokenAddress.toLowerCase() },
+      },
+    });
+    return stats?.holderCount ?? 0;
+  }
+
+  /**
+   * Get an owner's balance of a token, or its balance at the end of
+   * blockNumber: the current balance less every change after that block
+   */
+  async getBalance(tokenAddress: string, owner: string, blockNumber?: bigint): Promise<any> {
+    const key = {
+      chainId: this.chainId,
+      tokenAddress: tokenAddress.toLowerCase(),
+      owner: owner.toLowerCase(),
+    };
+    const current = await prisma.balance.findUnique({ where: { chainId_tokenAddress_owner: key } });
+
+    let value = toBigInt(current?.value ?? 0);
+    if (blockNumber !== undefined) {
+      const later = await prisma.balanceChange.findMany({
+        where: { ...key, blockNumber: { gt: blockNumber } },
+        select: { delta: true },
+      });
+      for (const change of later) {
+        value -= toBigInt(change.delta);
+      }
+    }
+
+    return { ...key, value: value.toString(), blockNumber: blockNumber?.toString() ?? null };
+  }
+
+  /**
+   * Get an owner's balance changes, newest first, each with the balance it
+   * left behind
+   */
+  async getBalanceHistory(
+    owner: string,
+    filter: { tokenAddress?: string } = {},
+    limit: number = 50
+  ): Promise<any[]> {
+    const rows = await prisma.balanceChange.findMany({
+      where: {
+        chainId: this.chainId,
+        owner: owner.toLowerCase(),
+        tokenAddress: filter.tokenAddress?.toLowerCase(),
+      },
+      take: limit,
+      orderBy: { blockNumber: 'desc' },
+    });
+
+    // Walk back from each token's current balance
+    const balances = new Map<string, bigint>();
+    const current = await prisma.balance.findMany({
+      where: {
+        chainId: this.chainId,
+        owner: owner.toLowerCase(),
+        tokenAddress: { in: [...new Set(rows.map((row) => row.tokenAddress))] },
+      },
+    });
+    for (const balance of current) {
+      balances.set(balance.tokenAddress, toBigInt(balance.value));
+    }
+
+    return rows.map((row) => {
+      const balance = balances.get(row.tokenAddress) ?? 0n;
+      balances.set(row.tokenAddress, balance - toBigInt(row.delta));
+      return { ...serialize(row), balance: balance.toString() };
+    });
+  }
+
+  /**
+   * Get ERC-721/ERC-1155 transfers, optionally for one collection, one token id
+   * or transfers to or from an owner
+   */
+  async getNFTTransfers(
+    filter: { tokenAddress?: string; tokenId?: string; owner?: string } = {},
+    limit: number = 10
+  ): Promise<any[]> {
+    const owner = filter.owner?.toLowerCase();
+    const rows = await prisma.nFTTransfer.findMany({
+      where: {
+        chainId: this.chainId,
+        tokenAddress: filter.tokenAddress?.toLowerCase(),
+        ...(filter.tokenId && { tokenIds: { has: filter.tokenId } }),
+        ...(owner && { OR: [{ from: owner }, { to: owner }] }),
+      },
       take: limit,
       orderBy: { blockNumber: 'desc' },
     });
     return rows.map(serialize);
   }
 
-  async getRecentSwaps(limit: number = 10): Promise<any[]> {
+  async getRecentSwaps(limit: number = 10, protocol?: string, query: SwapQuery = {}): Promise<any[]> {
     const rows = await prisma.swap.findMany({
+      where: {
+        chainId: this.chainId,
+        protocol,
+        ...amountWhere('volume0', query.volume0),
+        ...amountWhere('volume1', query.volume1),
+      },
+      take: limit,
+      orderBy: SWAP_ORDER[query.orderBy ?? 'newest'],
+    });
+    return rows.map(serialize);
+  }
+
+  /**
+   * Get V2 Mint/Burn/Sync and V3 Mint/Burn/Collect events
+   */
+  async getLiquidityEvents(
+    filter: { poolAddress?: string; kind?: LiquidityEventData['kind'] } = {},
+    limit: number = 10
+  ): Promise<any[]> {
+    const rows = await prisma.liquidityEvent.findMany({
+      where: {
+        chainId: this.chainId,
+        poolAddress: filter.poolAddress?.toLowerCase(),
+        kind: filter.kind,
+      },
+      take: limit,
+      orderBy: { blockNumber: 'desc' },
+    });
+    return rows.map(serialize);
+  }
+
+  /**
+   * Get a pool's candles for interval, oldest first, optionally those
+   * starting within [from, to]
+   */
+  async getCandles(
+    poolAddress: string,
+    interval: CandleInterval,
+    range: { from?: Date; to?: Date } = {},
+    limit: number = 500
+  ): Promise<any[]> {
+    const rows = await prisma.candle.findMany({
+      where: {
+        chainId: this.chainId,
+        poolAddress: poolAddress.toLowerCase(),
+        interval,
+        bucketStart: { gte: range.from, lte: range.to },
+      },
+      take: limit,
+      orderBy: { bucketStart: 'asc' },
+    });
+    return rows.map(serialize);
+  }
+
+  /**
+   * Get a token's or pool's hourly or daily activity, oldest first, optionally
+   * the buckets starting within [from, to]
+   */
+  async getTimeSeries(
+    subject: ActivitySubject,
+    address: string,
+    interval: ActivityInterval,
+    range: { from?: Date; to?: Date } = {},
+    limit: number = 500
+  ): Promise<any[]> {
+    const rows = await prisma.activityBucket.findMany({
+      where: {
+        chainId: this.chainId,
+        subject,
+        address: address.toLowerCase(),
+        interval,
+        bucketStart: { gte: range.from, lte: range.to },
+      },
+      take: limit,
+      orderBy: { bucketStart: 'asc' },
+    });
+    return rows.map(serialize);
+  }
+
+  /**
+   * Get a pool's current state, or its state at the end of blockNumber
+   */
+  async getPoolState(address: string, blockNumber?: bigint): Promise<any | null> {
+    const poolAddress = address.toLowerCase();
+    const row =
+      blockNumber === undefined
+        ? await prisma.poolState.findUnique({
+            where: { chainId_poolAddress: { chainId: this.chainId, poolAddress } },
+          })
+        : await prisma.poolSnapshot.findFirst({
+            where: { chainId: this.chainId, poolAddress, blockNumber: { lte: blockNumber } },
+            orderBy: { blockNumber: 'desc' },
+          });
+
+    return row ? { ...serialize(row), price: poolPrice(row) } : null;
+  }
+
+  /**
+   * Get a pool and its tokens, or null if it hasn't been discovered
+   */
+  async getPool(address: string): Promise<any | null> {
+    const row = await prisma.pool.findUnique({
+      where: { chainId_address: { chainId: this.chainId, address: address.toLowerCase() } },
+    });
+    return row ? serialize(row) : null;
+  }
+
+  /**
+   * Get the raw log an event was decoded from, by its eventLogId or, for events
+   * that don't carry one (e.g. subscription payloads), by its position
+   */
+  async getEventLog(event: {
+    eventLogId?: string | null;
+    transactionHash: string;
+    logIndex: number;
+  }): Promise<any | null> {
+    const row = await prisma.eventLog.findUnique({
+      where: event.eventLogId
+        ? { id: event.eventLogId }
+        : naturalKey({ ...event, chainId: this.chainId }),
+    });
+    return row ? serialize(row) : null;
+  }
+
+  /**
+   * Get a stored transaction, or null if it hasn't been indexed
+   */
+  async getTransaction(hash: string): Promise<any | null> {
+    const row = await prisma.transaction.findUnique({
+      where: { chainId_hash: { chainId: this.chainId, hash: hash.toLowerCase() } },
+    });
+    return row ? serialize(row) : null;
+  }
+
+  /**
+   * Get the stored transactions among hashes
+   */
+  async getTransactions(hashes: string[]): Promise<TransactionData[]> {
+    return prisma.transaction.findMany({
+      where: { chainId: this.chainId, hash: { in: hashes } },
+      select: {
+        chainId: true,
+        hash: true,
+        blockNumber: true,
+        from: true,
+        to: true,
+        selector: true,
+        gasUsed: true,
+        effectiveGasPrice: true,
+        status: true,
+      },
+    });
+  }
+
+  /**
+   * Get stored token metadata, or null if the token hasn't been read yet
+   */
+  async getToken(address: string): Promise<TokenMetadata | null> {
+    return prisma.token.findUnique({
+      where: { chainId_address: { chainId: this.chainId, address: address.toLowerCase() } },
+      select: { chainId: true, address: true, name: true, symbol: true, decimals: true },
+    });
+  }
+
+  /**
+   * Get discovered pools, newest first, optionally those trading token
+   */
+  async getPools(filter: { token?: string } = {}, limit: number = 10): Promise<any[]> {
+    const token = filter.token?.toLowerCase();
+    const rows = await prisma.pool.findMany({
+      where: {
+        chainId: this.chainId,
+        ...(token && { OR: [{ token0: token }, { token1: token }] }),
+      },
+      take: limit,
+      orderBy: { createdAt: 'desc' },
+    });
+    return rows.map(serialize);
+  }
+
+  /**
+   * Get events decoded with registry ABIs. `args` matches events whose
+   * arguments include every given key/value pair.
+   */
+  async getGenericEvents(
+    filter: { eventName?: string; address?: string; args?: Record<string, unknown> } = {},
+    limit: number = 10
+  ): Promise<any[]> {
+    const rows = await prisma.genericEvent.findMany({
+      where: {
+        chainId: this.chainId,
+        eventName: filter.eventName,
+        address: filter.address,
+        AND: Object.entries(filter.args ?? {}).map(([key, value]) => ({
+          args: { path: [key], equals: value as Prisma.InputJsonValue },
+        })),
+      },
       take: limit,
       orderBy: { blockNumber: 'desc' },
     });
@@ -131,14 +1940,22 @@ export class EventStorage {
   }
 
   async getRecentEvents(limit: number = 10): Promise<any[]> {
-    const [transfers, swaps] = await Promise.all([
+    const [transfers, approvals, nftTransfers, swaps, liquidity, generics] = await Promise.all([
       this.getRecentTransfers(limit),
+      this.getApprovals({}, limit),
+      this.getNFTTransfers({}, limit),
       this.getRecentSwaps(limit),
+      this.getLiquidityEvents({}, limit),
+      this.getGenericEvents({}, limit),
     ]);
 
     const allEvents = [
       ...transfers.map((t) => ({ ...t, __typename: 'ERC20Transfer' })),
+      ...approvals.map((a) => ({ ...a, __typename: 'Approval' })),
+      ...nftTransfers.map((n) => ({ ...n, __typename: 'NFTTransfer' })),
       ...swaps.map((s) => ({ ...s, __typename: 'Swap' })),
+      ...liquidity.map((l) => ({ ...l, __typename: 'LiquidityEvent' })),
+      ...generics.map((g) => ({ ...g, __typename: 'GenericEvent' })),
     ];
 
     return allEvents
@@ -146,43 +1963,62 @@ export class EventStorage {
       .slice(0, limit);
   }
 
-  async getTransfersByAddress(address: string, limit: number = 50): Promise<any[]> {
+  async getTransfersByAddress(
+    address: string,
+    limit: number = 50,
+    query: TransferQuery = {}
+  ): Promise<any[]> {
     const rows = await prisma.eRC20Transfer.findMany({
       where: {
+        chainId: this.chainId,
         OR: [{ from: address }, { to: address }],
+        ...amountWhere('value', query.value),
       },
       take: limit,
-      orderBy: { blockNumber: 'desc' },
+      orderBy: TRANSFER_ORDER[query.orderBy ?? 'newest'],
     });
     return rows.map(serialize);
   }
 
-  async getSwapsByPool(poolAddress: string, limit: number = 50): Promise<any[]> {
+  async getSwapsByPool(
+    poolAddress: string,
+    limit: number = 50,
+    protocol?: string,
+    query: SwapQuery = {}
+  ): Promise<any[]> {
     const rows = await prisma.swap.findMany({
-      where: { poolAddress },
+      where: {
+        chainId: this.chainId,
+        poolAddress,
+        protocol,
+        ...amountWhere('volume0', query.volume0),
+        ...amountWhere('volume1', query.volume1),
+      },
       take: limit,
-      orderBy: { blockNumber: 'desc' },
+      orderBy: SWAP_ORDER[query.orderBy ?? 'newest'],
     });
     return rows.map(serialize);
   }
 
+  /**
+   * Lifetime totals from the chain_stats counters, and the newest indexed block
+   */
   async getStats(): Promise<{
     totalEvents: bigint;
     totalTransfers: bigint;
     totalSwaps: bigint;
     latestBlock: bigint;
   }> {
-    const [events, transfers, swaps, latestLog] = await Promise.all([
-      prisma.eventLog.count(),
-      prisma.eRC20Transfer.count(),
-      prisma.swap.count(),
-      prisma.eventLog.findFirst({ orderBy: { blockNumber: 'desc' } }),
+    const where = { chainId: this.chainId };
+    const [stats, latestLog] = await Promise.all([
+      prisma.chainStats.findUnique({ where }),
+      prisma.eventLog.findFirst({ where, orderBy: { blockNumber: 'desc' }, select: { blockNumber: true } }),
     ]);
 
     return {
-      totalEvents: BigInt(events),
-      totalTransfers: BigInt(transfers),
-      totalSwaps: BigInt(swaps),
+      totalEvents: stats?.totalEvents ?? 0n,
+      totalTransfers: stats?.totalTransfers ?? 0n,
+      totalSwaps: stats?.totalSwaps ?? 0n,
       latestBlock: latestLog?.blockNumber || 0n,
     };
   }
@@ -0,0 +1,133 @@
+import {
+  BaseError,
+  ExecutionRevertedError,
+  decodeAbiParameters,
+  hexToNumber,
+  hexToString,
+  size,
+  toFunctionSelector,
+  type Address,
+  type Hex,
+  type PublicClient,
+} from 'viem';
+import { LRUCache } from '../lib/lru-cache.js';
+import { logger } from '../lib/logger.js';
+import type { EventStorage } from './storage.js';
+
+/** ERC-20 metadata; fields are null when the token doesn't implement the getter */
+export interface TokenMetadata {
+  chainId: number;
+  address: string;
+  name: string | null;
+  symbol: string | null;
+  decimals: number | null;
+}
+
+const NAME = toFunctionSelector('name()');
+const SYMBOL = toFunctionSelector('symbol()');
+const DECIMALS = toFunctionSelector('decimals()');
+
+/**
+ * Decode a name() or symbol() result. Most tokens return a string; some older
+ * ones (e.g. MKR) return a NUL-padded bytes32.
+ */
+function decodeText(data: Hex | null): string | null {
+  if (!data) {
+    return null;
+  }
+  try {
+    if (size(data) === 32) {
+      return hexToString(data, { size: 32 }).replace(/\0+$/, '') || null;
+    }
+    return decodeAbiParameters([{ type: 'string' }], data)[0] || null;
+  } catch {
+    return null;
+  }
+}
+
+function decodeDecimals(data: Hex | null): number | null {
+  if (!data || size(data) !== 32) {
+    return null;
+  }
+  const decimals = hexToNumber(data);
+  // Anything larger is garbage from a contract that isn't an ERC-20
+  return decimals <= 255 ? decimals : null;
+}
+
+/**
+ * Token metadata read lazily with eth_call the first time a token is asked
+ * for, then served from the tokens table and an in-memory cache.
+ */
+export class TokenRegistry {
+  /** Address -> metadata, cached as promises so concurrent lookups share one read */
+  private cache: LRUCache<string, Promise<TokenMetadata>>;
+
+  constructor(
+    private client: PublicClient,
+    private storage: EventStorage,
+    cacheSize: number = 10000
+  ) {
+    this.cache = new LRUCache(cacheSize);
+  }
+
+  /**
+   * Get a token's metadata. When the chain can't be reached the fields are null
+   * and the token is read again on the next call.
+   */
+  async getToken(address: string): Promise<TokenMetadata> {
+    const key = address.toLowerCase();
+    let token = this.cache.get(key);
+    if (!token) {
+      token = this.load(key);
+      this.cache.set(key, token);
+    }
+
+    try {
+      return await token;
+    } catch (error) {
+      this.cache.deleteWhere((cached) => cached === key);
+      logger.warn({ error, chainId: this.storage.chainId, address: key }, 'Failed to read token metadata');
+      return { chainId: this.storage.chainId, address: key, name: null, symbol: null, decimals: null };
+    }
+  }
+
+  private async load(address: string): Promise<TokenMetadata> {
+    const stored = await this.storage.getToken(address);
+    if (stored) {
+      return stored;
+    }
+
+    const [name, symbol, decimals] = await Promise.all([
+      this.call(address, NAME),
+      this.call(address, SYMBOL),
+      this.call(address, DECIMALS),
+    ]);
+    const token = {
+      chainId: this.storage.chainId,
+      address,
+      name: decodeText(name),
+      symbol: decodeText(symbol),
+      decimals: decodeDecimals(decimals),
+    };
+
+    await this.storage.saveToken(token);
+    logger.debug({ ...token }, 'Resolved token metadata');
+    return token;
+  }
+
+  /**
+   * Call a getter, returning null when the contract reverts or has no such
+   * function. RPC failures are thrown so nothing is saved.
+   */
+  private async call(address: string, data: Hex): Promise<Hex | null> {
+    try {
+      const result = await this.client.call({ to: address as Address, data });
+      return result.data ?? null;
+    } catch (error) {
+      if (error instanceof BaseError && error.walk((cause) => cause instanceof ExecutionRevertedError)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,90 @@
+import { size, slice, type Hash, type PublicClient } from 'viem';
+import { LRUCache } from '../lib/lru-cache.js';
+import { logger } from '../lib/logger.js';
+import type { EventStorage } from './storage.js';
+import type { DecodedEvent, TransactionData } from '../types/events.js';
+
+/** Hash of the transaction that emitted an event's log */
+function transactionHash(event: DecodedEvent): string | null | undefined {
+  return event.type === 'unknown' ? event.log.transactionHash : event.data.transactionHash;
+}
+
+/**
+ * Transaction and receipt data for the transactions behind indexed logs, read
+ * from an in-memory cache, then the transactions table, then the chain.
+ */
+export class TransactionRegistry {
+  private cache: LRUCache<string, TransactionData>;
+
+  constructor(
+    private client: PublicClient,
+    private storage: EventStorage,
+    cacheSize: number = 10000
+  ) {
+    this.cache = new LRUCache(cacheSize);
+  }
+
+  /**
+   * Get the transactions that emitted a block's events. Transactions not seen
+   * before are requested concurrently, so the transport sends them as JSON-RPC
+   * batches. RPC failures are thrown so the block is retried.
+   */
+  async getTransactions(events: DecodedEvent[]): Promise<TransactionData[]> {
+    const transactions = new Map<string, TransactionData | undefined>();
+    for (const event of events) {
+      const hash = transactionHash(event)?.toLowerCase();
+      if (hash) {
+        transactions.set(hash, this.cache.get(hash));
+      }
+    }
+
+    const unseen = [...transactions.keys()].filter((hash) => !transactions.get(hash));
+    if (unseen.length > 0) {
+      const stored = await this.storage.getTransactions(unseen);
+      const storedHashes = new Set(stored.map((transaction) => transaction.hash));
+      const fetched = await Promise.all(
+        unseen.filter((hash) => !storedHashes.has(hash)).map((hash) => this.fetch(hash))
+      );
+
+      for (const transaction of [...stored, ...fetched]) {
+        this.cache.set(transaction.hash, transaction);
+        transactions.set(transaction.hash, transaction);
+      }
+
+      if (fetched.length > 0) {
+        logger.debug(
+          { chainId: this.storage.chainId, requested: transactions.size, fetched: fetched.length },
+          'Fetched transactions'
+        );
+      }
+    }
+
+    return [...transactions.values()] as TransactionData[];
+  }
+
+  /**
+   * Forget cached transactions, e.g. after a reorg removed the blocks that held them
+   */
+  reset(): void {
+    this.cache.deleteWhere(() => true);
+  }
+
+  private async fetch(hash: string): Promise<TransactionData> {
+    const [transaction, receipt] = await Promise.all([
+      this.client.getTransaction({ hash: hash as Hash }),
+      this.client.getTransactionReceipt({ hash: hash as Hash }),
+    ]);
+
+    return {
+      chainId: this.storage.chainId,
+      hash,
+      blockNumber: receipt.blockNumber,
+      from: transaction.from.toLowerCase(),
+      to: transaction.to?.toLowerCase() ?? null,
+      selector: size(transaction.input) >= 4 ? slice(transaction.input, 0, 4) : null,
+      gasUsed: receipt.gasUsed.toString(),
+      effectiveGasPrice: receipt.effectiveGasPrice.toString(),
+      status: receipt.status,
+    };
+  }
+}
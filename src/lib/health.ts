@@ -1,13 +1,8 @@
-import type { HealthStatus } from '../types/events.js';
+import type { HealthStatus, IndexerState } from '../types/events.js';
 import { prisma } from './prisma.js';
 
 export async function getHealthStatus(
-  indexerState: {
-    lastBlockNumber: bigint;
-    isIndexing: boolean;
-    lastError?: string;
-    errorCount: number;
-  },
+  indexerState: IndexerState,
   chainConnected: boolean
 ): Promise<HealthStatus> {
   const databaseConnected = await testDatabaseConnection();
@@ -16,7 +11,7 @@ export async function getHealthStatus(
 
   if (!databaseConnected || !chainConnected) {
     status = 'unhealthy';
-  } else if (indexerState.errorCount > 5) {
+  } else if (indexerState.errorCount > 5 || indexerState.failingBackfillShards > 0) {
     status = 'degraded';
   }
 
@@ -1,11 +1,45 @@
 import type { Log } from 'viem';
 
+/** `removed` is set when an event is rolled back by a chain reorganization */
 export type DecodedEvent =
-  | { type: 'erc20-transfer'; data: ERC20TransferData }
-  | { type: 'swap'; data: SwapData }
-  | { type: 'unknown'; log: Log };
+  | { type: 'erc20-transfer'; data: ERC20TransferData; removed?: boolean }
+  | { type: 'approval'; data: ApprovalData; removed?: boolean }
+  | { type: 'nft-transfer'; data: NFTTransferData; removed?: boolean }
+  | { type: 'swap'; data: SwapData; removed?: boolean }
+  | { type: 'liquidity'; data: LiquidityEventData; removed?: boolean }
+  | { type: 'pool-created'; data: PoolCreatedData; removed?: boolean }
+  | { type: 'generic'; data: GenericEventData; removed?: boolean }
+  | { type: 'unknown'; log: Log; removed?: boolean };
 
-export interface ERC20TransferData {
+export interface BlockHeader {
+  number: bigint;
+  hash: string;
+  parentHash: string;
+  timestamp: Date;
+}
+
+/** Events above the confirmed head are stored as pending until promoted */
+export type EventStatus = 'pending' | 'confirmed';
+
+export type BlockFinality = 'latest' | 'safe' | 'finalized';
+
+/**
+ * eth_getLogs filter: logs emitted by any of `addresses` whose topic0 is any of
+ * `topics`. An omitted list matches everything.
+ */
+export interface LogFilter {
+  addresses?: string[];
+  topics?: string[];
+}
+
+/** Raw topics and data of the log an event was decoded from, present on freshly decoded events */
+export interface RawLog {
+  topics?: string[];
+  data?: string;
+}
+
+export interface ERC20TransferData extends RawLog {
+  chainId?: number;
   from: string;
   to: string;
   value: string;
@@ -14,27 +48,172 @@ export interface ERC20TransferData {
   logIndex: number;
   blockNumber: bigint;
   blockTimestamp: Date;
+  status?: EventStatus;
+}
+
+export interface ApprovalData extends RawLog {
+  chainId?: number;
+  tokenAddress: string;
+  owner: string;
+  spender: string;
+  value: string;
+  transactionHash: string;
+  logIndex: number;
+  blockNumber: bigint;
+  blockTimestamp: Date;
+  status?: EventStatus;
+}
+
+export type NFTStandard = 'erc721' | 'erc1155';
+
+/** ERC-721 Transfer or ERC-1155 TransferSingle/TransferBatch */
+export interface NFTTransferData extends RawLog {
+  chainId?: number;
+  standard: NFTStandard;
+  tokenAddress: string;
+  /** Account that initiated an ERC-1155 transfer; null for ERC-721 */
+  operator: string | null;
+  from: string;
+  to: string;
+  /** Token ids moved by the log; an ERC-1155 TransferBatch carries several */
+  tokenIds: string[];
+  /** Amount per token id; always 1 for ERC-721 */
+  amounts: string[];
+  transactionHash: string;
+  logIndex: number;
+  blockNumber: bigint;
+  blockTimestamp: Date;
+  status?: EventStatus;
 }
 
-export interface SwapData {
+export interface SwapData extends RawLog {
+  chainId?: number;
   poolAddress: string;
+  /**
+   * DEX the pool belongs to: a DEX_FACTORIES label for its factory, otherwise
+   * `uniswap-v2` or `uniswap-v3` by the Swap event's shape
+   */
+  protocol: string;
+  /** Pool fee tier in hundredths of a bip, when known (V3 pools) */
+  fee?: number | null;
   sender: string;
   recipient: string;
   amount0In: string;
   amount1In: string;
   amount0Out: string;
   amount1Out: string;
+  /** Signed pool balance deltas from a V3 Swap, positive into the pool; null for V2 */
+  amount0?: string | null;
+  amount1?: string | null;
+  /** Pool price, active liquidity and tick after a V3 swap; null for V2 */
+  sqrtPriceX96?: string | null;
+  liquidity?: string | null;
+  tick?: number | null;
+  transactionHash: string;
+  logIndex: number;
+  blockNumber: bigint;
+  blockTimestamp: Date;
+  status?: EventStatus;
+}
+
+/** Candle bucket sizes */
+export type CandleInterval = '1m' | '5m' | '1h' | '1d';
+
+/** Activity bucket sizes */
+export type ActivityInterval = '1h' | '1d';
+
+/** What an activity bucket counts: a token's transfers or a pool's swaps */
+export type ActivitySubject = 'token' | 'pool';
+
+/** V2 Mint/Burn/Sync and V3 Mint/Burn/Collect */
+export type LiquidityEventKind = 'mint' | 'burn' | 'collect' | 'sync';
+
+export interface LiquidityEventData extends RawLog {
+  chainId?: number;
+  poolAddress: string;
+  kind: LiquidityEventKind;
+  sender: string | null;
+  /** V3 position owner */
+  owner: string | null;
+  recipient: string | null;
+  tickLower: number | null;
+  tickUpper: number | null;
+  /** Liquidity added or removed by a V3 Mint/Burn */
+  liquidity: string | null;
+  /** Token amounts; the new reserves for a V2 Sync */
+  amount0: string;
+  amount1: string;
+  transactionHash: string;
+  logIndex: number;
+  blockNumber: bigint;
+  blockTimestamp: Date;
+  status?: EventStatus;
+}
+
+/** Factory PairCreated (V2) or PoolCreated (V3); addresses are lowercase */
+export interface PoolCreatedData extends RawLog {
+  chainId?: number;
+  factoryAddress: string;
+  poolAddress: string;
+  token0: string;
+  token1: string;
+  /** V3 fee tier in hundredths of a bip; null for V2 pairs */
+  fee: number | null;
+  tickSpacing: number | null;
+  transactionHash: string;
+  logIndex: number;
+  blockNumber: bigint;
+  blockTimestamp: Date;
+  status?: EventStatus;
+}
+
+/** Transaction and receipt fields of a transaction that emitted indexed logs; addresses are lowercase */
+export interface TransactionData {
+  chainId?: number;
+  hash: string;
+  blockNumber: bigint;
+  /** Account that signed the transaction */
+  from: string;
+  /** Called contract or recipient; null for contract creation */
+  to: string | null;
+  /** First 4 bytes of the calldata, e.g. `0xa9059cbb`; null without calldata */
+  selector: string | null;
+  gasUsed: string;
+  effectiveGasPrice: string;
+  status: 'success' | 'reverted';
+}
+
+export type JsonValue = string | number | boolean | null | JsonValue[] | { [key: string]: JsonValue };
+
+/** Event decoded with an ABI from the registry rather than a built-in decoder */
+export interface GenericEventData extends RawLog {
+  chainId?: number;
+  address: string;
+  eventName: string;
+  /** Canonical signature, e.g. `Transfer(address,address,uint256)` */
+  signature: string;
+  /** Decoded arguments, keyed by name (by position if the ABI leaves them unnamed) */
+  args: JsonValue;
   transactionHash: string;
   logIndex: number;
   blockNumber: bigint;
   blockTimestamp: Date;
+  status?: EventStatus;
 }
 
 export interface IndexerState {
+  chainId: number;
+  /** Last block committed by the live tail, as persisted in the checkpoint */
   lastBlockNumber: bigint;
   isIndexing: boolean;
   lastError?: string;
   errorCount: number;
+  /** Block range currently used for each eth_getLogs request */
+  logRangeSize: bigint;
+  /** Whether historical backfill workers are still running */
+  isBackfilling: boolean;
+  /** Backfill shards whose last attempt failed, waiting to be retried */
+  failingBackfillShards: number;
 }
 
 export interface HealthStatus {
@@ -0,0 +1,102 @@
+import { bench, describe } from 'vitest';
+import { decodeEventLog, encodeAbiParameters, encodeEventTopics, parseAbi, type Hex, type Log } from 'viem';
+import { EventDecoder } from '../../src/indexer/event-decoder.js';
+
+const ABI = parseAbi([
+  'event Transfer(address indexed from, address indexed to, uint256 value)',
+  'event Swap(address indexed sender, uint256 amount0In, uint256 amount1In, uint256 amount0Out, uint256 amount1Out, address indexed to)',
+  'event Swap(address indexed sender, address indexed recipient, int256 amount0, int256 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick)',
+]);
+const [TRANSFER, SWAP_V2, SWAP_V3] = ABI;
+
+const BLOCK_TIMESTAMP = new Date('2024-01-15T12:00:00Z');
+const A = '0x1111111111111111111111111111111111111111';
+const B = '0x2222222222222222222222222222222222222222';
+
+function log(index: number, topics: Hex[], data: Hex): Log {
+  return {
+    address: '0xAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA',
+    blockHash: '0x0000000000000000000000000000000000000000000000000000000000000001',
+    blockNumber: 18000000n + BigInt(index >> 4),
+    data,
+    logIndex: index,
+    transactionHash: `0x${index.toString(16).padStart(64, '0')}`,
+    transactionIndex: 0,
+    removed: false,
+    topics: topics as [Hex, ...Hex[]],
+  };
+}
+
+/**
+ * Roughly what a block range on a busy chain looks like: mostly logs the
+ * built-in decoders don't handle, then transfers and a few swaps.
+ */
+function mixedLogs(count: number): Log[] {
+  return Array.from({ length: count }, (_, i) => {
+    const kind = i % 20;
+    if (kind < 5) {
+      return log(
+        i,
+        encodeEventTopics({ abi: [TRANSFER], args: { from: A, to: B } }),
+        encodeAbiParameters([{ type: 'uint256' }], [BigInt(i) * 10n ** 18n])
+      );
+    }
+    if (kind === 5) {
+      return log(
+        i,
+        encodeEventTopics({ abi: [SWAP_V2], args: { sender: A, to: B } }),
+        encodeAbiParameters(
+          [{ type: 'uint256' }, { type: 'uint256' }, { type: 'uint256' }, { type: 'uint256' }],
+          [1000n, 0n, 0n, 500n]
+        )
+      );
+    }
+    if (kind === 6) {
+      return log(
+        i,
+        encodeEventTopics({ abi: [SWAP_V3], args: { sender: A, recipient: B } }),
+        encodeAbiParameters(
+          [{ type: 'int256' }, { type: 'int256' }, { type: 'uint160' }, { type: 'uint128' }, { type: 'int24' }],
+          [-1000n, 500n, 2n ** 96n, 10n ** 18n, 100]
+        )
+      );
+    }
+    // Approvals, syncs, protocol-specific events...
+    return log(
+      i,
+      [`0x${(i * 7919).toString(16).padStart(64, 'e')}`, `0x${'00'.repeat(12)}${A.slice(2)}`],
+      encodeAbiParameters([{ type: 'uint256' }], [BigInt(i)])
+    );
+  });
+}
+
+/**
+ * The previous approach: try each known ABI in turn and catch the failures
+ */
+function decodeByCascade(entry: Log): string {
+  for (const abiEvent of ABI) {
+    try {
+      return decodeEventLog({ abi: [abiEvent], data: entry.data, topics: entry.topics }).eventName;
+    } catch {
+      // Next candidate
+    }
+  }
+  return 'unknown';
+}
+
+const logs = mixedLogs(2000);
+const decoder = new EventDecoder();
+
+describe('decode 2000 mixed logs', () => {
+  bench('selector map (EventDecoder)', () => {
+    for (const entry of logs) {
+      decoder.decode(entry, BLOCK_TIMESTAMP);
+    }
+  });
+
+  bench('try/catch cascade', () => {
+    for (const entry of logs) {
+      decodeByCascade(entry);
+    }
+  });
+});
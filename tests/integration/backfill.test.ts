@@ -0,0 +1,165 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { BackfillCoordinator, splitRange } from '../../src/indexer/backfill.js';
+import type { BlockPoller } from '../../src/indexer/block-poller.js';
+import type { EventStorage } from '../../src/indexer/storage.js';
+
+// Fail fast instead of backing off between attempts
+vi.mock('../../src/lib/retry.js', () => ({
+  exponentialRetry: (fn: () => Promise<unknown>) => fn(),
+}));
+
+function shard(id: string, fromBlock: bigint, toBlock: bigint, nextBlock = fromBlock) {
+  return { id, fromBlock, toBlock, nextBlock, status: 'pending' };
+}
+
+describe('splitRange', () => {
+  it('should split a range into consecutive shards', () => {
+    expect(splitRange(100n, 350n, 100n)).toEqual([
+      { fromBlock: 100n, toBlock: 199n },
+      { fromBlock: 200n, toBlock: 299n },
+      { fromBlock: 300n, toBlock: 350n },
+    ]);
+  });
+
+  it('should return a single shard for a short range', () => {
+    expect(splitRange(100n, 100n, 100n)).toEqual([{ fromBlock: 100n, toBlock: 100n }]);
+  });
+});
+
+describe('BackfillCoordinator', () => {
+  const mockScanRange = vi.fn();
+  const mockStorage = {
+    createBackfillShards: vi.fn(),
+    getIncompleteBackfillShards: vi.fn(),
+    updateBackfillShard: vi.fn(),
+  };
+  let coordinator: BackfillCoordinator;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    coordinator = new BackfillCoordinator(
+      { scanRange: mockScanRange } as unknown as BlockPoller,
+      mockStorage as unknown as EventStorage,
+      { workers: 2, shardSize: 100n, retryDelayMs: 1 }
+    );
+
+    // Default: each scan commits its whole range in one batch
+    mockScanRange.mockImplementation(async (_from, toBlock, _callback, onBatchComplete) => {
+      await onBatchComplete(toBlock);
+    });
+  });
+
+  describe('shouldBackfill', () => {
+    it('should only backfill gaps larger than one shard', () => {
+      expect(coordinator.shouldBackfill(100n, 199n)).toBe(false);
+      expect(coordinator.shouldBackfill(100n, 200n)).toBe(true);
+    });
+  });
+
+  describe('plan', () => {
+    it('should persist shards and hand everything after toBlock to the live tail', async () => {
+      await coordinator.plan(100n, 350n);
+
+      expect(mockStorage.createBackfillShards).toHaveBeenCalledWith(splitRange(100n, 350n, 100n), 350n);
+    });
+  });
+
+  describe('run', () => {
+    it('should scan every incomplete shard from its persisted progress', async () => {
+      mockStorage.getIncompleteBackfillShards.mockResolvedValue([
+        shard('a', 100n, 199n),
+        shard('b', 200n, 299n, 250n),
+        shard('c', 300n, 350n),
+      ]);
+      const callback = vi.fn();
+
+      await coordinator.run(callback);
+
+      expect(mockScanRange).toHaveBeenCalledTimes(3);
+      expect(mockScanRange.mock.calls.map((call) => [call[0], call[1]])).toEqual([
+        [100n, 199n],
+        [250n, 299n],
+        [300n, 350n],
+      ]);
+      expect(mockScanRange.mock.calls[0][2]).toBe(callback);
+      expect(mockStorage.updateBackfillShard).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'b' }),
+        300n
+      );
+      expect(coordinator.isRunning()).toBe(false);
+    });
+
+    it('should run at most `workers` shards at a time', async () => {
+      mockStorage.getIncompleteBackfillShards.mockResolvedValue([
+        shard('a', 100n, 199n),
+        shard('b', 200n, 299n),
+        shard('c', 300n, 399n),
+      ]);
+      let active = 0;
+      let maxActive = 0;
+      mockScanRange.mockImplementation(async () => {
+        active++;
+        maxActive = Math.max(maxActive, active);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        active--;
+      });
+
+      await coordinator.run(vi.fn());
+
+      expect(mockScanRange).toHaveBeenCalledTimes(3);
+      expect(maxActive).toBe(2);
+    });
+
+    it('should keep going when a shard fails and retry it from its progress', async () => {
+      mockStorage.getIncompleteBackfillShards.mockResolvedValue([
+        shard('a', 100n, 199n),
+        shard('b', 200n, 299n),
+      ]);
+      mockScanRange.mockImplementationOnce(async (_from, _to, _callback, onBatchComplete) => {
+        await onBatchComplete(149n);
+        throw new Error('RPC error');
+      });
+
+      await expect(coordinator.run(vi.fn())).resolves.toBeUndefined();
+
+      expect(mockScanRange.mock.calls.map((call) => [call[0], call[1]])).toEqual([
+        [100n, 199n],
+        [200n, 299n],
+        [150n, 199n],
+      ]);
+      expect(mockStorage.updateBackfillShard).toHaveBeenLastCalledWith(
+        expect.objectContaining({ id: 'a' }),
+        200n
+      );
+      expect(coordinator.getFailingShardCount()).toBe(0);
+    });
+
+    it('should report shards waiting to be retried', async () => {
+      coordinator = new BackfillCoordinator(
+        { scanRange: mockScanRange } as unknown as BlockPoller,
+        mockStorage as unknown as EventStorage,
+        { workers: 1, shardSize: 100n, retryDelayMs: 60_000 }
+      );
+      mockStorage.getIncompleteBackfillShards.mockResolvedValue([shard('a', 100n, 199n)]);
+      mockScanRange.mockRejectedValueOnce(new Error('RPC error'));
+
+      const running = coordinator.run(vi.fn());
+      await vi.waitFor(() => expect(coordinator.getFailingShardCount()).toBe(1));
+      expect(coordinator.isRunning()).toBe(true);
+
+      coordinator.stop();
+      await running;
+      expect(mockScanRange).toHaveBeenCalledTimes(1);
+      expect(coordinator.isRunning()).toBe(false);
+    });
+
+    it('should not start new shards after stop', async () => {
+      mockStorage.getIncompleteBackfillShards.mockResolvedValue([shard('a', 100n, 199n)]);
+      coordinator.stop();
+
+      await coordinator.run(vi.fn());
+
+      expect(mockScanRange).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { BlockPoller, type BlockCallback } from '../../src/indexer/block-poller.js';
+import { BlockPoller, ChainReorgError, type BlockCallback } from '../../src/indexer/block-poller.js';
 
 // Mock viem
 vi.mock('viem', async () => {
@@ -10,16 +10,28 @@ vi.mock('viem', async () => {
       getBlockNumber: vi.fn(),
       getLogs: vi.fn(),
       getBlock: vi.fn(),
+      request: vi.fn(),
     }),
   };
 });
 
+/** Fake block header lookup keyed by block number */
+function mockBlock({ blockNumber }: { blockNumber: bigint }) {
+  return Promise.resolve({
+    number: blockNumber,
+    hash: `0xb${blockNumber}`,
+    parentHash: `0xb${blockNumber - 1n}`,
+    timestamp: 1705320000n,
+  });
+}
+
 describe('BlockPoller', () => {
   let poller: BlockPoller;
 
   beforeEach(() => {
     vi.clearAllMocks();
     poller = new BlockPoller('https://rpc.example.com', 18000000n, 1000);
+    (poller.client.getBlock as ReturnType<typeof vi.fn>).mockImplementation(mockBlock);
   });
 
   describe('constructor', () => {
@@ -43,6 +55,90 @@ describe('BlockPoller', () => {
     });
   });
 
+  describe('setCurrentBlock', () => {
+    it('should resume polling from the given block', () => {
+      poller.setCurrentBlock(18000251n);
+      expect(poller.getCurrentBlock()).toBe(18000251n);
+    });
+  });
+
+  describe('getBlockHeaders', () => {
+    it('should fetch each header once and serve repeats from the cache', async () => {
+      const mockGetBlock = poller.client.getBlock as ReturnType<typeof vi.fn>;
+
+      const first = await poller.getBlockHeaders([18000000n, 18000001n]);
+      const second = await poller.getBlockHeaders([18000001n, 18000002n]);
+
+      expect(mockGetBlock).toHaveBeenCalledTimes(3);
+      expect(first.get(18000001n)).toEqual({
+        number: 18000001n,
+        hash: '0xb18000001',
+        parentHash: '0xb18000000',
+        timestamp: new Date(1705320000 * 1000),
+      });
+      expect(second.get(18000001n)).toBe(first.get(18000001n));
+    });
+  });
+
+  describe('log filters', () => {
+    const TOKEN = '0x1111111111111111111111111111111111111111';
+    const TRANSFER_TOPIC = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+
+    /** eth_getLogs result as returned over JSON-RPC */
+    function rpcLog(blockNumber: number, logIndex: number) {
+      return {
+        address: TOKEN,
+        blockNumber: `0x${blockNumber.toString(16)}`,
+        blockHash: '0x01',
+        data: '0x',
+        logIndex: `0x${logIndex.toString(16)}`,
+        transactionHash: `0xtx${logIndex}`,
+        transactionIndex: '0x0',
+        removed: false,
+        topics: [TRANSFER_TOPIC],
+      };
+    }
+
+    it('should push each filter into eth_getLogs and merge the results in chain order', async () => {
+      poller = new BlockPoller('https://rpc.example.com', 18000000n, 1000, {
+        logFilters: [{ addresses: [TOKEN] }, { topics: [TRANSFER_TOPIC] }],
+      });
+      (poller.client.getBlock as ReturnType<typeof vi.fn>).mockImplementation(mockBlock);
+      const mockRequest = poller.client.request as ReturnType<typeof vi.fn>;
+      mockRequest
+        .mockResolvedValueOnce([rpcLog(18000001, 0), rpcLog(18000000, 3)])
+        .mockResolvedValueOnce([rpcLog(18000000, 1), rpcLog(18000001, 0)]);
+
+      const seen: Array<[bigint, number[]]> = [];
+      await poller.scanRange(18000000n, 18000001n, async (blockNumber, logs) => {
+        seen.push([blockNumber, logs.map((log) => log.logIndex!)]);
+      });
+
+      expect(poller.client.getLogs).not.toHaveBeenCalled();
+      expect(mockRequest).toHaveBeenCalledWith({
+        method: 'eth_getLogs',
+        params: [{ fromBlock: '0x112a880', toBlock: '0x112a881', address: [TOKEN], topics: undefined }],
+      });
+      expect(mockRequest).toHaveBeenCalledWith({
+        method: 'eth_getLogs',
+        params: [{ fromBlock: '0x112a880', toBlock: '0x112a881', address: undefined, topics: [[TRANSFER_TOPIC]] }],
+      });
+      expect(seen).toEqual([
+        [18000000n, [1, 3]],
+        [18000001n, [0]],
+      ]);
+    });
+
+    it('should fetch every log when no filters are configured', async () => {
+      (poller.client.getLogs as ReturnType<typeof vi.fn>).mockResolvedValue([]);
+
+      await poller.scanRange(18000000n, 18000001n, vi.fn());
+
+      expect(poller.client.getLogs).toHaveBeenCalledWith({ fromBlock: 18000000n, toBlock: 18000001n });
+      expect(poller.client.request).not.toHaveBeenCalled();
+    });
+  });
+
   describe('getLatestBlockNumber', () => {
     it('should call client.getBlockNumber', async () => {
       const mockGetBlockNumber = poller.client.getBlockNumber as ReturnType<typeof vi.fn>;
@@ -107,9 +203,9 @@ describe('BlockPoller', () => {
 
       mockGetLogs.mockResolvedValueOnce(mockLogs);
 
-      const processedBlocks: Array<{ blockNumber: bigint; logCount: number }> = [];
-      const callback: BlockCallback = async (blockNumber, logs) => {
-        processedBlocks.push({ blockNumber, logCount: logs.length });
+      const processedBlocks: Array<{ blockNumber: bigint; logCount: number; hash: string }> = [];
+      const callback: BlockCallback = async (blockNumber, logs, header) => {
+        processedBlocks.push({ blockNumber, logCount: logs.length, hash: header.hash });
       };
 
       // Start the poller but stop it after one iteration
@@ -133,12 +229,148 @@ describe('BlockPoller', () => {
 
       if (block18M) {
         expect(block18M.logCount).toBe(2); // Two logs in block 18000000
+        expect(block18M.hash).toBe('0xb18000000');
       }
       if (block18M1) {
         expect(block18M1.logCount).toBe(1); // One log in block 18000001
       }
     });
 
+    it('should report each completed batch and advance past it', async () => {
+      const mockGetBlockNumber = poller.client.getBlockNumber as ReturnType<typeof vi.fn>;
+      const mockGetLogs = poller.client.getLogs as ReturnType<typeof vi.fn>;
+
+      mockGetBlockNumber.mockResolvedValue(18000149n);
+      mockGetLogs.mockResolvedValue([]);
+
+      const completed: bigint[] = [];
+      const startPromise = poller.start(vi.fn(), async (toBlock) => {
+        completed.push(toBlock);
+      });
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      await poller.stop();
+      await startPromise.catch(() => {});
+
+      expect(completed).toEqual([18000099n, 18000149n]);
+      expect(poller.getCurrentBlock()).toBe(18000150n);
+    });
+
+    it('should rewind to the fork point when the callback reports a reorg', async () => {
+      const mockGetBlockNumber = poller.client.getBlockNumber as ReturnType<typeof vi.fn>;
+      const mockGetLogs = poller.client.getLogs as ReturnType<typeof vi.fn>;
+
+      mockGetBlockNumber.mockResolvedValue(18000010n);
+      mockGetLogs.mockResolvedValue([
+        { address: '0xAAAA', blockNumber: 18000005n, logIndex: 0, topics: [], data: '0x' },
+      ]);
+
+      const callback = vi.fn().mockRejectedValue(new ChainReorgError(17999990n));
+      const onBatchComplete = vi.fn();
+
+      const startPromise = poller.start(callback, onBatchComplete);
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      await poller.stop();
+      await startPromise.catch(() => {});
+
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(onBatchComplete).not.toHaveBeenCalled();
+      expect(poller.getCurrentBlock()).toBe(17999991n);
+      expect(poller.getErrorCount()).toBe(0);
+    });
+
+    it('should stay the configured number of blocks behind head', async () => {
+      poller = new BlockPoller('https://rpc.example.com', 18000000n, 1000, { confirmations: 10 });
+      const mockGetBlockNumber = poller.client.getBlockNumber as ReturnType<typeof vi.fn>;
+      const mockGetLogs = poller.client.getLogs as ReturnType<typeof vi.fn>;
+
+      mockGetBlockNumber.mockResolvedValue(18000050n);
+      mockGetLogs.mockResolvedValue([]);
+
+      const startPromise = poller.start(vi.fn());
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      await poller.stop();
+      await startPromise.catch(() => {});
+
+      expect(mockGetLogs).toHaveBeenCalledWith({ fromBlock: 18000000n, toBlock: 18000040n });
+      expect(poller.getConfirmedBlock()).toBe(18000040n);
+    });
+
+    it('should follow the finalized block tag', async () => {
+      poller = new BlockPoller('https://rpc.example.com', 18000000n, 1000, { finality: 'finalized' });
+      const mockGetBlockNumber = poller.client.getBlockNumber as ReturnType<typeof vi.fn>;
+      const mockGetBlock = poller.client.getBlock as ReturnType<typeof vi.fn>;
+      const mockGetLogs = poller.client.getLogs as ReturnType<typeof vi.fn>;
+
+      mockGetBlockNumber.mockResolvedValue(18000050n);
+      mockGetBlock.mockResolvedValue({ number: 18000020n });
+      mockGetLogs.mockResolvedValue([]);
+
+      const startPromise = poller.start(vi.fn());
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      await poller.stop();
+      await startPromise.catch(() => {});
+
+      expect(mockGetBlock).toHaveBeenCalledWith({ blockTag: 'finalized' });
+      expect(mockGetLogs).toHaveBeenCalledWith({ fromBlock: 18000000n, toBlock: 18000020n });
+    });
+
+    it('should index up to head in pending mode while tracking the confirmed block', async () => {
+      poller = new BlockPoller('https://rpc.example.com', 18000000n, 1000, {
+        confirmations: 10,
+        indexPending: true,
+      });
+      const mockGetBlockNumber = poller.client.getBlockNumber as ReturnType<typeof vi.fn>;
+      const mockGetLogs = poller.client.getLogs as ReturnType<typeof vi.fn>;
+
+      mockGetBlockNumber.mockResolvedValue(18000050n);
+      mockGetLogs.mockResolvedValue([]);
+
+      const startPromise = poller.start(vi.fn());
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      await poller.stop();
+      await startPromise.catch(() => {});
+
+      expect(mockGetLogs).toHaveBeenCalledWith({ fromBlock: 18000000n, toBlock: 18000050n });
+      expect(poller.getConfirmedBlock()).toBe(18000040n);
+    });
+
+    it('should bisect the getLogs range when the provider rejects it', async () => {
+      const mockGetBlockNumber = poller.client.getBlockNumber as ReturnType<typeof vi.fn>;
+      const mockGetLogs = poller.client.getLogs as ReturnType<typeof vi.fn>;
+
+      mockGetBlockNumber.mockResolvedValue(18000099n);
+      mockGetLogs
+        .mockRejectedValueOnce(new Error('query returned more than 10000 results'))
+        .mockResolvedValue(Array.from({ length: 5000 }, () => ({ blockNumber: 18000000n })));
+
+      const startPromise = poller.start(vi.fn());
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      await poller.stop();
+      await startPromise.catch(() => {});
+
+      expect(mockGetLogs).toHaveBeenNthCalledWith(1, { fromBlock: 18000000n, toBlock: 18000099n });
+      expect(mockGetLogs).toHaveBeenNthCalledWith(2, { fromBlock: 18000000n, toBlock: 18000049n });
+      expect(mockGetLogs).toHaveBeenNthCalledWith(3, { fromBlock: 18000050n, toBlock: 18000099n });
+      expect(poller.getLogRangeSize()).toBe(50n);
+    });
+
+    it('should grow the getLogs range while responses stay small', async () => {
+      const mockGetBlockNumber = poller.client.getBlockNumber as ReturnType<typeof vi.fn>;
+      const mockGetLogs = poller.client.getLogs as ReturnType<typeof vi.fn>;
+
+      mockGetBlockNumber.mockResolvedValue(18000299n);
+      mockGetLogs.mockResolvedValue([]);
+
+      const startPromise = poller.start(vi.fn());
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      await poller.stop();
+      await startPromise.catch(() => {});
+
+      expect(mockGetLogs).toHaveBeenNthCalledWith(1, { fromBlock: 18000000n, toBlock: 18000099n });
+      expect(mockGetLogs).toHaveBeenNthCalledWith(2, { fromBlock: 18000100n, toBlock: 18000299n });
+      expect(poller.getLogRangeSize()).toBe(400n);
+    });
+
     it('should skip when no new blocks are available', async () => {
       const mockGetBlockNumber = poller.client.getBlockNumber as ReturnType<typeof vi.fn>;
 
@@ -0,0 +1,156 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  ContractFunctionExecutionError,
+  ContractFunctionZeroDataError,
+  HttpRequestError,
+  type PublicClient,
+} from 'viem';
+import { PoolRegistry } from '../../src/indexer/pool-registry.js';
+import type { EventStorage } from '../../src/indexer/storage.js';
+import type { DecodedEvent } from '../../src/types/events.js';
+
+const POOL = '0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb';
+const TOKEN0 = '0xAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA';
+const TOKEN1 = '0xDDDDDDDDDDDDDDDDDDDDDDDDDDDDDDDDDDDDDDDD';
+const FACTORY = '0xFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF';
+
+const mockReadContract = vi.fn();
+const mockGetPool = vi.fn();
+const mockSavePool = vi.fn();
+
+const client = { readContract: mockReadContract } as unknown as PublicClient;
+const storage = {
+  chainId: 57073,
+  getPool: mockGetPool,
+  savePool: mockSavePool,
+} as unknown as EventStorage;
+
+function swapIn(poolAddress: string): DecodedEvent {
+  return {
+    type: 'swap',
+    data: {
+      poolAddress,
+      protocol: 'uniswap-v2',
+      sender: '0x3333333333333333333333333333333333333333',
+      recipient: '0x4444444444444444444444444444444444444444',
+      amount0In: '1000',
+      amount1In: '0',
+      amount0Out: '0',
+      amount1Out: '500',
+      transactionHash: '0x' + '12'.repeat(32),
+      logIndex: 0,
+      blockNumber: 100n,
+      blockTimestamp: new Date('2024-01-15T12:00:00Z'),
+    },
+  };
+}
+
+/** What viem throws when a function doesn't exist on the contract */
+function noData(functionName: string) {
+  return new ContractFunctionExecutionError(new ContractFunctionZeroDataError({ functionName }), {
+    abi: [],
+    functionName,
+  });
+}
+
+/** Answer pool getters like a V2 pair: no fee() */
+function v2Pair({ functionName }: { functionName: string }) {
+  const results: Record<string, string> = { token0: TOKEN0, token1: TOKEN1, factory: FACTORY };
+  return functionName in results
+    ? Promise.resolve(results[functionName])
+    : Promise.reject(noData(functionName));
+}
+
+describe('PoolRegistry', () => {
+  let registry: PoolRegistry;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    registry = new PoolRegistry(client, storage);
+    mockGetPool.mockResolvedValue(null);
+  });
+
+  it('should read tokens, factory and fee from a pool seen for the first time', async () => {
+    mockReadContract.mockImplementation(v2Pair);
+
+    await registry.discover([swapIn(POOL.toUpperCase().replace('0X', '0x'))]);
+
+    expect(mockGetPool).toHaveBeenCalledWith(POOL);
+    expect(mockSavePool).toHaveBeenCalledWith({
+      address: POOL,
+      token0: TOKEN0.toLowerCase(),
+      token1: TOKEN1.toLowerCase(),
+      fee: null,
+      factoryAddress: FACTORY.toLowerCase(),
+    });
+  });
+
+  it('should label swaps with their pool\'s fee tier and the protocol of known factories', async () => {
+    registry = new PoolRegistry(client, storage, { [FACTORY.toLowerCase()]: 'velodrome-v2' });
+    const other = '0x5555555555555555555555555555555555555555';
+    mockGetPool.mockImplementation(async (address: string) =>
+      address === POOL
+        ? { address, factoryAddress: FACTORY.toLowerCase(), fee: 3000 }
+        : { address, factoryAddress: '0x6666666666666666666666666666666666666666', fee: null }
+    );
+    const [unknownFactory, known] = [swapIn(other), swapIn(POOL)];
+
+    await registry.discover([unknownFactory, known]);
+
+    expect(known.data).toMatchObject({ protocol: 'velodrome-v2', fee: 3000 });
+    expect(unknownFactory.data).toMatchObject({ protocol: 'uniswap-v2', fee: null });
+  });
+
+  it('should only look a pool up once', async () => {
+    mockGetPool.mockResolvedValue({ address: POOL });
+
+    await registry.discover([swapIn(POOL), swapIn(POOL)]);
+    await registry.discover([swapIn(POOL)]);
+
+    expect(mockGetPool).toHaveBeenCalledTimes(1);
+    expect(mockReadContract).not.toHaveBeenCalled();
+  });
+
+  it('should skip pools created by a factory event in the same block', async () => {
+    const created: DecodedEvent = {
+      type: 'pool-created',
+      data: {
+        ...swapIn(POOL).data,
+        factoryAddress: FACTORY.toLowerCase(),
+        token0: TOKEN0.toLowerCase(),
+        token1: TOKEN1.toLowerCase(),
+        fee: 500,
+        tickSpacing: 10,
+      },
+    };
+
+    await registry.discover([created, swapIn(POOL)]);
+
+    expect(mockGetPool).not.toHaveBeenCalled();
+    expect(mockReadContract).not.toHaveBeenCalled();
+  });
+
+  it('should remember contracts that are not pools', async () => {
+    mockReadContract.mockImplementation(({ functionName }) => Promise.reject(noData(functionName)));
+
+    await registry.discover([swapIn(POOL)]);
+    await registry.discover([swapIn(POOL)]);
+
+    expect(mockSavePool).not.toHaveBeenCalled();
+    expect(mockGetPool).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry on a later block when the RPC fails', async () => {
+    mockReadContract.mockRejectedValueOnce(
+      new HttpRequestError({ url: 'https://rpc.example.com', status: 503 })
+    );
+
+    await expect(registry.discover([swapIn(POOL)])).resolves.toBeUndefined();
+    expect(mockSavePool).not.toHaveBeenCalled();
+
+    mockReadContract.mockImplementation(v2Pair);
+    await registry.discover([swapIn(POOL)]);
+
+    expect(mockSavePool).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { PublicClient } from 'viem';
+import { ReorgDetector } from '../../src/indexer/reorg.js';
+import type { EventStorage } from '../../src/indexer/storage.js';
+import type { BlockHeader } from '../../src/types/events.js';
+
+const TIMESTAMP = new Date('2024-01-15T12:00:00Z');
+
+function header(number: bigint, hash: string, parentHash: string): BlockHeader {
+  return { number, hash, parentHash, timestamp: TIMESTAMP };
+}
+
+describe('ReorgDetector', () => {
+  const mockGetBlock = vi.fn();
+  const mockGetBlockBefore = vi.fn();
+  const mockGetBlocksDescending = vi.fn();
+
+  const client = { getBlock: mockGetBlock } as unknown as PublicClient;
+  const storage = {
+    getBlockBefore: mockGetBlockBefore,
+    getBlocksDescending: mockGetBlocksDescending,
+  } as unknown as EventStorage;
+
+  let detector: ReorgDetector;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    detector = new ReorgDetector(client, storage, 10);
+  });
+
+  it('should accept the first block when nothing is stored', async () => {
+    mockGetBlockBefore.mockResolvedValue(null);
+
+    expect(await detector.check(header(100n, '0xb100', '0xb99'))).toBeNull();
+    expect(mockGetBlock).not.toHaveBeenCalled();
+  });
+
+  it('should compare the direct parent against the header parentHash', async () => {
+    mockGetBlockBefore.mockResolvedValue(header(99n, '0xb99', '0xb98'));
+
+    expect(await detector.check(header(100n, '0xb100', '0xb99'))).toBeNull();
+    expect(mockGetBlock).not.toHaveBeenCalled();
+  });
+
+  it('should look up the canonical hash when the stored block is not the direct parent', async () => {
+    mockGetBlockBefore.mockResolvedValue(header(95n, '0xb95', '0xb94'));
+    mockGetBlock.mockResolvedValue({ hash: '0xb95' });
+
+    expect(await detector.check(header(100n, '0xb100', '0xb99'))).toBeNull();
+    expect(mockGetBlock).toHaveBeenCalledWith({ blockNumber: 95n });
+  });
+
+  it('should return the highest stored block that is still canonical', async () => {
+    mockGetBlockBefore.mockResolvedValue(header(99n, '0xold99', '0xold98'));
+    mockGetBlocksDescending.mockResolvedValue([
+      header(99n, '0xold99', '0xold98'),
+      header(98n, '0xold98', '0xb97'),
+      header(97n, '0xb97', '0xb96'),
+    ]);
+    mockGetBlock.mockImplementation(async ({ blockNumber }: { blockNumber: bigint }) => ({
+      hash: blockNumber === 97n ? '0xb97' : `0xnew${blockNumber}`,
+    }));
+
+    expect(await detector.check(header(100n, '0xnew100', '0xnew99'))).toBe(97n);
+  });
+
+  it('should roll back past every checked block when no match is found', async () => {
+    mockGetBlockBefore.mockResolvedValue(header(99n, '0xold99', '0xold98'));
+    mockGetBlocksDescending.mockResolvedValue([
+      header(99n, '0xold99', '0xold98'),
+      header(98n, '0xold98', '0xold97'),
+    ]);
+    mockGetBlock.mockResolvedValue({ hash: '0xnew' });
+
+    expect(await detector.check(header(100n, '0xnew100', '0xnew99'))).toBe(97n);
+  });
+});
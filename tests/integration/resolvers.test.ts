@@ -9,16 +9,50 @@ const mockGetRecentEvents = vi.fn();
 const mockGetTransfersByAddress = vi.fn();
 const mockGetSwapsByPool = vi.fn();
 const mockGetStats = vi.fn();
+const mockGetBackfillShards = vi.fn();
+const mockGetGenericEvents = vi.fn();
+const mockGetNFTTransfers = vi.fn();
+const mockGetApprovals = vi.fn();
+const mockGetAllowances = vi.fn();
+const mockGetPool = vi.fn();
+const mockGetPools = vi.fn();
+const mockGetEventLog = vi.fn();
+const mockGetTransaction = vi.fn();
+const mockGetBalance = vi.fn();
+const mockGetBalanceHistory = vi.fn();
+const mockGetTopHolders = vi.fn();
+const mockGetHolderCount = vi.fn();
+const mockGetCandles = vi.fn();
+const mockGetTimeSeries = vi.fn();
 
 const mockStorage = {
+  chainId: 57073,
   getRecentTransfers: mockGetRecentTransfers,
   getRecentSwaps: mockGetRecentSwaps,
   getRecentEvents: mockGetRecentEvents,
   getTransfersByAddress: mockGetTransfersByAddress,
   getSwapsByPool: mockGetSwapsByPool,
   getStats: mockGetStats,
+  getBackfillShards: mockGetBackfillShards,
+  getGenericEvents: mockGetGenericEvents,
+  getNFTTransfers: mockGetNFTTransfers,
+  getApprovals: mockGetApprovals,
+  getAllowances: mockGetAllowances,
+  getPool: mockGetPool,
+  getPools: mockGetPools,
+  getEventLog: mockGetEventLog,
+  getTransaction: mockGetTransaction,
+  getBalance: mockGetBalance,
+  getBalanceHistory: mockGetBalanceHistory,
+  getTopHolders: mockGetTopHolders,
+  getHolderCount: mockGetHolderCount,
+  getCandles: mockGetCandles,
+  getTimeSeries: mockGetTimeSeries,
 };
 
+const mockGetToken = vi.fn();
+const mockTokenRegistry = { getToken: mockGetToken };
+
 // Mock event emitter
 const mockSubscribe = vi.fn().mockReturnValue(() => {});
 const mockEventEmitter = {
@@ -26,15 +60,33 @@ const mockEventEmitter = {
 };
 
 // Mock indexer
+const mockGetStorage = vi.fn(() => mockStorage);
 const mockIndexer = {
-  getStorage: () => mockStorage,
+  getStorage: mockGetStorage,
+  getTokenRegistry: vi.fn(() => mockTokenRegistry),
   getEventEmitter: () => mockEventEmitter,
   getState: () => ({
+    chainId: 57073,
     isIndexing: true,
     lastBlockNumber: 18000500n,
     errorCount: 0,
+    logRangeSize: 400n,
+    isBackfilling: true,
+    failingBackfillShards: 1,
   }),
   getUptime: () => 3600,
+  getRpcStats: () => [
+    {
+      url: 'https://rpc-gel.inkonchain.com',
+      healthy: true,
+      latencyMs: 120,
+      successRate: 1,
+      requestCount: 42,
+      errorCount: 0,
+      blockNumber: 18000510n,
+      lastIssue: null,
+    },
+  ],
 } as unknown as OnchainIndexer;
 
 describe('GraphQL Resolvers', () => {
@@ -94,6 +146,24 @@ describe('GraphQL Resolvers', () => {
     });
   });
 
+  describe('chainId argument', () => {
+    it('should query storage for the requested chain', async () => {
+      mockGetRecentTransfers.mockResolvedValue([]);
+
+      await resolvers.Query.transfers(null, { chainId: 763373, first: 10 });
+
+      expect(mockGetStorage).toHaveBeenCalledWith(763373);
+    });
+
+    it('should fall back to the primary chain when omitted', async () => {
+      mockGetRecentSwaps.mockResolvedValue([]);
+
+      await resolvers.Query.swaps(null, { first: 10 });
+
+      expect(mockGetStorage).toHaveBeenCalledWith(undefined);
+    });
+  });
+
   describe('Query.transfers', () => {
     it('should return recent transfers without filter', async () => {
       const transfers = [
@@ -103,7 +173,10 @@ describe('GraphQL Resolvers', () => {
 
       const result = await resolvers.Query.transfers(null, { first: 10 });
 
-      expect(mockGetRecentTransfers).toHaveBeenCalledWith(10);
+      expect(mockGetRecentTransfers).toHaveBeenCalledWith(10, {
+        value: { min: undefined, max: undefined },
+        orderBy: undefined,
+      });
       expect(result).toEqual(transfers);
     });
 
@@ -112,11 +185,41 @@ describe('GraphQL Resolvers', () => {
 
       await resolvers.Query.transfers(null, { first: 20, to: '0x1234' });
 
-      expect(mockGetTransfersByAddress).toHaveBeenCalledWith('0x1234', 20);
+      expect(mockGetTransfersByAddress).toHaveBeenCalledWith('0x1234', 20, expect.any(Object));
       expect(mockGetRecentTransfers).not.toHaveBeenCalled();
     });
   });
 
+  describe('amount filters', () => {
+    it('should pass value bounds and ordering to transfer queries', async () => {
+      mockGetRecentTransfers.mockResolvedValue([]);
+
+      await resolvers.Query.transfers(null, { minValue: '1000', orderBy: 'largest' });
+
+      expect(mockGetRecentTransfers).toHaveBeenCalledWith(10, {
+        value: { min: '1000', max: undefined },
+        orderBy: 'largest',
+      });
+    });
+
+    it('should pass volume bounds and ordering to swap queries', async () => {
+      mockGetSwapsByPool.mockResolvedValue([]);
+
+      await resolvers.Query.swaps(null, {
+        poolAddress: '0xbbb',
+        maxVolume1: '500',
+        orderBy: 'volume0-desc',
+      });
+
+      expect(mockGetSwapsByPool).toHaveBeenCalledWith('0xbbb', 10, undefined, {
+        volume0: { min: undefined, max: undefined },
+        volume1: { min: undefined, max: '500' },
+        orderBy: 'volume0-desc',
+      });
+      expect(resolvers.SwapOrder.LARGEST_VOLUME0).toBe('volume0-desc');
+    });
+  });
+
   describe('Query.swaps', () => {
     it('should return recent swaps without filter', async () => {
       const swaps = [{ id: 's1', poolAddress: '0xBBB' }];
@@ -124,7 +227,11 @@ describe('GraphQL Resolvers', () => {
 
       const result = await resolvers.Query.swaps(null, { first: 10 });
 
-      expect(mockGetRecentSwaps).toHaveBeenCalledWith(10);
+      expect(mockGetRecentSwaps).toHaveBeenCalledWith(10, undefined, {
+        volume0: { min: undefined, max: undefined },
+        volume1: { min: undefined, max: undefined },
+        orderBy: undefined,
+      });
       expect(result).toEqual(swaps);
     });
 
@@ -133,9 +240,249 @@ describe('GraphQL Resolvers', () => {
 
       await resolvers.Query.swaps(null, { first: 15, poolAddress: '0xPoolAddr' });
 
-      expect(mockGetSwapsByPool).toHaveBeenCalledWith('0xPoolAddr', 15);
+      expect(mockGetSwapsByPool).toHaveBeenCalledWith('0xPoolAddr', 15, undefined, expect.any(Object));
       expect(mockGetRecentSwaps).not.toHaveBeenCalled();
     });
+
+    it('should filter swaps by protocol', async () => {
+      mockGetRecentSwaps.mockResolvedValue([]);
+
+      await resolvers.Query.swaps(null, { protocol: 'uniswap-v3' });
+
+      expect(mockGetRecentSwaps).toHaveBeenCalledWith(10, 'uniswap-v3', expect.any(Object));
+    });
+  });
+
+  describe('token metadata', () => {
+    const USDC = { chainId: 57073, address: '0xaaa', name: 'USD Coin', symbol: 'USDC', decimals: 6 };
+
+    it('should resolve the token of a transfer', async () => {
+      mockGetToken.mockResolvedValue(USDC);
+
+      const token = await resolvers.ERC20Transfer.token({ chainId: 57073, tokenAddress: '0xAAA' });
+
+      expect(mockGetToken).toHaveBeenCalledWith('0xAAA');
+      expect(token).toEqual(USDC);
+    });
+
+    it('should format values with the token decimals', async () => {
+      mockGetToken.mockResolvedValue(USDC);
+
+      const formatted = await resolvers.ERC20Transfer.formattedValue({
+        chainId: 57073,
+        tokenAddress: '0xaaa',
+        value: '1500000',
+      });
+
+      expect(formatted).toBe('1.5');
+    });
+
+    it('should leave formattedValue null when decimals are unknown', async () => {
+      mockGetToken.mockResolvedValue({ ...USDC, decimals: null });
+
+      expect(
+        await resolvers.Approval.formattedValue({ chainId: 57073, tokenAddress: '0xaaa', value: '5' })
+      ).toBeNull();
+    });
+
+    it('should resolve both pool tokens', async () => {
+      mockGetToken.mockImplementation(async (address: string) => ({ ...USDC, address }));
+
+      const pool = { chainId: 57073, token0: '0xaaa', token1: '0xddd' };
+
+      expect((await resolvers.Pool.token0(pool)).address).toBe('0xaaa');
+      expect((await resolvers.Pool.token1(pool)).address).toBe('0xddd');
+    });
+  });
+
+  describe('pools', () => {
+    it('should resolve Swap.pool on the swap\'s chain', async () => {
+      const pool = { address: '0xbbb', token0: '0xaaa', token1: '0xddd', fee: 3000 };
+      mockGetPool.mockResolvedValue(pool);
+
+      const result = await resolvers.Swap.pool({ chainId: 763373, poolAddress: '0xBBB' });
+
+      expect(mockGetStorage).toHaveBeenCalledWith(763373);
+      expect(mockGetPool).toHaveBeenCalledWith('0xBBB');
+      expect(result).toEqual(pool);
+    });
+
+    it('should work out Swap volumes for live events that do not carry them', () => {
+      const swap = { amount0In: '0', amount0Out: '500', amount1In: '1000', amount1Out: '0' };
+
+      expect(resolvers.Swap.volume0(swap)).toBe('500');
+      expect(resolvers.Swap.volume1(swap)).toBe('1000');
+      expect(resolvers.Swap.volume0({ ...swap, volume0: '7' })).toBe('7');
+    });
+
+    it('should list pools trading a token', async () => {
+      mockGetPools.mockResolvedValue([]);
+
+      await resolvers.Query.pools(null, { token: '0xaaa', first: 5 });
+
+      expect(mockGetPools).toHaveBeenCalledWith({ token: '0xaaa' }, 5);
+    });
+  });
+
+  describe('Query.candles', () => {
+    it('should parse the time range and default to 500 candles', async () => {
+      mockGetCandles.mockResolvedValue([]);
+
+      await resolvers.Query.candles(null, { pool: '0xbbb', interval: '1h', from: '2024-01-15T00:00:00Z' });
+
+      expect(mockGetCandles).toHaveBeenCalledWith(
+        '0xbbb',
+        '1h',
+        { from: new Date('2024-01-15T00:00:00Z'), to: undefined },
+        500
+      );
+      expect(resolvers.CandleInterval.FIVE_MINUTES).toBe('5m');
+    });
+  });
+
+  describe('Query.timeSeries', () => {
+    it('should pass the subject, interval and time range to storage', async () => {
+      mockGetTimeSeries.mockResolvedValue([]);
+
+      await resolvers.Query.timeSeries(null, {
+        subject: 'pool',
+        address: '0xbbb',
+        interval: '1d',
+        to: '2024-02-01T00:00:00Z',
+        first: 30,
+      });
+
+      expect(mockGetTimeSeries).toHaveBeenCalledWith(
+        'pool',
+        '0xbbb',
+        '1d',
+        { from: undefined, to: new Date('2024-02-01T00:00:00Z') },
+        30
+      );
+      expect(resolvers.ActivitySubject.TOKEN).toBe('token');
+    });
+  });
+
+  describe('rawLog', () => {
+    it('should resolve the raw log of every event type on the event\'s chain', async () => {
+      const log = { id: 'log-1', topics: ['0xddf2'], data: '0x' };
+      mockGetEventLog.mockResolvedValue(log);
+      const transfer = { chainId: 763373, eventLogId: 'log-1', transactionHash: '0xabc', logIndex: 4 };
+
+      expect(await resolvers.ERC20Transfer.rawLog(transfer)).toEqual(log);
+      expect(mockGetStorage).toHaveBeenCalledWith(763373);
+      expect(mockGetEventLog).toHaveBeenCalledWith(transfer);
+
+      for (const type of ['Approval', 'NFTTransfer', 'Swap', 'LiquidityEvent', 'GenericEvent'] as const) {
+        expect(resolvers[type].rawLog).toBeTypeOf('function');
+      }
+    });
+  });
+
+  describe('transaction', () => {
+    it('should resolve the transaction that emitted an event', async () => {
+      const transaction = { hash: '0xabc', from: '0x1111', to: '0x2222', status: 'success' };
+      mockGetTransaction.mockResolvedValue(transaction);
+
+      const result = await resolvers.Swap.transaction({ chainId: 763373, transactionHash: '0xabc' });
+
+      expect(mockGetStorage).toHaveBeenCalledWith(763373);
+      expect(mockGetTransaction).toHaveBeenCalledWith('0xabc');
+      expect(result).toEqual(transaction);
+      for (const type of ['ERC20Transfer', 'Approval', 'NFTTransfer', 'LiquidityEvent', 'GenericEvent'] as const) {
+        expect(resolvers[type].transaction).toBeTypeOf('function');
+      }
+    });
+  });
+
+  describe('balances', () => {
+    it('should look a balance up at a block', async () => {
+      mockGetBalance.mockResolvedValue({ value: '75', blockNumber: '18000090' });
+
+      await resolvers.Query.balance(null, { token: '0xaaa', owner: '0x111', block: '18000090' });
+      await resolvers.Query.balance(null, { token: '0xaaa', owner: '0x111' });
+
+      expect(mockGetBalance).toHaveBeenNthCalledWith(1, '0xaaa', '0x111', 18000090n);
+      expect(mockGetBalance).toHaveBeenNthCalledWith(2, '0xaaa', '0x111', undefined);
+    });
+
+    it('should list top holders and resolve Token.holderCount on the token\'s chain', async () => {
+      mockGetTopHolders.mockResolvedValue([]);
+      mockGetHolderCount.mockResolvedValue(42);
+
+      await resolvers.Query.topHolders(null, { token: '0xaaa' });
+      const holderCount = await resolvers.Token.holderCount({ chainId: 763373, address: '0xaaa' });
+
+      expect(mockGetTopHolders).toHaveBeenCalledWith('0xaaa', 10);
+      expect(mockGetStorage).toHaveBeenLastCalledWith(763373);
+      expect(holderCount).toBe(42);
+    });
+
+    it('should pass the token filter to balance history', async () => {
+      mockGetBalanceHistory.mockResolvedValue([]);
+
+      await resolvers.Query.balanceHistory(null, { owner: '0x111', token: '0xaaa', first: 5 });
+
+      expect(mockGetBalanceHistory).toHaveBeenCalledWith('0x111', { tokenAddress: '0xaaa' }, 5);
+    });
+  });
+
+  describe('Query.allowances', () => {
+    it('should return a wallet\'s outstanding allowances', async () => {
+      mockGetAllowances.mockResolvedValue([{ spender: '0x555', value: '100', unlimited: false }]);
+
+      const result = await resolvers.Query.allowances(null, { owner: '0x111', spender: '0x555' });
+
+      expect(mockGetAllowances).toHaveBeenCalledWith('0x111', { tokenAddress: undefined, spender: '0x555' }, 50);
+      expect(result).toHaveLength(1);
+    });
+  });
+
+  describe('Query.nftTransfers', () => {
+    it('should pass collection, token id and owner filters to storage', async () => {
+      mockGetNFTTransfers.mockResolvedValue([]);
+
+      await resolvers.Query.nftTransfers(null, { tokenAddress: '0xNFT', tokenId: '42', owner: '0x111' });
+
+      expect(mockGetNFTTransfers).toHaveBeenCalledWith(
+        { tokenAddress: '0xNFT', tokenId: '42', owner: '0x111' },
+        10
+      );
+    });
+
+    it('should tag NFT transfers when type is NFT_TRANSFER', async () => {
+      mockGetNFTTransfers.mockResolvedValue([{ id: 'n1' }]);
+
+      const result = await resolvers.Query.events(null, { type: 'NFT_TRANSFER' });
+
+      expect(result[0].__typename).toBe('NFTTransfer');
+    });
+  });
+
+  describe('Query.genericEvents', () => {
+    it('should pass name, address and argument filters to storage', async () => {
+      mockGetGenericEvents.mockResolvedValue([{ id: 'g1', eventName: 'Deposit', args: { user: '0x111' } }]);
+
+      const result = await resolvers.Query.genericEvents(null, {
+        first: 5,
+        eventName: 'Deposit',
+        args: { user: '0x111' },
+      });
+
+      expect(mockGetGenericEvents).toHaveBeenCalledWith(
+        { eventName: 'Deposit', address: undefined, args: { user: '0x111' } },
+        5
+      );
+      expect(result).toHaveLength(1);
+    });
+
+    it('should tag generic events when type is GENERIC', async () => {
+      mockGetGenericEvents.mockResolvedValue([{ id: 'g1' }]);
+
+      const result = await resolvers.Query.events(null, { type: 'GENERIC' });
+
+      expect(result[0].__typename).toBe('GenericEvent');
+    });
   });
 
   describe('Query.stats', () => {
@@ -147,9 +494,10 @@ describe('GraphQL Resolvers', () => {
         latestBlock: 18001000n,
       });
 
-      const result = await resolvers.Query.stats();
+      const result = await resolvers.Query.stats(null, {});
 
       expect(result).toEqual({
+        chainId: 57073,
         totalEvents: '1500',
         totalTransfers: '1200',
         totalSwaps: '300',
@@ -160,17 +508,44 @@ describe('GraphQL Resolvers', () => {
 
   describe('Query.status', () => {
     it('should return current indexer status', async () => {
-      const result = await resolvers.Query.status();
+      const result = await resolvers.Query.status(null, {});
 
       expect(result).toEqual({
+        chainId: 57073,
         isIndexing: true,
         lastBlockNumber: '18000500',
         errorCount: 0,
         uptime: 3600,
+        logRangeSize: '400',
+        isBackfilling: true,
+        failingBackfillShards: 1,
       });
     });
   });
 
+  describe('Query.backfillShards', () => {
+    it('should return shards from storage', async () => {
+      const shards = [
+        { id: 'shard-1', fromBlock: '18000000', toBlock: '18099999', nextBlock: '18050000', status: 'running' },
+      ];
+      mockGetBackfillShards.mockResolvedValue(shards);
+
+      const result = await resolvers.Query.backfillShards(null, {});
+
+      expect(result).toEqual(shards);
+    });
+  });
+
+  describe('Query.rpcEndpoints', () => {
+    it('should return endpoint stats with serialized block numbers', () => {
+      const [endpoint] = resolvers.Query.rpcEndpoints(null, {});
+
+      expect(endpoint.url).toBe('https://rpc-gel.inkonchain.com');
+      expect(endpoint.healthy).toBe(true);
+      expect(endpoint.blockNumber).toBe('18000510');
+    });
+  });
+
   describe('Subscription setup', () => {
     it('should subscribe to event emitter on initialization', () => {
       expect(mockSubscribe).toHaveBeenCalledTimes(1);
@@ -182,5 +557,28 @@ describe('GraphQL Resolvers', () => {
       expect(resolvers.Subscription.newEvents).toBeDefined();
       expect(resolvers.Subscription.newEvents.subscribe).toBeTypeOf('function');
     });
+
+    it('should have removedEvents subscription resolver for reorgs', () => {
+      expect(resolvers.Subscription.removedEvents).toBeDefined();
+      expect(resolvers.Subscription.removedEvents.subscribe).toBeTypeOf('function');
+    });
+
+    it('should only deliver events from the subscribed chain', async () => {
+      const iterator = (resolvers.Subscription.newEvents.subscribe as any)(
+        null,
+        { chainId: 763373 },
+        {},
+        {}
+      ) as AsyncIterator<any>;
+      const next = iterator.next();
+
+      const publish = mockSubscribe.mock.calls[0][0];
+      publish({ type: 'erc20-transfer', data: { chainId: 57073, transactionHash: '0xink' } });
+      publish({ type: 'erc20-transfer', data: { chainId: 763373, transactionHash: '0xsepolia' } });
+
+      const { value } = await next;
+      expect(value.newEvents.transactionHash).toBe('0xsepolia');
+      await iterator.return?.();
+    });
   });
 });
@@ -0,0 +1,160 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createPublicClient, HttpRequestError, RpcRequestError } from 'viem';
+import { RpcPool } from '../../src/indexer/rpc-pool.js';
+
+// One mock request function per endpoint URL
+const requests = vi.hoisted(() => new Map<string, ReturnType<typeof vi.fn>>());
+
+vi.mock('viem', async () => {
+  const actual = await vi.importActual<typeof import('viem')>('viem');
+  return {
+    ...actual,
+    http: (url: string) => () => {
+      const request = vi.fn();
+      requests.set(url, request);
+      return { request };
+    },
+  };
+});
+
+const A = 'https://a.example.com';
+const B = 'https://b.example.com';
+const C = 'https://c.example.com';
+
+function httpError(url: string) {
+  return new HttpRequestError({ url, status: 503, details: 'Service Unavailable' });
+}
+
+function blockByNumber(hash: string) {
+  return { hash };
+}
+
+describe('RpcPool', () => {
+  beforeEach(() => {
+    requests.clear();
+  });
+
+  describe('failover', () => {
+    it('should fail over to the next endpoint when one errors', async () => {
+      const pool = new RpcPool([A, B]);
+      requests.get(A)!.mockRejectedValue(httpError(A));
+      requests.get(B)!.mockResolvedValue('0x64');
+
+      const client = createPublicClient({ transport: pool.transport() });
+
+      expect(await client.getBlockNumber({ cacheTime: 0 })).toBe(100n);
+      const [a, b] = pool.getStats();
+      expect(a.errorCount).toBe(1);
+      expect(a.successRate).toBeLessThan(1);
+      expect(b.requestCount).toBe(1);
+    });
+
+    it('should bench an endpoint after repeated failures and skip it while benched', async () => {
+      const pool = new RpcPool([A, B], { maxFailures: 1 });
+      requests.get(A)!.mockRejectedValue(httpError(A));
+      requests.get(B)!.mockResolvedValue('0x64');
+      const client = createPublicClient({ transport: pool.transport('round-robin') });
+
+      await client.getBlockNumber({ cacheTime: 0 });
+      await client.getBlockNumber({ cacheTime: 0 });
+      await client.getBlockNumber({ cacheTime: 0 });
+
+      expect(requests.get(A)).toHaveBeenCalledTimes(1);
+      expect(requests.get(B)).toHaveBeenCalledTimes(3);
+      expect(pool.getStats()[0]).toMatchObject({ healthy: false, lastIssue: expect.any(String) });
+    });
+
+    it('should not fail over on provider range limit errors', async () => {
+      const pool = new RpcPool([A, B]);
+      requests.get(A)!.mockRejectedValue(
+        new RpcRequestError({
+          body: {},
+          url: A,
+          error: { code: -32602, message: 'block range is too large' },
+        })
+      );
+
+      const client = createPublicClient({ transport: pool.transport() });
+
+      await expect(client.getLogs({ fromBlock: 1n, toBlock: 100000n })).rejects.toThrow();
+      expect(requests.get(B)).not.toHaveBeenCalled();
+      expect(pool.getStats()[0].errorCount).toBe(0);
+    });
+    it('should fail over and bench a rate limited endpoint', async () => {
+      const pool = new RpcPool([A, B], { maxFailures: 1 });
+      requests.get(A)!.mockRejectedValue(
+        new HttpRequestError({ url: A, status: 429, details: 'rate limit exceeded' })
+      );
+      requests.get(B)!.mockResolvedValue([]);
+
+      const client = createPublicClient({ transport: pool.transport() });
+
+      expect(await client.getLogs({ fromBlock: 1n, toBlock: 100n })).toEqual([]);
+      expect(pool.getStats()[0]).toMatchObject({ healthy: false, errorCount: 1 });
+    });
+  });
+
+  describe('round-robin', () => {
+    it('should spread requests across endpoints', async () => {
+      const pool = new RpcPool([A, B, C]);
+      for (const url of [A, B, C]) {
+        requests.get(url)!.mockResolvedValue('0x64');
+      }
+      const client = createPublicClient({ transport: pool.transport('round-robin') });
+
+      for (let i = 0; i < 3; i++) {
+        await client.getBlockNumber({ cacheTime: 0 });
+      }
+
+      expect(requests.get(A)).toHaveBeenCalledTimes(1);
+      expect(requests.get(B)).toHaveBeenCalledTimes(1);
+      expect(requests.get(C)).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('checkConsistency', () => {
+    it('should bench an endpoint lagging behind the highest head', async () => {
+      const pool = new RpcPool([A, B, C], { maxLagBlocks: 5 });
+      requests.get(A)!.mockImplementation(async ({ method }) =>
+        method === 'eth_blockNumber' ? '0x64' : blockByNumber('0xaaa')
+      );
+      requests.get(B)!.mockImplementation(async ({ method }) =>
+        method === 'eth_blockNumber' ? '0x63' : blockByNumber('0xaaa')
+      );
+      requests.get(C)!.mockImplementation(async ({ method }) =>
+        method === 'eth_blockNumber' ? '0x32' : blockByNumber('0xaaa')
+      );
+
+      await pool.checkConsistency();
+
+      const stats = pool.getStats();
+      expect(stats.map((endpoint) => endpoint.healthy)).toEqual([true, true, false]);
+      expect(stats[2].lastIssue).toContain('Lagging 50 blocks');
+      expect(requests.get(A)).toHaveBeenCalledWith({
+        method: 'eth_getBlockByNumber',
+        params: ['0x63', false],
+      });
+    });
+
+    it('should bench an endpoint whose block hash disagrees with the majority', async () => {
+      const pool = new RpcPool([A, B, C]);
+      for (const [url, hash] of [[A, '0xaaa'], [B, '0xbbb'], [C, '0xaaa']]) {
+        requests.get(url)!.mockImplementation(async ({ method }) =>
+          method === 'eth_blockNumber' ? '0x64' : blockByNumber(hash)
+        );
+      }
+
+      await pool.checkConsistency();
+
+      const stats = pool.getStats();
+      expect(stats.map((endpoint) => endpoint.healthy)).toEqual([true, false, true]);
+      expect(stats[1].lastIssue).toContain('differs from majority 0xaaa');
+    });
+  });
+
+  it('should hide endpoint paths in stats', () => {
+    const pool = new RpcPool(['https://ink.example.com/v2/secret-key']);
+
+    expect(pool.getStats()[0].url).toBe('https://ink.example.com');
+  });
+});
@@ -1,38 +1,175 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Prisma } from '@prisma/client';
 import type { DecodedEvent } from '../../src/types/events.js';
 
 // Use vi.hoisted to create mock functions before vi.mock is hoisted
 const mocks = vi.hoisted(() => ({
   prismaTransaction: vi.fn(),
-  eventLogCreate: vi.fn(),
-  erc20TransferCreate: vi.fn(),
-  swapCreate: vi.fn(),
+  eventLogUpsert: vi.fn(),
+  erc20TransferUpsert: vi.fn(),
+  swapUpsert: vi.fn(),
+  swapFindUnique: vi.fn(),
+  erc20TransferFindUnique: vi.fn(),
+  activityBucketFindMany: vi.fn(),
+  activityBucketUpsert: vi.fn(),
+  activityBucketDeleteMany: vi.fn(),
+  activityParticipantUpsert: vi.fn(),
+  activityParticipantUpdate: vi.fn(),
+  activityParticipantDelete: vi.fn(),
+  chainStatsUpsert: vi.fn(),
+  chainStatsFindUnique: vi.fn(),
+  candleFindMany: vi.fn(),
+  candleUpsert: vi.fn(),
+  candleUpdate: vi.fn(),
+  candleDeleteMany: vi.fn(),
   erc20TransferFindMany: vi.fn(),
   swapFindMany: vi.fn(),
   eventLogCount: vi.fn(),
   erc20TransferCount: vi.fn(),
   swapCount: vi.fn(),
   eventLogFindFirst: vi.fn(),
+  eventLogFindUnique: vi.fn(),
+  checkpointUpsert: vi.fn(),
+  checkpointFindUnique: vi.fn(),
+  blockUpsert: vi.fn(),
+  blockFindFirst: vi.fn(),
+  eventLogDeleteMany: vi.fn(),
+  erc20TransferDeleteMany: vi.fn(),
+  swapDeleteMany: vi.fn(),
+  blockDeleteMany: vi.fn(),
+  erc20TransferUpdateMany: vi.fn(),
+  swapUpdateMany: vi.fn(),
+  approvalUpsert: vi.fn(),
+  approvalFindMany: vi.fn(),
+  approvalFindFirst: vi.fn(),
+  approvalDeleteMany: vi.fn(),
+  approvalUpdateMany: vi.fn(),
+  allowanceFindUnique: vi.fn(),
+  allowanceFindMany: vi.fn(),
+  allowanceUpsert: vi.fn(),
+  allowanceDeleteMany: vi.fn(),
+  liquidityEventUpsert: vi.fn(),
+  liquidityEventFindMany: vi.fn(),
+  liquidityEventDeleteMany: vi.fn(),
+  liquidityEventUpdateMany: vi.fn(),
+  poolStateFindUnique: vi.fn(),
+  poolStateFindMany: vi.fn(),
+  poolStateUpsert: vi.fn(),
+  poolStateDeleteMany: vi.fn(),
+  poolStateCreate: vi.fn(),
+  poolSnapshotFindUnique: vi.fn(),
+  poolSnapshotFindFirst: vi.fn(),
+  poolSnapshotUpsert: vi.fn(),
+  poolSnapshotDeleteMany: vi.fn(),
+  nftTransferUpsert: vi.fn(),
+  nftTransferFindMany: vi.fn(),
+  nftTransferDeleteMany: vi.fn(),
+  nftTransferUpdateMany: vi.fn(),
+  poolUpsert: vi.fn(),
+  poolFindUnique: vi.fn(),
+  poolFindMany: vi.fn(),
+  poolDeleteMany: vi.fn(),
+  genericEventUpsert: vi.fn(),
+  genericEventFindMany: vi.fn(),
+  genericEventDeleteMany: vi.fn(),
+  genericEventUpdateMany: vi.fn(),
+  backfillShardCreateMany: vi.fn(),
+  transactionUpsert: vi.fn(),
+  balanceFindUnique: vi.fn(),
+  balanceFindMany: vi.fn(),
+  balanceUpsert: vi.fn(),
+  balanceChangeFindUnique: vi.fn(),
+  balanceChangeFindMany: vi.fn(),
+  balanceChangeUpsert: vi.fn(),
+  balanceChangeDeleteMany: vi.fn(),
+  tokenStatsUpsert: vi.fn(),
+  tokenStatsFindUnique: vi.fn(),
+  transactionFindUnique: vi.fn(),
+  transactionFindMany: vi.fn(),
+  transactionDeleteMany: vi.fn(),
+  backfillShardFindMany: vi.fn(),
+  backfillShardUpdate: vi.fn(),
 }));
 
 vi.mock('../../src/lib/prisma.js', () => ({
   prisma: {
     $transaction: mocks.prismaTransaction,
     eventLog: {
-      create: mocks.eventLogCreate,
+      upsert: mocks.eventLogUpsert,
       count: mocks.eventLogCount,
       findFirst: mocks.eventLogFindFirst,
+      findUnique: mocks.eventLogFindUnique,
     },
     eRC20Transfer: {
-      create: mocks.erc20TransferCreate,
+      upsert: mocks.erc20TransferUpsert,
       findMany: mocks.erc20TransferFindMany,
       count: mocks.erc20TransferCount,
     },
     swap: {
-      create: mocks.swapCreate,
+      upsert: mocks.swapUpsert,
       findMany: mocks.swapFindMany,
       count: mocks.swapCount,
     },
+    approval: {
+      findMany: mocks.approvalFindMany,
+    },
+    allowance: {
+      findMany: mocks.allowanceFindMany,
+    },
+    nFTTransfer: {
+      findMany: mocks.nftTransferFindMany,
+    },
+    liquidityEvent: {
+      findMany: mocks.liquidityEventFindMany,
+    },
+    poolState: {
+      findUnique: mocks.poolStateFindUnique,
+    },
+    poolSnapshot: {
+      findFirst: mocks.poolSnapshotFindFirst,
+    },
+    pool: {
+      upsert: mocks.poolUpsert,
+      findUnique: mocks.poolFindUnique,
+      findMany: mocks.poolFindMany,
+    },
+    genericEvent: {
+      findMany: mocks.genericEventFindMany,
+    },
+    balance: {
+      findUnique: mocks.balanceFindUnique,
+      findMany: mocks.balanceFindMany,
+    },
+    balanceChange: {
+      findMany: mocks.balanceChangeFindMany,
+    },
+    tokenStats: {
+      findUnique: mocks.tokenStatsFindUnique,
+    },
+    candle: {
+      findMany: mocks.candleFindMany,
+    },
+    activityBucket: {
+      findMany: mocks.activityBucketFindMany,
+    },
+    chainStats: {
+      findUnique: mocks.chainStatsFindUnique,
+    },
+    transaction: {
+      findUnique: mocks.transactionFindUnique,
+      findMany: mocks.transactionFindMany,
+    },
+    indexerCheckpoint: {
+      upsert: mocks.checkpointUpsert,
+      findUnique: mocks.checkpointFindUnique,
+    },
+    block: {
+      findFirst: mocks.blockFindFirst,
+    },
+    backfillShard: {
+      findMany: mocks.backfillShardFindMany,
+      update: mocks.backfillShardUpdate,
+    },
   },
 }));
 
@@ -40,6 +177,12 @@ import { EventStorage } from '../../src/indexer/storage.js';
 
 const BLOCK_NUMBER = 18000100n;
 const BLOCK_TIMESTAMP = new Date('2024-01-15T12:00:00Z');
+const BLOCK = {
+  number: BLOCK_NUMBER,
+  hash: '0x00000000000000000000000000000000000000000000000000000000000000b2',
+  parentHash: '0x00000000000000000000000000000000000000000000000000000000000000b1',
+  timestamp: BLOCK_TIMESTAMP,
+};
 
 const mockTransferEvent: DecodedEvent = {
   type: 'erc20-transfer',
@@ -59,6 +202,7 @@ const mockSwapEvent: DecodedEvent = {
   type: 'swap',
   data: {
     poolAddress: '0xBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBB',
+    protocol: 'uniswap-v2',
     sender: '0x3333333333333333333333333333333333333333',
     recipient: '0x4444444444444444444444444444444444444444',
     amount0In: '1000000',
@@ -72,19 +216,164 @@ const mockSwapEvent: DecodedEvent = {
   },
 };
 
+const mockV3SwapEvent: DecodedEvent = {
+  type: 'swap',
+  data: {
+    ...mockSwapEvent.data,
+    protocol: 'uniswap-v3',
+    fee: 500,
+    amount0: '1000000',
+    amount1: '-500000',
+    sqrtPriceX96: (2n ** 96n).toString(),
+    liquidity: '5000000',
+    tick: 0,
+  },
+};
+
+const mockSyncEvent: DecodedEvent = {
+  type: 'liquidity',
+  data: {
+    poolAddress: '0xBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBB',
+    kind: 'sync',
+    sender: null,
+    owner: null,
+    recipient: null,
+    tickLower: null,
+    tickUpper: null,
+    liquidity: null,
+    amount0: '2000',
+    amount1: '3000',
+    transactionHash: '0x5555555555555555555555555555555555555555555555555555555555555555',
+    logIndex: 6,
+    blockNumber: BLOCK_NUMBER,
+    blockTimestamp: BLOCK_TIMESTAMP,
+  },
+};
+
+const mockApprovalEvent: DecodedEvent = {
+  type: 'approval',
+  data: {
+    tokenAddress: '0xAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA',
+    owner: '0x1111111111111111111111111111111111111111',
+    spender: '0x5555555555555555555555555555555555555555',
+    value: '1000',
+    transactionHash: '0x6666666666666666666666666666666666666666666666666666666666666666',
+    logIndex: 5,
+    blockNumber: BLOCK_NUMBER,
+    blockTimestamp: BLOCK_TIMESTAMP,
+  },
+};
+
+const TOKEN = '0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa';
+const HOLDER = '0x1111111111111111111111111111111111111111';
+const OTHER = '0x2222222222222222222222222222222222222222';
+
+const ALLOWANCE_KEY = {
+  chainId_tokenAddress_owner_spender: {
+    chainId: 57073,
+    tokenAddress: '0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa',
+    owner: '0x1111111111111111111111111111111111111111',
+    spender: '0x5555555555555555555555555555555555555555',
+  },
+};
+
+const mockNFTTransferEvent: DecodedEvent = {
+  type: 'nft-transfer',
+  data: {
+    standard: 'erc1155',
+    tokenAddress: '0xDDDDDDDDDDDDDDDDDDDDDDDDDDDDDDDDDDDDDDDD',
+    operator: '0x3333333333333333333333333333333333333333',
+    from: '0x1111111111111111111111111111111111111111',
+    to: '0x2222222222222222222222222222222222222222',
+    tokenIds: ['7', '8'],
+    amounts: ['10', '20'],
+    transactionHash: '0x7777777777777777777777777777777777777777777777777777777777777777',
+    logIndex: 4,
+    blockNumber: BLOCK_NUMBER,
+    blockTimestamp: BLOCK_TIMESTAMP,
+  },
+};
+
+const mockPoolCreatedEvent: DecodedEvent = {
+  type: 'pool-created',
+  data: {
+    factoryAddress: '0xffffffffffffffffffffffffffffffffffffffff',
+    poolAddress: '0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb',
+    token0: '0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa',
+    token1: '0xdddddddddddddddddddddddddddddddddddddddd',
+    fee: 3000,
+    tickSpacing: 60,
+    transactionHash: '0x8888888888888888888888888888888888888888888888888888888888888888',
+    logIndex: 2,
+    blockNumber: BLOCK_NUMBER,
+    blockTimestamp: BLOCK_TIMESTAMP,
+  },
+};
+
+const mockGenericEvent: DecodedEvent = {
+  type: 'generic',
+  data: {
+    address: '0xCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCC',
+    eventName: 'Deposit',
+    signature: 'Deposit(address,uint256)',
+    args: { user: '0x1111111111111111111111111111111111111111', amount: '5000' },
+    topics: ['0x' + 'd0'.repeat(32), '0x' + '11'.padStart(64, '0')],
+    data: '0x' + '88'.padStart(64, '0'),
+    transactionHash: '0x9999999999999999999999999999999999999999999999999999999999999999',
+    logIndex: 3,
+    blockNumber: BLOCK_NUMBER,
+    blockTimestamp: BLOCK_TIMESTAMP,
+  },
+};
+
 describe('EventStorage', () => {
   let storage: EventStorage;
 
   beforeEach(() => {
     vi.clearAllMocks();
-    storage = new EventStorage();
+    storage = new EventStorage(57073);
+    mocks.approvalFindMany.mockResolvedValue([]);
+    mocks.allowanceFindMany.mockResolvedValue([]);
+    mocks.nftTransferFindMany.mockResolvedValue([]);
+    mocks.liquidityEventFindMany.mockResolvedValue([]);
+    mocks.poolStateFindMany.mockResolvedValue([]);
+    mocks.genericEventFindMany.mockResolvedValue([]);
+    mocks.eventLogUpsert.mockResolvedValue({ id: 'log-1' });
+    mocks.balanceChangeFindMany.mockResolvedValue([]);
+    mocks.eventLogCount.mockResolvedValue(0);
+    mocks.activityParticipantUpsert.mockResolvedValue({ eventCount: 1 });
+    mocks.balanceUpsert.mockImplementation(async ({ create }: any) => ({ value: create.value }));
+    mocks.candleUpsert.mockImplementation(async ({ create }: any) => create);
+    mocks.activityBucketUpsert.mockImplementation(async ({ create }: any) => create);
 
     // Default: transaction executes the callback immediately
     mocks.prismaTransaction.mockImplementation(async (callback: any) => {
       const tx = {
-        eventLog: { create: mocks.eventLogCreate },
-        eRC20Transfer: { create: mocks.erc20TransferCreate },
-        swap: { create: mocks.swapCreate },
+        eventLog: { upsert: mocks.eventLogUpsert, count: mocks.eventLogCount },
+        eRC20Transfer: { findUnique: mocks.erc20TransferFindUnique, upsert: mocks.erc20TransferUpsert },
+        swap: { findUnique: mocks.swapFindUnique, upsert: mocks.swapUpsert },
+        candle: { upsert: mocks.candleUpsert, update: mocks.candleUpdate },
+        approval: { upsert: mocks.approvalUpsert },
+        allowance: { findUnique: mocks.allowanceFindUnique, upsert: mocks.allowanceUpsert },
+        nFTTransfer: { upsert: mocks.nftTransferUpsert },
+        liquidityEvent: { upsert: mocks.liquidityEventUpsert },
+        poolState: { findUnique: mocks.poolStateFindUnique, upsert: mocks.poolStateUpsert },
+        poolSnapshot: { findUnique: mocks.poolSnapshotFindUnique, upsert: mocks.poolSnapshotUpsert },
+        pool: { upsert: mocks.poolUpsert },
+        genericEvent: { upsert: mocks.genericEventUpsert },
+        transaction: { upsert: mocks.transactionUpsert },
+        balance: { findUnique: mocks.balanceFindUnique, upsert: mocks.balanceUpsert },
+        balanceChange: { findUnique: mocks.balanceChangeFindUnique, upsert: mocks.balanceChangeUpsert },
+        tokenStats: { upsert: mocks.tokenStatsUpsert },
+        activityBucket: {
+          upsert: mocks.activityBucketUpsert,
+          deleteMany: mocks.activityBucketDeleteMany,
+        },
+        activityParticipant: { upsert: mocks.activityParticipantUpsert },
+        chainStats: { upsert: mocks.chainStatsUpsert },
+        indexerCheckpoint: { upsert: mocks.checkpointUpsert },
+        block: { upsert: mocks.blockUpsert, deleteMany: mocks.blockDeleteMany },
+        backfillShard: { createMany: mocks.backfillShardCreateMany },
       };
       return callback(tx);
     });
@@ -92,53 +381,72 @@ describe('EventStorage', () => {
 
   describe('saveBlockEvents', () => {
     it('should save ERC-20 transfer events atomically', async () => {
-      mocks.eventLogCreate.mockResolvedValue({});
-      mocks.erc20TransferCreate.mockResolvedValue({});
+      mocks.erc20TransferUpsert.mockResolvedValue({});
 
-      await storage.saveBlockEvents(BLOCK_NUMBER, BLOCK_TIMESTAMP, [mockTransferEvent]);
+      await storage.saveBlockEvents(BLOCK, [mockTransferEvent]);
 
       expect(mocks.prismaTransaction).toHaveBeenCalledTimes(1);
-      expect(mocks.eventLogCreate).toHaveBeenCalledTimes(1);
-      expect(mocks.erc20TransferCreate).toHaveBeenCalledTimes(1);
+      expect(mocks.eventLogUpsert).toHaveBeenCalledTimes(1);
+      expect(mocks.erc20TransferUpsert).toHaveBeenCalledTimes(1);
 
-      const eventLogCall = mocks.eventLogCreate.mock.calls[0][0];
-      expect(eventLogCall.data.blockNumber).toBe(BLOCK_NUMBER);
-      expect(eventLogCall.data.transactionHash).toBe(mockTransferEvent.data.transactionHash);
+      const eventLogCall = mocks.eventLogUpsert.mock.calls[0][0];
+      expect(eventLogCall.create.blockNumber).toBe(BLOCK_NUMBER);
+      expect(eventLogCall.create.transactionHash).toBe(mockTransferEvent.data.transactionHash);
     });
 
     it('should save swap events atomically', async () => {
-      mocks.eventLogCreate.mockResolvedValue({});
-      mocks.swapCreate.mockResolvedValue({});
+      mocks.swapUpsert.mockResolvedValue({});
 
-      await storage.saveBlockEvents(BLOCK_NUMBER, BLOCK_TIMESTAMP, [mockSwapEvent]);
+      await storage.saveBlockEvents(BLOCK, [mockSwapEvent]);
 
       expect(mocks.prismaTransaction).toHaveBeenCalledTimes(1);
-      expect(mocks.eventLogCreate).toHaveBeenCalledTimes(1);
-      expect(mocks.swapCreate).toHaveBeenCalledTimes(1);
+      expect(mocks.eventLogUpsert).toHaveBeenCalledTimes(1);
+      expect(mocks.swapUpsert).toHaveBeenCalledTimes(1);
+
+      const swapCall = mocks.swapUpsert.mock.calls[0][0];
+      expect(swapCall.create.poolAddress).toBe('0xBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBB');
+      expect(swapCall.create.amount0In).toBe('1000000');
+      expect(swapCall.create).toMatchObject({ volume0: '1000000', volume1: '500000' });
+      expect(swapCall.create.status).toBe('confirmed');
+    });
+
+    it('should store pending events with their status', async () => {
+      const pendingTransfer: DecodedEvent = {
+        type: 'erc20-transfer',
+        data: { ...mockTransferEvent.data, status: 'pending' },
+      };
+
+      await storage.saveBlockEvents(BLOCK, [pendingTransfer]);
 
-      const swapCall = mocks.swapCreate.mock.calls[0][0];
-      expect(swapCall.data.poolAddress).toBe('0xBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBB');
-      expect(swapCall.data.amount0In).toBe('1000000');
+      expect(mocks.erc20TransferUpsert.mock.calls[0][0].create.status).toBe('pending');
+    });
+
+    it('should leave the checkpoint alone for backfilled blocks', async () => {
+      await storage.saveBlockEvents(BLOCK, [mockTransferEvent], { updateCheckpoint: false });
+
+      expect(mocks.blockUpsert).toHaveBeenCalledTimes(1);
+      expect(mocks.erc20TransferUpsert).toHaveBeenCalledTimes(1);
+      expect(mocks.checkpointUpsert).not.toHaveBeenCalled();
     });
 
     it('should save mixed events in a single transaction', async () => {
-      mocks.eventLogCreate.mockResolvedValue({});
-      mocks.erc20TransferCreate.mockResolvedValue({});
-      mocks.swapCreate.mockResolvedValue({});
+      mocks.eventLogUpsert.mockResolvedValue({});
+      mocks.erc20TransferUpsert.mockResolvedValue({});
+      mocks.swapUpsert.mockResolvedValue({});
 
-      await storage.saveBlockEvents(BLOCK_NUMBER, BLOCK_TIMESTAMP, [
+      await storage.saveBlockEvents(BLOCK, [
         mockTransferEvent,
         mockSwapEvent,
       ]);
 
       expect(mocks.prismaTransaction).toHaveBeenCalledTimes(1);
-      expect(mocks.eventLogCreate).toHaveBeenCalledTimes(2);
-      expect(mocks.erc20TransferCreate).toHaveBeenCalledTimes(1);
-      expect(mocks.swapCreate).toHaveBeenCalledTimes(1);
+      expect(mocks.eventLogUpsert).toHaveBeenCalledTimes(2);
+      expect(mocks.erc20TransferUpsert).toHaveBeenCalledTimes(1);
+      expect(mocks.swapUpsert).toHaveBeenCalledTimes(1);
     });
 
     it('should handle unknown events (only EventLog, no typed table)', async () => {
-      mocks.eventLogCreate.mockResolvedValue({});
+      mocks.eventLogUpsert.mockResolvedValue({});
 
       const unknownEvent: DecodedEvent = {
         type: 'unknown',
@@ -155,25 +463,284 @@ describe('EventStorage', () => {
         },
       };
 
-      await storage.saveBlockEvents(BLOCK_NUMBER, BLOCK_TIMESTAMP, [unknownEvent]);
+      await storage.saveBlockEvents(BLOCK, [unknownEvent]);
+
+      expect(mocks.eventLogUpsert).toHaveBeenCalledTimes(1);
+      expect(mocks.erc20TransferUpsert).not.toHaveBeenCalled();
+      expect(mocks.swapUpsert).not.toHaveBeenCalled();
+    });
+
+    it('should save approvals and set the allowance they grant', async () => {
+      mocks.allowanceFindUnique.mockResolvedValue(null);
+
+      await storage.saveBlockEvents(BLOCK, [mockApprovalEvent]);
+
+      expect(mocks.approvalUpsert.mock.calls[0][0].create).toMatchObject({ chainId: 57073, value: '1000' });
+      expect(mocks.allowanceUpsert).toHaveBeenCalledWith({
+        where: ALLOWANCE_KEY,
+        create: expect.objectContaining({ value: '1000', blockNumber: BLOCK_NUMBER, logIndex: 5 }),
+        update: expect.objectContaining({ value: '1000', blockNumber: BLOCK_NUMBER, logIndex: 5 }),
+      });
+    });
+
+    it('should store approval addresses lowercase', async () => {
+      mocks.allowanceFindUnique.mockResolvedValue(null);
+      const checksummed: DecodedEvent = {
+        type: 'approval',
+        data: {
+          ...mockApprovalEvent.data,
+          owner: '0xAbCdEf0000000000000000000000000000000001',
+          spender: '0x00000000000000000000000000000000DeaDBeef',
+        },
+      };
+
+      await storage.saveBlockEvents(BLOCK, [checksummed]);
+
+      expect(mocks.approvalUpsert.mock.calls[0][0].create).toMatchObject({
+        tokenAddress: '0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa',
+        owner: '0xabcdef0000000000000000000000000000000001',
+        spender: '0x00000000000000000000000000000000deadbeef',
+      });
+      expect(mocks.allowanceUpsert.mock.calls[0][0].where.chainId_tokenAddress_owner_spender).toEqual({
+        chainId: 57073,
+        tokenAddress: '0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa',
+        owner: '0xabcdef0000000000000000000000000000000001',
+        spender: '0x00000000000000000000000000000000deadbeef',
+      });
+    });
+
+    it('should not let an older (backfilled) approval overwrite a newer allowance', async () => {
+      mocks.allowanceFindUnique.mockResolvedValue({ blockNumber: BLOCK_NUMBER + 1n, logIndex: 0, value: '0' });
+
+      await storage.saveBlockEvents(BLOCK, [mockApprovalEvent], { updateCheckpoint: false });
+
+      expect(mocks.approvalUpsert).toHaveBeenCalledTimes(1);
+      expect(mocks.allowanceUpsert).not.toHaveBeenCalled();
+    });
+
+    it('should persist V3 price fields and move the pool state and block snapshot', async () => {
+      mocks.poolStateFindUnique.mockResolvedValue(null);
+      mocks.poolSnapshotFindUnique.mockResolvedValue(null);
+
+      await storage.saveBlockEvents(BLOCK, [mockV3SwapEvent]);
+
+      expect(mocks.swapUpsert.mock.calls[0][0].create).toMatchObject({
+        protocol: 'uniswap-v3',
+        fee: 500,
+        amount0: '1000000',
+        amount1: '-500000',
+        sqrtPriceX96: (2n ** 96n).toString(),
+        liquidity: '5000000',
+        tick: 0,
+      });
+      expect(mocks.poolSnapshotUpsert.mock.calls[0][0].where).toEqual({
+        chainId_poolAddress_blockNumber: {
+          chainId: 57073,
+          poolAddress: '0xBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBB',
+          blockNumber: BLOCK_NUMBER,
+        },
+      });
+      expect(mocks.poolStateUpsert.mock.calls[0][0].create).toMatchObject({
+        sqrtPriceX96: (2n ** 96n).toString(),
+        tick: 0,
+        reserve0: null,
+        blockNumber: BLOCK_NUMBER,
+        logIndex: 1,
+      });
+    });
+
+    it('should move the pool only to the block\'s last V3 swap in it', async () => {
+      mocks.poolStateFindUnique.mockResolvedValue(null);
+      mocks.poolSnapshotFindUnique.mockResolvedValue(null);
+      const later: DecodedEvent = {
+        type: 'swap',
+        data: { ...mockV3SwapEvent.data, logIndex: 8, tick: 10 },
+      };
+
+      await storage.saveBlockEvents(BLOCK, [later, mockV3SwapEvent]);
+
+      expect(mocks.poolStateUpsert).toHaveBeenCalledTimes(1);
+      expect(mocks.poolStateUpsert.mock.calls[0][0].create).toMatchObject({ tick: 10, logIndex: 8 });
+      expect(mocks.poolSnapshotUpsert).toHaveBeenCalledTimes(1);
+    });
+
+    it('should track V2 reserves from Sync and leave pool state alone for V2 swaps', async () => {
+      mocks.poolStateFindUnique.mockResolvedValue(null);
+      mocks.poolSnapshotFindUnique.mockResolvedValue(null);
 
-      expect(mocks.eventLogCreate).toHaveBeenCalledTimes(1);
-      expect(mocks.erc20TransferCreate).not.toHaveBeenCalled();
-      expect(mocks.swapCreate).not.toHaveBeenCalled();
+      await storage.saveBlockEvents(BLOCK, [mockSwapEvent, mockSyncEvent]);
+
+      expect(mocks.liquidityEventUpsert.mock.calls[0][0].create).toMatchObject({ kind: 'sync' });
+      expect(mocks.poolStateUpsert).toHaveBeenCalledTimes(1);
+      expect(mocks.poolStateUpsert.mock.calls[0][0].create).toMatchObject({
+        reserve0: '2000',
+        reserve1: '3000',
+        sqrtPriceX96: null,
+      });
+    });
+
+    it('should not move pool state back for an older backfilled event', async () => {
+      mocks.poolStateFindUnique.mockResolvedValue({ blockNumber: BLOCK_NUMBER + 10n, logIndex: 0 });
+      mocks.poolSnapshotFindUnique.mockResolvedValue(null);
+
+      await storage.saveBlockEvents(BLOCK, [mockSyncEvent], { updateCheckpoint: false });
+
+      expect(mocks.poolSnapshotUpsert).toHaveBeenCalledTimes(1);
+      expect(mocks.poolStateUpsert).not.toHaveBeenCalled();
+    });
+
+    it('should save NFT transfers with every token id in one row and lowercase addresses', async () => {
+      await storage.saveBlockEvents(BLOCK, [mockNFTTransferEvent]);
+
+      expect(mocks.eventLogUpsert).toHaveBeenCalledTimes(1);
+      expect(mocks.erc20TransferUpsert).not.toHaveBeenCalled();
+      expect(mocks.nftTransferUpsert.mock.calls[0][0].create).toMatchObject({
+        chainId: 57073,
+        standard: 'erc1155',
+        tokenAddress: '0xdddddddddddddddddddddddddddddddddddddddd',
+        tokenIds: ['7', '8'],
+        amounts: ['10', '20'],
+        status: 'confirmed',
+      });
+    });
+
+    it('should save pools from factory events, replacing a row read from the contract', async () => {
+      await storage.saveBlockEvents(BLOCK, [mockPoolCreatedEvent]);
+
+      expect(mocks.eventLogUpsert.mock.calls[0][0].create.address).toBe(
+        '0xffffffffffffffffffffffffffffffffffffffff'
+      );
+      const row = {
+        chainId: 57073,
+        address: '0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb',
+        token0: '0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa',
+        token1: '0xdddddddddddddddddddddddddddddddddddddddd',
+        fee: 3000,
+        tickSpacing: 60,
+        factoryAddress: '0xffffffffffffffffffffffffffffffffffffffff',
+        blockNumber: BLOCK_NUMBER,
+        transactionHash: '0x8888888888888888888888888888888888888888888888888888888888888888',
+      };
+      expect(mocks.poolUpsert).toHaveBeenCalledWith({
+        where: { chainId_address: { chainId: 57073, address: row.address } },
+        create: row,
+        update: row,
+      });
+    });
+
+    it('should save registry-decoded events with their raw topics and data', async () => {
+      await storage.saveBlockEvents(BLOCK, [mockGenericEvent]);
+
+      const eventLogCall = mocks.eventLogUpsert.mock.calls[0][0];
+      expect(eventLogCall.create.topics).toEqual(mockGenericEvent.data.topics);
+      expect(eventLogCall.create.data).toBe(mockGenericEvent.data.data);
+      const genericCall = mocks.genericEventUpsert.mock.calls[0][0];
+      expect(genericCall.create).toMatchObject({
+        chainId: 57073,
+        eventName: 'Deposit',
+        signature: 'Deposit(address,uint256)',
+        args: { user: '0x1111111111111111111111111111111111111111', amount: '5000' },
+        status: 'confirmed',
+      });
+      expect(genericCall.create).not.toHaveProperty('topics');
+    });
+
+    it('should keep the raw log of typed events and link the typed row to it', async () => {
+      const topics = ['0x' + 'dd'.repeat(32), '0x' + '11'.padStart(64, '0'), '0x' + '22'.padStart(64, '0')];
+      const data = '0x' + '0de0b6b3a7640000'.padStart(64, '0');
+      mocks.eventLogUpsert.mockResolvedValue({ id: 'log-7' });
+
+      await storage.saveBlockEvents(BLOCK, [
+        { ...mockTransferEvent, data: { ...mockTransferEvent.data, topics, data } } as DecodedEvent,
+      ]);
+
+      const eventLogCall = mocks.eventLogUpsert.mock.calls[0][0];
+      expect(eventLogCall.create).toMatchObject({ topics, data });
+      expect(eventLogCall.select).toEqual({ id: true });
+      const transferCall = mocks.erc20TransferUpsert.mock.calls[0][0];
+      expect(transferCall.create.eventLogId).toBe('log-7');
+      expect(transferCall.create).not.toHaveProperty('topics');
+    });
+
+    it('should save the transactions that emitted the block\'s events', async () => {
+      const transaction = {
+        hash: mockTransferEvent.data.transactionHash,
+        blockNumber: BLOCK_NUMBER,
+        from: '0x5555555555555555555555555555555555555555',
+        to: '0x6666666666666666666666666666666666666666',
+        selector: '0x38ed1739',
+        gasUsed: '152000',
+        effectiveGasPrice: '1000000',
+        status: 'success' as const,
+      };
+
+      await storage.saveBlockEvents(BLOCK, [mockTransferEvent], { transactions: [transaction] });
+
+      expect(mocks.transactionUpsert).toHaveBeenCalledWith({
+        where: { chainId_hash: { chainId: 57073, hash: transaction.hash } },
+        create: { ...transaction, chainId: 57073 },
+        update: { ...transaction, chainId: 57073 },
+      });
     });
 
     it('should handle empty events array', async () => {
-      await storage.saveBlockEvents(BLOCK_NUMBER, BLOCK_TIMESTAMP, []);
+      await storage.saveBlockEvents(BLOCK, []);
 
       expect(mocks.prismaTransaction).toHaveBeenCalledTimes(1);
-      expect(mocks.eventLogCreate).not.toHaveBeenCalled();
+      expect(mocks.eventLogUpsert).not.toHaveBeenCalled();
+    });
+
+    it('should upsert on (chainId, transactionHash, logIndex) so replays do not duplicate rows', async () => {
+      await storage.saveBlockEvents(BLOCK, [mockTransferEvent]);
+      await storage.saveBlockEvents(BLOCK, [mockTransferEvent]);
+
+      const key = {
+        chainId_transactionHash_logIndex: {
+          chainId: 57073,
+          transactionHash: mockTransferEvent.data.transactionHash,
+          logIndex: 0,
+        },
+      };
+      expect(mocks.eventLogUpsert).toHaveBeenCalledTimes(2);
+      expect(mocks.eventLogUpsert.mock.calls[1][0].where).toEqual(key);
+      expect(mocks.erc20TransferUpsert.mock.calls[1][0].where).toEqual(key);
+      expect(mocks.erc20TransferUpsert.mock.calls[1][0].update).toEqual(
+        mocks.erc20TransferUpsert.mock.calls[1][0].create
+      );
+    });
+
+    it('should store the block hash and parent hash', async () => {
+      await storage.saveBlockEvents(BLOCK, []);
+
+      expect(mocks.blockUpsert).toHaveBeenCalledTimes(1);
+      const blockCall = mocks.blockUpsert.mock.calls[0][0];
+      expect(blockCall.where).toEqual({ chainId_number: { chainId: 57073, number: BLOCK_NUMBER } });
+      expect(blockCall.create).toEqual({
+        chainId: 57073,
+        number: BLOCK_NUMBER,
+        hash: BLOCK.hash,
+        parentHash: BLOCK.parentHash,
+        timestamp: BLOCK_TIMESTAMP,
+      });
+    });
+
+    it('should advance the checkpoint in the same transaction', async () => {
+      mocks.eventLogUpsert.mockResolvedValue({});
+      mocks.erc20TransferUpsert.mockResolvedValue({});
+
+      await storage.saveBlockEvents(BLOCK, [mockTransferEvent]);
+
+      expect(mocks.checkpointUpsert).toHaveBeenCalledTimes(1);
+      const checkpointCall = mocks.checkpointUpsert.mock.calls[0][0];
+      expect(checkpointCall.create.blockNumber).toBe(BLOCK_NUMBER);
+      expect(checkpointCall.update.blockNumber).toBe(BLOCK_NUMBER);
     });
 
     it('should throw when transaction fails', async () => {
       mocks.prismaTransaction.mockRejectedValue(new Error('DB write failed'));
 
       await expect(
-        storage.saveBlockEvents(BLOCK_NUMBER, BLOCK_TIMESTAMP, [mockTransferEvent])
+        storage.saveBlockEvents(BLOCK, [mockTransferEvent])
       ).rejects.toThrow('DB write failed');
     });
   });
@@ -273,6 +840,186 @@ describe('EventStorage', () => {
       expect(results[2].blockNumber).toBe('18000050');
     });
 
+    it('should list outstanding allowances and flag unlimited ones', async () => {
+      mocks.allowanceFindMany.mockResolvedValue([
+        { owner: '0x111', value: (2n ** 256n - 1n).toString(), blockNumber: 10n },
+        { owner: '0x111', value: '500', blockNumber: 9n },
+      ]);
+
+      const results = await storage.getAllowances('0xABC', { tokenAddress: '0xAAA' });
+
+      expect(mocks.allowanceFindMany).toHaveBeenCalledWith({
+        where: {
+          chainId: 57073,
+          owner: '0xabc',
+          tokenAddress: '0xaaa',
+          spender: undefined,
+          value: { not: '0' },
+        },
+        take: 50,
+        orderBy: { blockNumber: 'desc' },
+      });
+      expect(results.map((row) => row.unlimited)).toEqual([true, false]);
+      expect(results[0].blockNumber).toBe('10');
+    });
+
+    it('should answer pool state at a block from the latest snapshot at or below it', async () => {
+      mocks.poolSnapshotFindFirst.mockResolvedValue({
+        poolAddress: '0xBBB',
+        blockNumber: 18000080n,
+        blockTimestamp: BLOCK_TIMESTAMP,
+        reserve0: null,
+        reserve1: null,
+        sqrtPriceX96: (2n ** 97n).toString(),
+        tick: 13863,
+        liquidity: '100',
+      });
+
+      const state = await storage.getPoolState('0xBBB', 18000090n);
+
+      expect(mocks.poolSnapshotFindFirst).toHaveBeenCalledWith({
+        where: { chainId: 57073, poolAddress: '0xbbb', blockNumber: { lte: 18000090n } },
+        orderBy: { blockNumber: 'desc' },
+      });
+      expect(state.blockNumber).toBe('18000080');
+      expect(state.price).toBe(4);
+    });
+
+    it('should derive the V2 price from reserves', async () => {
+      mocks.poolStateFindUnique.mockResolvedValue({
+        poolAddress: '0xBBB',
+        blockNumber: 1n,
+        reserve0: '2000',
+        reserve1: '3000',
+        sqrtPriceX96: null,
+      });
+
+      expect((await storage.getPoolState('0xBBB')).price).toBe(1.5);
+      expect(mocks.poolStateFindUnique).toHaveBeenCalledWith({
+        where: { chainId_poolAddress: { chainId: 57073, poolAddress: '0xbbb' } },
+      });
+    });
+
+    it('should lowercase the pool address when filtering liquidity events', async () => {
+      await storage.getLiquidityEvents({ poolAddress: '0xBBB', kind: 'mint' }, 5);
+
+      expect(mocks.liquidityEventFindMany).toHaveBeenCalledWith({
+        where: { chainId: 57073, poolAddress: '0xbbb', kind: 'mint' },
+        take: 5,
+        orderBy: { blockNumber: 'desc' },
+      });
+    });
+
+    it('should filter NFT transfers by token id and owner', async () => {
+      await storage.getNFTTransfers({ tokenAddress: '0xAAA', tokenId: '7', owner: '0xABC' }, 5);
+
+      expect(mocks.nftTransferFindMany).toHaveBeenCalledWith({
+        where: {
+          chainId: 57073,
+          tokenAddress: '0xaaa',
+          tokenIds: { has: '7' },
+          OR: [{ from: '0xabc' }, { to: '0xabc' }],
+        },
+        take: 5,
+        orderBy: { blockNumber: 'desc' },
+      });
+    });
+
+    it('should match generic events on every given argument', async () => {
+      await storage.getGenericEvents({ eventName: 'Deposit', args: { user: '0x111', amount: '5000' } }, 5);
+
+      expect(mocks.genericEventFindMany).toHaveBeenCalledWith({
+        where: {
+          chainId: 57073,
+          eventName: 'Deposit',
+          address: undefined,
+          AND: [
+            { args: { path: ['user'], equals: '0x111' } },
+            { args: { path: ['amount'], equals: '5000' } },
+          ],
+        },
+        take: 5,
+        orderBy: { blockNumber: 'desc' },
+      });
+    });
+
+    it('should keep an existing pool row when saving one read from the contract', async () => {
+      await storage.savePool({
+        address: '0xBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBB',
+        token0: '0xaaa',
+        token1: '0xddd',
+        fee: null,
+        factoryAddress: null,
+      });
+
+      expect(mocks.poolUpsert).toHaveBeenCalledWith({
+        where: {
+          chainId_address: { chainId: 57073, address: '0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb' },
+        },
+        create: {
+          chainId: 57073,
+          address: '0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb',
+          token0: '0xaaa',
+          token1: '0xddd',
+          fee: null,
+          factoryAddress: null,
+        },
+        update: {},
+      });
+    });
+
+    it('should look pools up by lowercase address and list them by token', async () => {
+      mocks.poolFindUnique.mockResolvedValue({ address: '0xbbb', blockNumber: null, createdAt: BLOCK_TIMESTAMP });
+      mocks.poolFindMany.mockResolvedValue([]);
+
+      expect(await storage.getPool('0xBBB')).toEqual({
+        address: '0xbbb',
+        blockNumber: null,
+        createdAt: BLOCK_TIMESTAMP.toISOString(),
+      });
+      expect(mocks.poolFindUnique.mock.calls[0][0].where).toEqual({
+        chainId_address: { chainId: 57073, address: '0xbbb' },
+      });
+
+      await storage.getPools({ token: '0xAAA' }, 5);
+      expect(mocks.poolFindMany).toHaveBeenCalledWith({
+        where: { chainId: 57073, OR: [{ token0: '0xaaa' }, { token1: '0xaaa' }] },
+        take: 5,
+        orderBy: { createdAt: 'desc' },
+      });
+    });
+
+    it('should look raw logs up by id, or by position for events without one', async () => {
+      mocks.eventLogFindUnique.mockResolvedValue({ id: 'log-1', blockNumber: BLOCK_NUMBER, topics: [] });
+
+      expect(await storage.getEventLog({ eventLogId: 'log-1', transactionHash: '0xabc', logIndex: 2 })).toEqual({
+        id: 'log-1',
+        blockNumber: BLOCK_NUMBER.toString(),
+        topics: [],
+      });
+      expect(mocks.eventLogFindUnique).toHaveBeenCalledWith({ where: { id: 'log-1' } });
+
+      await storage.getEventLog({ transactionHash: '0xabc', logIndex: 2 });
+      expect(mocks.eventLogFindUnique).toHaveBeenLastCalledWith({
+        where: {
+          chainId_transactionHash_logIndex: { chainId: 57073, transactionHash: '0xabc', logIndex: 2 },
+        },
+      });
+    });
+
+    it('should look transactions up by lowercase hash', async () => {
+      mocks.transactionFindUnique.mockResolvedValue({ hash: '0xabc', blockNumber: BLOCK_NUMBER, status: 'success' });
+
+      expect(await storage.getTransaction('0xABC')).toEqual({
+        hash: '0xabc',
+        blockNumber: BLOCK_NUMBER.toString(),
+        status: 'success',
+      });
+      expect(mocks.transactionFindUnique).toHaveBeenCalledWith({
+        where: { chainId_hash: { chainId: 57073, hash: '0xabc' } },
+      });
+    });
+
     it('should filter transfers by address', async () => {
       mocks.erc20TransferFindMany.mockResolvedValue([]);
 
@@ -280,6 +1027,7 @@ describe('EventStorage', () => {
 
       expect(mocks.erc20TransferFindMany).toHaveBeenCalledWith({
         where: {
+          chainId: 57073,
           OR: [{ from: '0x1234' }, { to: '0x1234' }],
         },
         take: 20,
@@ -287,24 +1035,859 @@ describe('EventStorage', () => {
       });
     });
 
+    it('should write amounts out in full rather than in exponent notation', async () => {
+      mocks.erc20TransferFindMany.mockResolvedValue([
+        { id: 'test-1', blockNumber: 18000100n, value: new Prisma.Decimal((2n ** 255n).toString()) },
+      ]);
+
+      const [transfer] = await storage.getRecentTransfers(10);
+
+      expect(transfer.value).toBe((2n ** 255n).toString());
+    });
+
+    it('should bound and sort transfers by value', async () => {
+      mocks.erc20TransferFindMany.mockResolvedValue([]);
+
+      await storage.getTransfersByAddress('0x1234', 20, { value: { min: '1000' }, orderBy: 'largest' });
+
+      expect(mocks.erc20TransferFindMany).toHaveBeenCalledWith({
+        where: {
+          chainId: 57073,
+          OR: [{ from: '0x1234' }, { to: '0x1234' }],
+          value: { gte: '1000', lte: undefined },
+        },
+        take: 20,
+        orderBy: [{ value: 'desc' }, { blockNumber: 'desc' }],
+      });
+    });
+
+    it('should bound and sort swaps by token volume', async () => {
+      mocks.swapFindMany.mockResolvedValue([]);
+
+      await storage.getRecentSwaps(10, undefined, {
+        volume0: { min: '10', max: '20' },
+        orderBy: 'volume1-asc',
+      });
+
+      expect(mocks.swapFindMany).toHaveBeenCalledWith({
+        where: { chainId: 57073, protocol: undefined, volume0: { gte: '10', lte: '20' } },
+        take: 10,
+        orderBy: [{ volume1: 'asc' }, { blockNumber: 'desc' }],
+      });
+    });
+
     it('should filter swaps by pool address', async () => {
       mocks.swapFindMany.mockResolvedValue([]);
 
       await storage.getSwapsByPool('0xPoolAddress', 30);
 
       expect(mocks.swapFindMany).toHaveBeenCalledWith({
-        where: { poolAddress: '0xPoolAddress' },
+        where: { chainId: 57073, poolAddress: '0xPoolAddress' },
         take: 30,
         orderBy: { blockNumber: 'desc' },
       });
     });
   });
 
+  describe('rollbackToBlock', () => {
+    beforeEach(() => {
+      mocks.eventLogDeleteMany.mockResolvedValue({ count: 0 });
+      mocks.activityParticipantUpdate.mockResolvedValue({ eventCount: 1 });
+      mocks.prismaTransaction.mockImplementation(async (callback: any) => {
+        const tx = {
+          eventLog: { deleteMany: mocks.eventLogDeleteMany },
+          eRC20Transfer: { findMany: mocks.erc20TransferFindMany, deleteMany: mocks.erc20TransferDeleteMany },
+          swap: { findMany: mocks.swapFindMany, deleteMany: mocks.swapDeleteMany },
+          candle: {
+            upsert: mocks.candleUpsert,
+            update: mocks.candleUpdate,
+            deleteMany: mocks.candleDeleteMany,
+          },
+          approval: {
+            findMany: mocks.approvalFindMany,
+            findFirst: mocks.approvalFindFirst,
+            deleteMany: mocks.approvalDeleteMany,
+          },
+          allowance: {
+            findMany: mocks.allowanceFindMany,
+            findUnique: mocks.allowanceFindUnique,
+            upsert: mocks.allowanceUpsert,
+            deleteMany: mocks.allowanceDeleteMany,
+          },
+          nFTTransfer: { findMany: mocks.nftTransferFindMany, deleteMany: mocks.nftTransferDeleteMany },
+          liquidityEvent: {
+            findMany: mocks.liquidityEventFindMany,
+            deleteMany: mocks.liquidityEventDeleteMany,
+          },
+          poolState: {
+            findMany: mocks.poolStateFindMany,
+            deleteMany: mocks.poolStateDeleteMany,
+            create: mocks.poolStateCreate,
+          },
+          poolSnapshot: {
+            findFirst: mocks.poolSnapshotFindFirst,
+            deleteMany: mocks.poolSnapshotDeleteMany,
+          },
+          pool: { deleteMany: mocks.poolDeleteMany },
+          genericEvent: { findMany: mocks.genericEventFindMany, deleteMany: mocks.genericEventDeleteMany },
+          transaction: { deleteMany: mocks.transactionDeleteMany },
+          balance: { findUnique: mocks.balanceFindUnique, upsert: mocks.balanceUpsert },
+          balanceChange: {
+            findMany: mocks.balanceChangeFindMany,
+            deleteMany: mocks.balanceChangeDeleteMany,
+          },
+          tokenStats: { upsert: mocks.tokenStatsUpsert },
+          activityBucket: {
+            upsert: mocks.activityBucketUpsert,
+            deleteMany: mocks.activityBucketDeleteMany,
+          },
+          activityParticipant: {
+            update: mocks.activityParticipantUpdate,
+            delete: mocks.activityParticipantDelete,
+          },
+          chainStats: { upsert: mocks.chainStatsUpsert },
+          block: { deleteMany: mocks.blockDeleteMany },
+          indexerCheckpoint: { upsert: mocks.checkpointUpsert },
+        };
+        return callback(tx);
+      });
+    });
+
+    it('should delete rows above the fork point and rewind the checkpoint', async () => {
+      mocks.erc20TransferFindMany.mockResolvedValue([]);
+      mocks.swapFindMany.mockResolvedValue([]);
+
+      await storage.rollbackToBlock(18000090n);
+
+      const above = { where: { chainId: 57073, blockNumber: { gt: 18000090n } } };
+      expect(mocks.erc20TransferDeleteMany).toHaveBeenCalledWith(above);
+      expect(mocks.swapDeleteMany).toHaveBeenCalledWith(above);
+      expect(mocks.approvalDeleteMany).toHaveBeenCalledWith(above);
+      expect(mocks.nftTransferDeleteMany).toHaveBeenCalledWith(above);
+      expect(mocks.liquidityEventDeleteMany).toHaveBeenCalledWith(above);
+      expect(mocks.poolSnapshotDeleteMany).toHaveBeenCalledWith(above);
+      expect(mocks.poolDeleteMany).toHaveBeenCalledWith(above);
+      expect(mocks.genericEventDeleteMany).toHaveBeenCalledWith(above);
+      expect(mocks.eventLogDeleteMany).toHaveBeenCalledWith(above);
+      expect(mocks.transactionDeleteMany).toHaveBeenCalledWith(above);
+      expect(mocks.blockDeleteMany).toHaveBeenCalledWith({
+        where: { chainId: 57073, number: { gt: 18000090n } },
+      });
+      expect(mocks.checkpointUpsert.mock.calls[0][0].update.blockNumber).toBe(18000090n);
+    });
+
+    it('should reset allowances set above the fork point to the previous approval', async () => {
+      mocks.allowanceFindMany.mockResolvedValue([
+        { ...ALLOWANCE_KEY.chainId_tokenAddress_owner_spender, blockNumber: 18000095n },
+      ]);
+      mocks.approvalFindFirst.mockResolvedValue({ ...mockApprovalEvent.data, blockNumber: 18000080n });
+      mocks.allowanceFindUnique.mockResolvedValue(null);
+
+      await storage.rollbackToBlock(18000090n);
+
+      expect(mocks.allowanceDeleteMany).toHaveBeenCalledWith({
+        where: { chainId: 57073, blockNumber: { gt: 18000090n } },
+      });
+      expect(mocks.approvalFindFirst.mock.calls[0][0].orderBy).toEqual([
+        { blockNumber: 'desc' },
+        { logIndex: 'desc' },
+      ]);
+      expect(mocks.allowanceUpsert.mock.calls[0][0].create).toMatchObject({
+        value: '1000',
+        blockNumber: 18000080n,
+      });
+    });
+
+    it('should reset pools to their latest surviving snapshot', async () => {
+      mocks.poolStateFindMany.mockResolvedValue([{ poolAddress: '0xBBB', blockNumber: 18000095n }]);
+      mocks.poolSnapshotFindFirst.mockResolvedValue({
+        chainId: 57073,
+        poolAddress: '0xBBB',
+        blockNumber: 18000085n,
+        blockTimestamp: BLOCK_TIMESTAMP,
+        logIndex: 2,
+        reserve0: '10',
+        reserve1: '20',
+        sqrtPriceX96: null,
+        tick: null,
+        liquidity: null,
+      });
+
+      await storage.rollbackToBlock(18000090n);
+
+      expect(mocks.poolStateDeleteMany).toHaveBeenCalledWith({
+        where: { chainId: 57073, blockNumber: { gt: 18000090n } },
+      });
+      expect(mocks.poolStateCreate.mock.calls[0][0].data).toEqual({
+        chainId: 57073,
+        poolAddress: '0xBBB',
+        blockNumber: 18000085n,
+        logIndex: 2,
+        reserve0: '10',
+        reserve1: '20',
+        sqrtPriceX96: null,
+        tick: null,
+        liquidity: null,
+      });
+    });
+
+    it('should return the removed typed events flagged as removed', async () => {
+      mocks.erc20TransferFindMany.mockResolvedValue([mockTransferEvent.data]);
+      // Amounts come back from the database as Decimals
+      mocks.swapFindMany.mockResolvedValue([
+        { ...mockSwapEvent.data, amount0In: new Prisma.Decimal('1000000'), sqrtPriceX96: null },
+      ]);
+      mocks.genericEventFindMany.mockResolvedValue([mockGenericEvent.data]);
+
+      const removed = await storage.rollbackToBlock(18000090n);
+
+      expect(removed).toHaveLength(3);
+      expect(removed[0]).toMatchObject({ type: 'erc20-transfer', removed: true });
+      expect(removed[1].type === 'swap' && removed[1].data.amount0In).toBe('1000000');
+      expect(removed[1]).toMatchObject({ type: 'swap', removed: true });
+      expect(removed[2]).toMatchObject({ type: 'generic', removed: true });
+    });
+
+    it('should take balance changes above the fork point back out of balances', async () => {
+      mocks.balanceChangeFindMany.mockResolvedValue([
+        { tokenAddress: TOKEN, owner: HOLDER, blockNumber: 18000095n, delta: '70' },
+      ]);
+      mocks.balanceUpsert.mockResolvedValue({ value: '30' });
+
+      await storage.rollbackToBlock(18000090n);
+
+      expect(mocks.balanceChangeDeleteMany).toHaveBeenCalledWith({
+        where: { chainId: 57073, blockNumber: { gt: 18000090n } },
+      });
+      expect(mocks.balanceUpsert.mock.calls[0][0].update).toEqual({ value: { increment: '-70' } });
+      expect(mocks.tokenStatsUpsert).not.toHaveBeenCalled();
+    });
+
+    it('should take rolled back rows out of activity and the chain totals', async () => {
+      mocks.erc20TransferFindMany.mockResolvedValue([mockTransferEvent.data]);
+      mocks.swapFindMany.mockResolvedValue([]);
+      mocks.eventLogDeleteMany.mockResolvedValue({ count: 3 });
+      // The sender's only transfer in the bucket, the receiver has others
+      mocks.activityParticipantUpdate.mockImplementation(async ({ where }: any) => ({
+        eventCount: where.chainId_subject_address_interval_bucketStart_role_account.role === 'sender' ? 0 : 4,
+      }));
+      mocks.activityBucketUpsert
+        .mockResolvedValueOnce({ transferCount: 1 })
+        .mockResolvedValueOnce({ transferCount: 0 });
+
+      await storage.rollbackToBlock(18000090n);
+
+      expect(mocks.activityParticipantDelete).toHaveBeenCalledTimes(2);
+      expect(mocks.activityBucketUpsert.mock.calls[0][0].update).toEqual({
+        transferCount: { increment: -1 },
+        uniqueSenders: { increment: -1 },
+        uniqueReceivers: { increment: 0 },
+        volume: { increment: '-1000000000000000000' },
+      });
+      expect(mocks.activityBucketDeleteMany).toHaveBeenCalledTimes(1);
+      expect(mocks.activityBucketDeleteMany).toHaveBeenCalledWith({
+        where: {
+          chainId: 57073,
+          subject: 'token',
+          address: TOKEN,
+          interval: '1d',
+          bucketStart: new Date('2024-01-15T00:00:00Z'),
+        },
+      });
+      expect(mocks.chainStatsUpsert.mock.calls[0][0].update).toEqual({
+        totalEvents: { increment: -3n },
+        totalTransfers: { increment: -1n },
+        totalSwaps: { increment: 0n },
+      });
+    });
+
+    it('should rebuild candles that held rolled back swaps from the swaps left in them', async () => {
+      const survivor = { ...mockSwapEvent.data, blockNumber: 18000085n, logIndex: 0, sqrtPriceX96: null };
+      mocks.swapFindMany
+        .mockResolvedValueOnce([{ ...mockSwapEvent.data, sqrtPriceX96: null }])
+        .mockResolvedValue([survivor]);
+      await storage.rollbackToBlock(18000090n);
+
+      expect(mocks.candleDeleteMany).toHaveBeenCalledTimes(4);
+      expect(mocks.candleDeleteMany).toHaveBeenCalledWith({
+        where: {
+          chainId: 57073,
+          poolAddress: '0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb',
+          interval: '1h',
+          bucketStart: new Date('2024-01-15T12:00:00Z'),
+        },
+      });
+      expect(mocks.swapFindMany.mock.calls[1][0].where.blockTimestamp).toEqual({
+        gte: new Date('2024-01-15T12:00:00Z'),
+        lt: new Date('2024-01-15T12:01:00Z'),
+      });
+      expect(mocks.candleUpsert).toHaveBeenCalledTimes(4);
+      expect(mocks.candleUpsert.mock.calls[0][0].create).toMatchObject({
+        swapCount: 1,
+        openBlockNumber: 18000085n,
+      });
+    });
+  });
+
+  describe('activity', () => {
+    const hour = {
+      chainId: 57073,
+      subject: 'token',
+      address: TOKEN,
+      interval: '1h',
+      bucketStart: new Date('2024-01-15T12:00:00Z'),
+    };
+    const hourKey = { chainId_subject_address_interval_bucketStart: hour };
+
+    it('should count new transfers and swaps in the chain totals', async () => {
+      mocks.eventLogCount.mockResolvedValueOnce(1).mockResolvedValueOnce(3);
+
+      await storage.saveBlockEvents(BLOCK, [mockTransferEvent, mockSwapEvent]);
+
+      expect(mocks.eventLogCount).toHaveBeenCalledWith({
+        where: { chainId: 57073, blockNumber: BLOCK_NUMBER },
+      });
+      expect(mocks.chainStatsUpsert.mock.calls[0][0].update).toEqual({
+        totalEvents: { increment: 2n },
+        totalTransfers: { increment: 1n },
+        totalSwaps: { increment: 1n },
+      });
+    });
+
+    it('should leave totals and activity alone when a block is replayed', async () => {
+      mocks.eventLogCount.mockResolvedValue(2);
+      mocks.erc20TransferFindUnique.mockResolvedValueOnce({ id: 'transfer-1' });
+      mocks.swapFindUnique.mockResolvedValueOnce({ id: 'swap-1' });
+
+      await storage.saveBlockEvents(BLOCK, [mockTransferEvent, mockSwapEvent]);
+
+      expect(mocks.chainStatsUpsert).not.toHaveBeenCalled();
+      expect(mocks.activityBucketUpsert).not.toHaveBeenCalled();
+    });
+
+    it('should open hourly and daily token buckets with the transfer\'s senders and volume', async () => {
+      await storage.saveBlockEvents(BLOCK, [mockTransferEvent]);
+
+      expect(mocks.activityParticipantUpsert).toHaveBeenCalledTimes(4);
+      expect(mocks.activityParticipantUpsert.mock.calls[0][0].create).toEqual({
+        ...hour,
+        role: 'sender',
+        account: HOLDER,
+        eventCount: 1,
+      });
+      expect(mocks.activityBucketUpsert.mock.calls.map(([{ where }]) => where)).toEqual([
+        hourKey,
+        {
+          chainId_subject_address_interval_bucketStart: {
+            ...hour,
+            interval: '1d',
+            bucketStart: new Date('2024-01-15T00:00:00Z'),
+          },
+        },
+      ]);
+      expect(mocks.activityBucketUpsert.mock.calls[0][0].create).toEqual({
+        ...hour,
+        transferCount: 1,
+        uniqueSenders: 1,
+        uniqueReceivers: 1,
+        volume: '1000000000000000000',
+      });
+    });
+
+    it('should only count accounts once per bucket and skip the zero address', async () => {
+      mocks.activityParticipantUpsert.mockResolvedValue({ eventCount: 2 });
+      const mint: DecodedEvent = {
+        type: 'erc20-transfer',
+        data: { ...mockTransferEvent.data, from: '0x0000000000000000000000000000000000000000', value: '100' },
+      };
+
+      await storage.saveBlockEvents(BLOCK, [mint]);
+
+      expect(mocks.activityParticipantUpsert).toHaveBeenCalledTimes(2);
+      expect(mocks.activityParticipantUpsert.mock.calls[0][0].create.role).toBe('receiver');
+      expect(mocks.activityBucketUpsert.mock.calls[0][0].update).toEqual({
+        transferCount: { increment: 1 },
+        uniqueSenders: { increment: 0 },
+        uniqueReceivers: { increment: 0 },
+        volume: { increment: '100' },
+      });
+    });
+
+    it('should net a block\'s events per bucket and account before writing', async () => {
+      mocks.activityParticipantUpsert.mockImplementation(async ({ create }: any) => create);
+      const again: DecodedEvent = {
+        type: 'erc20-transfer',
+        data: { ...mockTransferEvent.data, logIndex: 9, value: '5' },
+      };
+
+      await storage.saveBlockEvents(BLOCK, [mockTransferEvent, again]);
+
+      expect(mocks.activityBucketUpsert).toHaveBeenCalledTimes(2);
+      expect(mocks.activityBucketUpsert.mock.calls[0][0].create).toEqual({
+        ...hour,
+        transferCount: 2,
+        uniqueSenders: 1,
+        uniqueReceivers: 1,
+        volume: '1000000000000000005',
+      });
+      expect(mocks.activityParticipantUpsert).toHaveBeenCalledTimes(4);
+      expect(mocks.activityParticipantUpsert.mock.calls[0][0].update).toEqual({
+        eventCount: { increment: 2 },
+      });
+    });
+
+    it('should run the block\'s writes with explicit transaction limits', async () => {
+      await storage.saveBlockEvents(BLOCK, [mockTransferEvent]);
+
+      expect(mocks.prismaTransaction).toHaveBeenCalledWith(expect.any(Function), {
+        maxWait: expect.any(Number),
+        timeout: expect.any(Number),
+      });
+    });
+
+    it('should count swaps in pool buckets with both volumes', async () => {
+      await storage.saveBlockEvents(BLOCK, [mockSwapEvent]);
+
+      expect(mocks.activityBucketUpsert.mock.calls[0][0].create).toMatchObject({
+        subject: 'pool',
+        address: '0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb',
+        swapCount: 1,
+        volume0: '1000000',
+        volume1: '500000',
+      });
+    });
+
+    it('should list a token\'s buckets oldest first', async () => {
+      mocks.activityBucketFindMany.mockResolvedValue([{ ...hour, transferCount: 4 }]);
+
+      const rows = await storage.getTimeSeries('token', TOKEN.toUpperCase().replace('0X', '0x'), '1h', {
+        to: new Date('2024-01-16T00:00:00Z'),
+      });
+
+      expect(mocks.activityBucketFindMany).toHaveBeenCalledWith({
+        where: {
+          chainId: 57073,
+          subject: 'token',
+          address: TOKEN,
+          interval: '1h',
+          bucketStart: { gte: undefined, lte: new Date('2024-01-16T00:00:00Z') },
+        },
+        take: 500,
+        orderBy: { bucketStart: 'asc' },
+      });
+      expect(rows[0].bucketStart).toBe('2024-01-15T12:00:00.000Z');
+    });
+  });
+
+  describe('candles', () => {
+    const swap = (logIndex: number, amount1Out: string, minute = 0): DecodedEvent => ({
+      type: 'swap',
+      data: {
+        ...mockSwapEvent.data,
+        blockTimestamp: new Date(BLOCK_TIMESTAMP.getTime() + minute * 60_000 + 30_000),
+        amount1Out,
+        logIndex,
+      },
+    });
+    const candle = {
+      open: 0.5,
+      high: 0.5,
+      low: 0.5,
+      close: 0.5,
+      volume0: '1000000',
+      volume1: '500000',
+      swapCount: 1,
+      openBlockNumber: BLOCK_NUMBER,
+      openLogIndex: 5,
+      closeBlockNumber: BLOCK_NUMBER,
+      closeLogIndex: 5,
+    };
+
+    it('should open a candle per interval at the price a new swap paid', async () => {
+      await storage.saveBlockEvents(BLOCK, [swap(1, '500000', 7)]);
+
+      expect(mocks.candleUpsert).toHaveBeenCalledTimes(4);
+      const buckets = mocks.candleUpsert.mock.calls.map(([{ create }]) => [create.interval, create.bucketStart]);
+      expect(buckets).toEqual([
+        ['1m', new Date('2024-01-15T12:07:00Z')],
+        ['5m', new Date('2024-01-15T12:05:00Z')],
+        ['1h', new Date('2024-01-15T12:00:00Z')],
+        ['1d', new Date('2024-01-15T00:00:00Z')],
+      ]);
+      expect(mocks.candleUpsert.mock.calls[0][0].create).toMatchObject({
+        poolAddress: '0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb',
+        open: 0.5,
+        high: 0.5,
+        low: 0.5,
+        close: 0.5,
+        volume0: '1000000',
+        volume1: '500000',
+        swapCount: 1,
+      });
+      expect(mocks.candleUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should price V3 swaps from sqrtPriceX96', async () => {
+      await storage.saveBlockEvents(BLOCK, [mockV3SwapEvent]);
+
+      expect(mocks.candleUpsert.mock.calls[0][0].create).toMatchObject({ open: 1, close: 1 });
+    });
+
+    it('should net a block\'s swaps per candle, widen the range and move open or close by position', async () => {
+      mocks.candleUpsert.mockResolvedValue({ ...candle, swapCount: 3 });
+
+      // A backfilled swap earlier in the block becomes the open, a later one the close
+      await storage.saveBlockEvents(BLOCK, [swap(2, '2000000'), swap(9, '100000')]);
+
+      expect(mocks.candleUpsert).toHaveBeenCalledTimes(4);
+      expect(mocks.candleUpsert.mock.calls[0][0].update).toEqual({
+        volume0: { increment: '2000000' },
+        volume1: { increment: '2100000' },
+        swapCount: { increment: 2 },
+      });
+      const updates = mocks.candleUpdate.mock.calls.filter(([{ where }]) =>
+        where.chainId_poolAddress_interval_bucketStart.interval === '1m'
+      );
+      expect(updates).toHaveLength(1);
+      expect(updates[0][0].data).toEqual({
+        high: 2,
+        low: 0.1,
+        open: 2,
+        openBlockNumber: BLOCK_NUMBER,
+        openLogIndex: 2,
+        close: 0.1,
+        closeBlockNumber: BLOCK_NUMBER,
+        closeLogIndex: 9,
+      });
+    });
+
+    it('should not add a replayed swap again', async () => {
+      mocks.swapFindUnique.mockResolvedValueOnce({ id: 'swap-1' });
+
+      await storage.saveBlockEvents(BLOCK, [mockSwapEvent]);
+
+      expect(mocks.swapUpsert).toHaveBeenCalledTimes(1);
+      expect(mocks.candleUpsert).not.toHaveBeenCalled();
+    });
+
+    it('should skip swaps with no token0 amount to price', async () => {
+      await storage.saveBlockEvents(BLOCK, [
+        { type: 'swap', data: { ...mockSwapEvent.data, amount0In: '0' } },
+      ]);
+
+      expect(mocks.candleUpsert).not.toHaveBeenCalled();
+    });
+
+    it('should list candles in a range oldest first', async () => {
+      mocks.candleFindMany.mockResolvedValue([
+        { chainId: 57073, interval: '1h', bucketStart: BLOCK_TIMESTAMP, openBlockNumber: BLOCK_NUMBER },
+      ]);
+
+      const rows = await storage.getCandles('0xBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBB', '1h', {
+        from: new Date('2024-01-15T00:00:00Z'),
+      });
+
+      expect(mocks.candleFindMany).toHaveBeenCalledWith({
+        where: {
+          chainId: 57073,
+          poolAddress: '0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb',
+          interval: '1h',
+          bucketStart: { gte: new Date('2024-01-15T00:00:00Z'), lte: undefined },
+        },
+        take: 500,
+        orderBy: { bucketStart: 'asc' },
+      });
+      expect(rows[0]).toMatchObject({
+        bucketStart: '2024-01-15T12:00:00.000Z',
+        openBlockNumber: BLOCK_NUMBER.toString(),
+      });
+    });
+  });
+
+  describe('balances', () => {
+    const transfer = (from: string, to: string, value: string, logIndex: number): DecodedEvent => ({
+      type: 'erc20-transfer',
+      data: {
+        ...mockTransferEvent.data,
+        tokenAddress: TOKEN.toUpperCase().replace('0X', '0x'),
+        from,
+        to,
+        value,
+        logIndex,
+      },
+    });
+
+    it('should record net changes per holder and apply them to balances, skipping the zero address', async () => {
+      mocks.balanceChangeFindUnique.mockResolvedValue(null);
+
+      await storage.saveBlockEvents(BLOCK, [
+        transfer('0x0000000000000000000000000000000000000000', HOLDER, '100', 0),
+        transfer(HOLDER, OTHER, '30', 1),
+      ]);
+
+      expect(mocks.balanceChangeUpsert).toHaveBeenCalledTimes(2);
+      expect(mocks.balanceChangeUpsert.mock.calls[0][0].create).toEqual({
+        chainId: 57073,
+        tokenAddress: TOKEN,
+        owner: HOLDER,
+        blockNumber: BLOCK_NUMBER,
+        blockTimestamp: BLOCK_TIMESTAMP,
+        delta: '70',
+      });
+      expect(mocks.balanceUpsert.mock.calls.map((call) => call[0].create)).toEqual([
+        { chainId: 57073, tokenAddress: TOKEN, owner: HOLDER, value: '70' },
+        { chainId: 57073, tokenAddress: TOKEN, owner: OTHER, value: '30' },
+      ]);
+      expect(mocks.balanceUpsert.mock.calls[0][0].update).toEqual({ value: { increment: '70' } });
+      expect(mocks.balanceFindUnique).not.toHaveBeenCalled();
+    });
+
+    it('should count owners whose balance turns positive or drops to zero as holders', async () => {
+      mocks.balanceChangeFindUnique.mockResolvedValue(null);
+      mocks.balanceUpsert.mockImplementation(async ({ where }: any) => ({
+        value: where.chainId_tokenAddress_owner.owner === HOLDER ? '0' : '50',
+      }));
+
+      await storage.saveBlockEvents(BLOCK, [transfer(HOLDER, OTHER, '30', 0)]);
+
+      expect(mocks.tokenStatsUpsert.mock.calls.map((call) => call[0])).toEqual([
+        {
+          where: { chainId_tokenAddress: { chainId: 57073, tokenAddress: TOKEN } },
+          create: { chainId: 57073, tokenAddress: TOKEN, holderCount: -1 },
+          update: { holderCount: { increment: -1 } },
+        },
+      ]);
+    });
+
+    it('should net holder changes per token and write balances in key order', async () => {
+      mocks.balanceChangeFindUnique.mockResolvedValue(null);
+      mocks.balanceUpsert.mockImplementation(async ({ where }: any) => ({
+        value: where.chainId_tokenAddress_owner.owner === HOLDER ? '0' : '30',
+      }));
+
+      // Holder hands everything to a new holder: the count does not move
+      await storage.saveBlockEvents(BLOCK, [transfer(HOLDER, OTHER, '30', 0)]);
+
+      expect(mocks.tokenStatsUpsert).not.toHaveBeenCalled();
+      expect(mocks.balanceUpsert.mock.calls.map((call) => call[0].where.chainId_tokenAddress_owner.owner)).toEqual([
+        HOLDER,
+        OTHER,
+      ]);
+    });
+
+    it('should leave the holder count alone while a balance stays positive', async () => {
+      mocks.balanceChangeFindUnique.mockResolvedValue(null);
+      mocks.balanceUpsert.mockResolvedValue({ value: '100' });
+
+      await storage.saveBlockEvents(BLOCK, [transfer(HOLDER, OTHER, '30', 0)]);
+
+      expect(mocks.balanceUpsert).toHaveBeenCalledTimes(2);
+      expect(mocks.tokenStatsUpsert).not.toHaveBeenCalled();
+    });
+
+    it('should rank top holders by amount and default the holder count to zero', async () => {
+      mocks.balanceFindMany.mockResolvedValue([
+        {
+          chainId: 57073,
+          tokenAddress: TOKEN,
+          owner: HOLDER,
+          value: new Prisma.Decimal('900'),
+          updatedAt: BLOCK_TIMESTAMP,
+        },
+      ]);
+      mocks.tokenStatsFindUnique.mockResolvedValue(null);
+
+      const holders = await storage.getTopHolders(TOKEN.toUpperCase().replace('0X', '0x'), 5);
+
+      expect(holders).toEqual([
+        {
+          chainId: 57073,
+          tokenAddress: TOKEN,
+          owner: HOLDER,
+          value: '900',
+          updatedAt: BLOCK_TIMESTAMP.toISOString(),
+        },
+      ]);
+      expect(mocks.balanceFindMany).toHaveBeenCalledWith({
+        where: { chainId: 57073, tokenAddress: TOKEN, value: { gt: 0 } },
+        take: 5,
+        orderBy: { value: 'desc' },
+      });
+      expect(await storage.getHolderCount(TOKEN)).toBe(0);
+    });
+
+    it('should not count a replayed block twice', async () => {
+      mocks.balanceChangeFindUnique.mockImplementation(async ({ where }: any) => ({
+        delta: where.chainId_tokenAddress_owner_blockNumber.owner === HOLDER ? '-30' : '30',
+      }));
+
+      await storage.saveBlockEvents(BLOCK, [transfer(HOLDER, OTHER, '30', 0)]);
+
+      expect(mocks.balanceChangeUpsert).toHaveBeenCalledTimes(2);
+      expect(mocks.balanceUpsert).not.toHaveBeenCalled();
+    });
+
+    it('should derive the balance at a block from the changes after it', async () => {
+      mocks.balanceFindUnique.mockResolvedValue({ value: '100' });
+      mocks.balanceChangeFindMany.mockResolvedValue([{ delta: '30' }, { delta: '-5' }]);
+
+      const balance = await storage.getBalance(TOKEN, HOLDER.toUpperCase().replace('0X', '0x'), 18000090n);
+
+      expect(balance).toEqual({
+        chainId: 57073,
+        tokenAddress: TOKEN,
+        owner: HOLDER,
+        value: '75',
+        blockNumber: '18000090',
+      });
+      expect(mocks.balanceChangeFindMany.mock.calls[0][0].where).toEqual({
+        chainId: 57073,
+        tokenAddress: TOKEN,
+        owner: HOLDER,
+        blockNumber: { gt: 18000090n },
+      });
+    });
+
+    it('should list balance changes with the balance each one left', async () => {
+      mocks.balanceChangeFindMany.mockResolvedValue([
+        { tokenAddress: TOKEN, owner: HOLDER, blockNumber: 12n, blockTimestamp: BLOCK_TIMESTAMP, delta: '-30' },
+        { tokenAddress: TOKEN, owner: HOLDER, blockNumber: 10n, blockTimestamp: BLOCK_TIMESTAMP, delta: '100' },
+      ]);
+      mocks.balanceFindMany.mockResolvedValue([{ tokenAddress: TOKEN, value: '70' }]);
+
+      const history = await storage.getBalanceHistory(HOLDER, {}, 10);
+
+      expect(history.map((change) => [change.blockNumber, change.delta, change.balance])).toEqual([
+        ['12', '-30', '70'],
+        ['10', '100', '100'],
+      ]);
+    });
+  });
+
+  describe('confirmEvents', () => {
+    beforeEach(() => {
+      mocks.prismaTransaction.mockImplementation(async (callback: any) => {
+        const tx = {
+          eRC20Transfer: { findMany: mocks.erc20TransferFindMany, updateMany: mocks.erc20TransferUpdateMany },
+          swap: { findMany: mocks.swapFindMany, updateMany: mocks.swapUpdateMany },
+          approval: { findMany: mocks.approvalFindMany, updateMany: mocks.approvalUpdateMany },
+          nFTTransfer: { findMany: mocks.nftTransferFindMany, updateMany: mocks.nftTransferUpdateMany },
+          liquidityEvent: {
+            findMany: mocks.liquidityEventFindMany,
+            updateMany: mocks.liquidityEventUpdateMany,
+          },
+          genericEvent: { findMany: mocks.genericEventFindMany, updateMany: mocks.genericEventUpdateMany },
+        };
+        return callback(tx);
+      });
+    });
+
+    it('should promote pending events at or below the confirmed block', async () => {
+      mocks.erc20TransferFindMany.mockResolvedValue([{ ...mockTransferEvent.data, status: 'pending' }]);
+      mocks.swapFindMany.mockResolvedValue([]);
+
+      const confirmed = await storage.confirmEvents(18000100n);
+
+      const where = { chainId: 57073, status: 'pending', blockNumber: { lte: 18000100n } };
+      expect(mocks.erc20TransferUpdateMany).toHaveBeenCalledWith({ where, data: { status: 'confirmed' } });
+      expect(mocks.swapUpdateMany).toHaveBeenCalledWith({ where, data: { status: 'confirmed' } });
+      expect(mocks.approvalUpdateMany).toHaveBeenCalledWith({ where, data: { status: 'confirmed' } });
+      expect(mocks.liquidityEventUpdateMany).toHaveBeenCalledWith({ where, data: { status: 'confirmed' } });
+      expect(mocks.nftTransferUpdateMany).toHaveBeenCalledWith({ where, data: { status: 'confirmed' } });
+      expect(mocks.genericEventUpdateMany).toHaveBeenCalledWith({ where, data: { status: 'confirmed' } });
+      expect(confirmed).toHaveLength(1);
+      expect(confirmed[0]).toMatchObject({ type: 'erc20-transfer', data: { status: 'confirmed' } });
+    });
+
+    it('should skip updates when nothing is pending', async () => {
+      mocks.erc20TransferFindMany.mockResolvedValue([]);
+      mocks.swapFindMany.mockResolvedValue([]);
+
+      expect(await storage.confirmEvents(18000100n)).toEqual([]);
+      expect(mocks.erc20TransferUpdateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('checkpoint', () => {
+    it('should return the persisted checkpoint block', async () => {
+      mocks.checkpointFindUnique.mockResolvedValue({ chainId: 57073, blockNumber: 18000500n });
+
+      expect(await storage.getCheckpoint()).toBe(18000500n);
+    });
+
+    it('should return null when no checkpoint exists', async () => {
+      mocks.checkpointFindUnique.mockResolvedValue(null);
+
+      expect(await storage.getCheckpoint()).toBeNull();
+    });
+
+    it('should upsert the checkpoint for blocks without logs', async () => {
+      mocks.checkpointUpsert.mockResolvedValue({});
+
+      await storage.updateCheckpoint(18000599n);
+
+      expect(mocks.checkpointUpsert).toHaveBeenCalledWith({
+        where: { chainId: 57073 },
+        create: { chainId: 57073, blockNumber: 18000599n },
+        update: { blockNumber: 18000599n },
+      });
+    });
+  });
+
+  describe('backfill shards', () => {
+    it('should create shards and move the live checkpoint in one transaction', async () => {
+      await storage.createBackfillShards(
+        [
+          { fromBlock: 100n, toBlock: 199n },
+          { fromBlock: 200n, toBlock: 250n },
+        ],
+        250n
+      );
+
+      expect(mocks.prismaTransaction).toHaveBeenCalledTimes(1);
+      expect(mocks.backfillShardCreateMany).toHaveBeenCalledWith({
+        data: [
+          { fromBlock: 100n, toBlock: 199n, chainId: 57073, nextBlock: 100n },
+          { fromBlock: 200n, toBlock: 250n, chainId: 57073, nextBlock: 200n },
+        ],
+      });
+      expect(mocks.checkpointUpsert.mock.calls[0][0].update).toEqual({ blockNumber: 250n });
+    });
+
+    it('should only load incomplete shards', async () => {
+      mocks.backfillShardFindMany.mockResolvedValue([]);
+
+      await storage.getIncompleteBackfillShards();
+
+      expect(mocks.backfillShardFindMany.mock.calls[0][0].where).toEqual({
+        chainId: 57073,
+        status: { not: 'complete' },
+      });
+    });
+
+    it('should mark a shard complete once nextBlock passes its end', async () => {
+      await storage.updateBackfillShard({ id: 'shard-1', toBlock: 199n }, 150n);
+      await storage.updateBackfillShard({ id: 'shard-1', toBlock: 199n }, 200n);
+
+      expect(mocks.backfillShardUpdate.mock.calls[0][0].data).toEqual({
+        nextBlock: 150n,
+        status: 'running',
+      });
+      expect(mocks.backfillShardUpdate.mock.calls[1][0].data).toEqual({
+        nextBlock: 200n,
+        status: 'complete',
+      });
+    });
+  });
+
   describe('getStats', () => {
-    it('should return aggregated stats', async () => {
-      mocks.eventLogCount.mockResolvedValue(1000);
-      mocks.erc20TransferCount.mockResolvedValue(800);
-      mocks.swapCount.mockResolvedValue(200);
+    it('should read totals from the chain counters', async () => {
+      mocks.chainStatsFindUnique.mockResolvedValue({
+        chainId: 57073,
+        totalEvents: 1000n,
+        totalTransfers: 800n,
+        totalSwaps: 200n,
+      });
       mocks.eventLogFindFirst.mockResolvedValue({ blockNumber: 18001000n });
 
       const stats = await storage.getStats();
@@ -313,12 +1896,12 @@ describe('EventStorage', () => {
       expect(stats.totalTransfers).toBe(800n);
       expect(stats.totalSwaps).toBe(200n);
       expect(stats.latestBlock).toBe(18001000n);
+      expect(mocks.chainStatsFindUnique).toHaveBeenCalledWith({ where: { chainId: 57073 } });
+      expect(mocks.eventLogCount).not.toHaveBeenCalled();
     });
 
-    it('should return 0n for latestBlock when no events exist', async () => {
-      mocks.eventLogCount.mockResolvedValue(0);
-      mocks.erc20TransferCount.mockResolvedValue(0);
-      mocks.swapCount.mockResolvedValue(0);
+    it('should return zeros before anything is indexed', async () => {
+      mocks.chainStatsFindUnique.mockResolvedValue(null);
       mocks.eventLogFindFirst.mockResolvedValue(null);
 
       const stats = await storage.getStats();
@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  CallExecutionError,
+  ExecutionRevertedError,
+  HttpRequestError,
+  encodeAbiParameters,
+  stringToHex,
+  toFunctionSelector,
+  type PublicClient,
+} from 'viem';
+import { TokenRegistry } from '../../src/indexer/token-registry.js';
+import type { EventStorage } from '../../src/indexer/storage.js';
+
+const TOKEN = '0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa';
+
+const mockCall = vi.fn();
+const mockGetToken = vi.fn();
+const mockSaveToken = vi.fn();
+
+const client = { call: mockCall } as unknown as PublicClient;
+const storage = {
+  chainId: 57073,
+  getToken: mockGetToken,
+  saveToken: mockSaveToken,
+} as unknown as EventStorage;
+
+const SELECTORS = {
+  [toFunctionSelector('name()')]: 'name',
+  [toFunctionSelector('symbol()')]: 'symbol',
+  [toFunctionSelector('decimals()')]: 'decimals',
+} as const;
+
+function reverted() {
+  return new CallExecutionError(new ExecutionRevertedError(), {});
+}
+
+/** Answer getters from results; functions without a result revert */
+function respondWith(results: Partial<Record<'name' | 'symbol' | 'decimals', `0x${string}`>>) {
+  mockCall.mockImplementation(({ data }: { data: keyof typeof SELECTORS }) => {
+    const result = results[SELECTORS[data]];
+    return result ? Promise.resolve({ data: result }) : Promise.reject(reverted());
+  });
+}
+
+describe('TokenRegistry', () => {
+  let registry: TokenRegistry;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    registry = new TokenRegistry(client, storage);
+    mockGetToken.mockResolvedValue(null);
+  });
+
+  it('should read and save name, symbol and decimals', async () => {
+    respondWith({
+      name: encodeAbiParameters([{ type: 'string' }], ['Wrapped Ether']),
+      symbol: encodeAbiParameters([{ type: 'string' }], ['WETH']),
+      decimals: encodeAbiParameters([{ type: 'uint8' }], [18]),
+    });
+
+    const token = await registry.getToken(TOKEN.toUpperCase().replace('0X', '0x'));
+
+    const expected = { chainId: 57073, address: TOKEN, name: 'Wrapped Ether', symbol: 'WETH', decimals: 18 };
+    expect(token).toEqual(expected);
+    expect(mockSaveToken).toHaveBeenCalledWith(expected);
+  });
+
+  it('should decode bytes32 names and symbols', async () => {
+    respondWith({
+      name: stringToHex('Maker', { size: 32 }),
+      symbol: stringToHex('MKR', { size: 32 }),
+      decimals: encodeAbiParameters([{ type: 'uint8' }], [18]),
+    });
+
+    expect(await registry.getToken(TOKEN)).toMatchObject({ name: 'Maker', symbol: 'MKR', decimals: 18 });
+  });
+
+  it('should leave out getters the contract does not implement', async () => {
+    respondWith({ symbol: encodeAbiParameters([{ type: 'string' }], ['ODD']) });
+
+    expect(await registry.getToken(TOKEN)).toMatchObject({ name: null, symbol: 'ODD', decimals: null });
+    expect(mockSaveToken).toHaveBeenCalledTimes(1);
+  });
+
+  it('should serve repeat and concurrent lookups from one read', async () => {
+    respondWith({ decimals: encodeAbiParameters([{ type: 'uint8' }], [6]) });
+
+    await Promise.all([registry.getToken(TOKEN), registry.getToken(TOKEN)]);
+    await registry.getToken(TOKEN);
+
+    expect(mockGetToken).toHaveBeenCalledTimes(1);
+    expect(mockCall).toHaveBeenCalledTimes(3);
+  });
+
+  it('should prefer stored metadata over reading the chain', async () => {
+    mockGetToken.mockResolvedValue({ chainId: 57073, address: TOKEN, name: 'USD Coin', symbol: 'USDC', decimals: 6 });
+
+    expect((await registry.getToken(TOKEN)).symbol).toBe('USDC');
+    expect(mockCall).not.toHaveBeenCalled();
+  });
+
+  it('should return empty metadata without saving when the RPC fails, and retry later', async () => {
+    mockCall.mockRejectedValue(new HttpRequestError({ url: 'https://rpc.example.com', status: 503 }));
+
+    expect(await registry.getToken(TOKEN)).toEqual({
+      chainId: 57073,
+      address: TOKEN,
+      name: null,
+      symbol: null,
+      decimals: null,
+    });
+    expect(mockSaveToken).not.toHaveBeenCalled();
+
+    respondWith({ decimals: encodeAbiParameters([{ type: 'uint8' }], [8]) });
+    expect((await registry.getToken(TOKEN)).decimals).toBe(8);
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { HttpRequestError, type Log, type PublicClient } from 'viem';
+import { TransactionRegistry } from '../../src/indexer/transaction-registry.js';
+import type { EventStorage } from '../../src/indexer/storage.js';
+import type { DecodedEvent } from '../../src/types/events.js';
+
+const TX_A = '0x' + 'aa'.repeat(32);
+const TX_B = '0x' + 'bb'.repeat(32);
+const SENDER = '0x1111111111111111111111111111111111111111';
+const ROUTER = '0x2222222222222222222222222222222222222222';
+
+const mockGetTransaction = vi.fn();
+const mockGetTransactionReceipt = vi.fn();
+const mockGetTransactions = vi.fn();
+
+const client = {
+  getTransaction: mockGetTransaction,
+  getTransactionReceipt: mockGetTransactionReceipt,
+} as unknown as PublicClient;
+const storage = { chainId: 57073, getTransactions: mockGetTransactions } as unknown as EventStorage;
+
+function transferIn(transactionHash: string, logIndex = 0): DecodedEvent {
+  return {
+    type: 'erc20-transfer',
+    data: {
+      from: SENDER,
+      to: ROUTER,
+      value: '1000',
+      tokenAddress: '0x3333333333333333333333333333333333333333',
+      transactionHash,
+      logIndex,
+      blockNumber: 100n,
+      blockTimestamp: new Date('2024-01-15T12:00:00Z'),
+    },
+  };
+}
+
+/** Answer eth_getTransactionByHash/eth_getTransactionReceipt like a successful router call */
+function respond() {
+  mockGetTransaction.mockImplementation(async ({ hash }: { hash: string }) => ({
+    hash,
+    from: SENDER.toUpperCase().replace('0X', '0x'),
+    to: ROUTER,
+    input: '0x38ed1739' + '00'.repeat(64),
+  }));
+  mockGetTransactionReceipt.mockImplementation(async () => ({
+    blockNumber: 100n,
+    gasUsed: 152000n,
+    effectiveGasPrice: 1000000n,
+    status: 'success',
+  }));
+}
+
+describe('TransactionRegistry', () => {
+  let registry: TransactionRegistry;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    registry = new TransactionRegistry(client, storage);
+    mockGetTransactions.mockResolvedValue([]);
+    respond();
+  });
+
+  it('should read each transaction and its receipt once per block', async () => {
+    const transactions = await registry.getTransactions([transferIn(TX_A, 0), transferIn(TX_A, 1)]);
+
+    expect(transactions).toEqual([
+      {
+        chainId: 57073,
+        hash: TX_A,
+        blockNumber: 100n,
+        from: SENDER,
+        to: ROUTER,
+        selector: '0x38ed1739',
+        gasUsed: '152000',
+        effectiveGasPrice: '1000000',
+        status: 'success',
+      },
+    ]);
+    expect(mockGetTransaction).toHaveBeenCalledTimes(1);
+    expect(mockGetTransactionReceipt).toHaveBeenCalledTimes(1);
+  });
+
+  it('should include transactions of logs no decoder matched', async () => {
+    const unknown: DecodedEvent = { type: 'unknown', log: { transactionHash: TX_B } as Log };
+
+    const transactions = await registry.getTransactions([transferIn(TX_A), unknown]);
+
+    expect(transactions.map((transaction) => transaction.hash)).toEqual([TX_A, TX_B]);
+  });
+
+  it('should leave the selector empty for plain transfers and contract creation', async () => {
+    mockGetTransaction.mockResolvedValue({ hash: TX_A, from: SENDER, to: null, input: '0x' });
+
+    expect((await registry.getTransactions([transferIn(TX_A)]))[0]).toMatchObject({
+      to: null,
+      selector: null,
+    });
+  });
+
+  it('should serve repeat lookups from the cache, then from storage', async () => {
+    await registry.getTransactions([transferIn(TX_A)]);
+
+    mockGetTransactions.mockResolvedValue([{ chainId: 57073, hash: TX_B, from: SENDER }]);
+    const transactions = await registry.getTransactions([transferIn(TX_A), transferIn(TX_B)]);
+
+    expect(transactions).toHaveLength(2);
+    expect(mockGetTransactions).toHaveBeenLastCalledWith([TX_B]);
+    expect(mockGetTransaction).toHaveBeenCalledTimes(1);
+  });
+
+  it('should read transactions again after a reset', async () => {
+    await registry.getTransactions([transferIn(TX_A)]);
+
+    registry.reset();
+    await registry.getTransactions([transferIn(TX_A)]);
+
+    expect(mockGetTransactions).toHaveBeenCalledTimes(2);
+    expect(mockGetTransaction).toHaveBeenCalledTimes(2);
+  });
+
+  it('should throw RPC failures so the block is retried', async () => {
+    mockGetTransactionReceipt.mockRejectedValueOnce(
+      new HttpRequestError({ url: 'https://rpc.example.com', status: 503 })
+    );
+
+    await expect(registry.getTransactions([transferIn(TX_A)])).rejects.toThrow(HttpRequestError);
+
+    expect(await registry.getTransactions([transferIn(TX_A)])).toHaveLength(1);
+    expect(mockGetTransaction).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { toEventSelector, type Abi } from 'viem';
+import { AbiRegistry } from '../../src/indexer/abi-registry.js';
+
+const TRANSFER_ABI: Abi = [
+  {
+    type: 'event',
+    name: 'Transfer',
+    inputs: [
+      { type: 'address', name: 'from', indexed: true },
+      { type: 'address', name: 'to', indexed: true },
+      { type: 'uint256', name: 'value', indexed: false },
+    ],
+  },
+];
+
+// Same selector as TRANSFER_ABI; ERC-721 indexes the token id
+const NFT_TRANSFER_ABI: Abi = [
+  {
+    type: 'event',
+    name: 'Transfer',
+    inputs: [
+      { type: 'address', name: 'from', indexed: true },
+      { type: 'address', name: 'to', indexed: true },
+      { type: 'uint256', name: 'tokenId', indexed: true },
+    ],
+  },
+  { type: 'function', name: 'ownerOf', inputs: [], outputs: [], stateMutability: 'view' },
+];
+
+const TRANSFER_TOPIC = toEventSelector('Transfer(address,address,uint256)');
+const CONTRACT = '0xAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA';
+const OTHER = '0xBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBB';
+
+describe('AbiRegistry', () => {
+  it('should index events by selector and skip non-event entries', () => {
+    const registry = new AbiRegistry();
+    registry.register(NFT_TRANSFER_ABI);
+
+    expect(registry.size).toBe(1);
+    expect(registry.lookup(OTHER, TRANSFER_TOPIC)).toEqual([
+      { abiEvent: NFT_TRANSFER_ABI[0], signature: 'Transfer(address,address,uint256)' },
+    ]);
+    expect(registry.lookup(OTHER, '0x' + 'de'.repeat(32))).toEqual([]);
+  });
+
+  it('should return contract-specific candidates before global ones', () => {
+    const registry = new AbiRegistry();
+    registry.register(TRANSFER_ABI);
+    registry.register(NFT_TRANSFER_ABI, [CONTRACT]);
+
+    const candidates = registry.lookup(CONTRACT.toLowerCase(), TRANSFER_TOPIC.toUpperCase().replace('0X', '0x'));
+
+    expect(candidates.map((candidate) => candidate.abiEvent)).toEqual([
+      NFT_TRANSFER_ABI[0],
+      TRANSFER_ABI[0],
+    ]);
+    expect(registry.lookup(OTHER, TRANSFER_TOPIC)).toHaveLength(1);
+  });
+
+  describe('fromDirectory', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'abis-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should load bare ABI arrays and address-scoped ABI files', () => {
+      writeFileSync(join(dir, 'token.json'), JSON.stringify(TRANSFER_ABI));
+      writeFileSync(join(dir, 'nft.json'), JSON.stringify({ abi: NFT_TRANSFER_ABI, addresses: [CONTRACT] }));
+      writeFileSync(join(dir, 'README.md'), 'not an abi');
+
+      const registry = AbiRegistry.fromDirectory(dir);
+
+      expect(registry.size).toBe(2);
+      expect(registry.lookup(CONTRACT, TRANSFER_TOPIC)).toHaveLength(2);
+      expect(registry.lookup(OTHER, TRANSFER_TOPIC)).toHaveLength(1);
+    });
+
+    it('should name the file when it is not valid JSON or not an ABI', () => {
+      writeFileSync(join(dir, 'broken.json'), '{');
+      expect(() => AbiRegistry.fromDirectory(dir)).toThrow('Invalid ABI file broken.json');
+
+      writeFileSync(join(dir, 'broken.json'), JSON.stringify({ addresses: [CONTRACT] }));
+      expect(() => AbiRegistry.fromDirectory(dir)).toThrow(
+        'Invalid ABI file broken.json: expected an ABI array or { abi, addresses }'
+      );
+    });
+  });
+});
@@ -0,0 +1,14 @@
+import { describe, it, expect } from 'vitest';
+import { getChain } from '../../src/indexer/chains.js';
+
+describe('getChain', () => {
+  it('should resolve chains known to viem by id', () => {
+    expect(getChain(57073).name).toBe('Ink');
+    expect(getChain(763373).name).toBe('Ink Sepolia');
+    expect(getChain(10).name).toBe('OP Mainnet');
+  });
+
+  it('should throw for unknown chain ids', () => {
+    expect(() => getChain(424242424242)).toThrow('Unsupported chain id 424242424242');
+  });
+});
@@ -1,6 +1,7 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import { encodeEventTopics, encodeAbiParameters, type Log } from 'viem';
-import { EventDecoder } from '../../src/indexer/event-decoder.js';
+import { EventDecoder, defineHandler } from '../../src/indexer/event-decoder.js';
+import { AbiRegistry } from '../../src/indexer/abi-registry.js';
 
 // ABI definitions matching the decoder
 const ERC20_TRANSFER_ABI = [
@@ -39,7 +40,7 @@ const SWAP_V3_ABI = [
       { type: 'address' as const, name: 'recipient' as const, indexed: true },
       { type: 'int256' as const, name: 'amount0' as const, indexed: false },
       { type: 'int256' as const, name: 'amount1' as const, indexed: false },
-      { type: 'uint256' as const, name: 'sqrtPriceX96' as const, indexed: false },
+      { type: 'uint160' as const, name: 'sqrtPriceX96' as const, indexed: false },
       { type: 'uint128' as const, name: 'liquidity' as const, indexed: false },
       { type: 'int24' as const, name: 'tick' as const, indexed: false },
     ],
@@ -103,7 +104,7 @@ function encodeV3SwapLog(
     args: { sender, recipient },
   });
   const data = encodeAbiParameters(
-    [{ type: 'int256' }, { type: 'int256' }, { type: 'uint256' }, { type: 'uint128' }, { type: 'int24' }],
+    [{ type: 'int256' }, { type: 'int256' }, { type: 'uint160' }, { type: 'uint128' }, { type: 'int24' }],
     [params.amount0, params.amount1, params.sqrtPriceX96, params.liquidity, params.tick]
   );
   return { topics, data };
@@ -153,6 +154,8 @@ describe('EventDecoder', () => {
         expect(result.data.logIndex).toBe(0);
         expect(result.data.blockNumber).toBe(BLOCK_NUMBER);
         expect(result.data.blockTimestamp).toBe(BLOCK_TIMESTAMP);
+        expect(result.data.topics).toEqual(topics);
+        expect(result.data.data).toBe(data);
       }
     });
 
@@ -198,6 +201,151 @@ describe('EventDecoder', () => {
     });
   });
 
+  describe('ERC-20 Approval decoding', () => {
+    const APPROVAL_ABI = [
+      {
+        type: 'event' as const,
+        name: 'Approval' as const,
+        inputs: [
+          { type: 'address' as const, name: 'owner' as const, indexed: true },
+          { type: 'address' as const, name: 'spender' as const, indexed: true },
+          { type: 'uint256' as const, name: 'value' as const, indexed: false },
+        ],
+      },
+    ] as const;
+
+    it('should decode an unlimited Approval', () => {
+      const topics = encodeEventTopics({
+        abi: APPROVAL_ABI,
+        eventName: 'Approval',
+        args: { owner: MOCK_ADDRESSES.from, spender: MOCK_ADDRESSES.to },
+      });
+      const data = encodeAbiParameters([{ type: 'uint256' }], [2n ** 256n - 1n]);
+
+      const result = decoder.decode(createMockLog({ topics, data }), BLOCK_TIMESTAMP);
+
+      expect(result.type).toBe('approval');
+      if (result.type === 'approval') {
+        expect(result.data).toMatchObject({
+          tokenAddress: MOCK_ADDRESSES.token,
+          owner: MOCK_ADDRESSES.from,
+          spender: MOCK_ADDRESSES.to,
+          value: (2n ** 256n - 1n).toString(),
+        });
+      }
+    });
+  });
+
+  describe('NFT transfer decoding', () => {
+    const ERC721_TRANSFER_ABI = [
+      {
+        type: 'event' as const,
+        name: 'Transfer' as const,
+        inputs: [
+          { type: 'address' as const, name: 'from' as const, indexed: true },
+          { type: 'address' as const, name: 'to' as const, indexed: true },
+          { type: 'uint256' as const, name: 'tokenId' as const, indexed: true },
+        ],
+      },
+    ] as const;
+
+    const ERC1155_TRANSFER_ABI = [
+      {
+        type: 'event' as const,
+        name: 'TransferSingle' as const,
+        inputs: [
+          { type: 'address' as const, name: 'operator' as const, indexed: true },
+          { type: 'address' as const, name: 'from' as const, indexed: true },
+          { type: 'address' as const, name: 'to' as const, indexed: true },
+          { type: 'uint256' as const, name: 'id' as const, indexed: false },
+          { type: 'uint256' as const, name: 'value' as const, indexed: false },
+        ],
+      },
+      {
+        type: 'event' as const,
+        name: 'TransferBatch' as const,
+        inputs: [
+          { type: 'address' as const, name: 'operator' as const, indexed: true },
+          { type: 'address' as const, name: 'from' as const, indexed: true },
+          { type: 'address' as const, name: 'to' as const, indexed: true },
+          { type: 'uint256[]' as const, name: 'ids' as const, indexed: false },
+          { type: 'uint256[]' as const, name: 'values' as const, indexed: false },
+        ],
+      },
+    ] as const;
+
+    const participants = {
+      operator: MOCK_ADDRESSES.sender,
+      from: MOCK_ADDRESSES.from,
+      to: MOCK_ADDRESSES.to,
+    };
+
+    it('should decode an ERC-721 Transfer by its indexed tokenId instead of as ERC-20', () => {
+      const topics = encodeEventTopics({
+        abi: ERC721_TRANSFER_ABI,
+        eventName: 'Transfer',
+        args: { from: MOCK_ADDRESSES.from, to: MOCK_ADDRESSES.to, tokenId: 42n },
+      });
+      const log = createMockLog({ topics, data: '0x' });
+
+      const result = decoder.decode(log, BLOCK_TIMESTAMP);
+
+      expect(result.type).toBe('nft-transfer');
+      if (result.type === 'nft-transfer') {
+        expect(result.data).toMatchObject({
+          standard: 'erc721',
+          tokenAddress: MOCK_ADDRESSES.token,
+          operator: null,
+          from: MOCK_ADDRESSES.from,
+          to: MOCK_ADDRESSES.to,
+          tokenIds: ['42'],
+          amounts: ['1'],
+        });
+      }
+    });
+
+    it('should decode an ERC-1155 TransferSingle', () => {
+      const topics = encodeEventTopics({
+        abi: ERC1155_TRANSFER_ABI,
+        eventName: 'TransferSingle',
+        args: participants,
+      });
+      const data = encodeAbiParameters([{ type: 'uint256' }, { type: 'uint256' }], [7n, 250n]);
+
+      const result = decoder.decode(createMockLog({ topics, data }), BLOCK_TIMESTAMP);
+
+      expect(result.type).toBe('nft-transfer');
+      if (result.type === 'nft-transfer') {
+        expect(result.data).toMatchObject({
+          standard: 'erc1155',
+          operator: MOCK_ADDRESSES.sender,
+          tokenIds: ['7'],
+          amounts: ['250'],
+        });
+      }
+    });
+
+    it('should decode every token in an ERC-1155 TransferBatch', () => {
+      const topics = encodeEventTopics({
+        abi: ERC1155_TRANSFER_ABI,
+        eventName: 'TransferBatch',
+        args: participants,
+      });
+      const data = encodeAbiParameters(
+        [{ type: 'uint256[]' }, { type: 'uint256[]' }],
+        [[1n, 2n, 3n], [10n, 20n, 30n]]
+      );
+
+      const result = decoder.decode(createMockLog({ topics, data }), BLOCK_TIMESTAMP);
+
+      expect(result.type).toBe('nft-transfer');
+      if (result.type === 'nft-transfer') {
+        expect(result.data.tokenIds).toEqual(['1', '2', '3']);
+        expect(result.data.amounts).toEqual(['10', '20', '30']);
+      }
+    });
+  });
+
   describe('Uniswap V2 Swap decoding', () => {
     it('should decode a V2 Swap event (token0 in, token1 out)', () => {
       const { topics, data } = encodeV2SwapLog(
@@ -219,6 +367,7 @@ describe('EventDecoder', () => {
         expect(result.data.poolAddress).toBe(MOCK_ADDRESSES.pool);
         expect(result.data.sender).toBe(MOCK_ADDRESSES.sender);
         expect(result.data.recipient).toBe(MOCK_ADDRESSES.recipient);
+        expect(result.data.protocol).toBe('uniswap-v2');
         expect(result.data.amount0In).toBe('1000000');
         expect(result.data.amount1In).toBe('0');
         expect(result.data.amount0Out).toBe('0');
@@ -254,7 +403,19 @@ describe('EventDecoder', () => {
   });
 
   describe('Uniswap V3 Swap decoding', () => {
-    it('should decode a V3 Swap with negative amount0 (token0 in) and positive amount1 (token1 out)', () => {
+    it('should match the canonical V3 Swap topic', () => {
+      const { topics } = encodeV3SwapLog(MOCK_ADDRESSES.sender, MOCK_ADDRESSES.recipient, {
+        amount0: 0n,
+        amount1: 0n,
+        sqrtPriceX96: 0n,
+        liquidity: 0n,
+        tick: 0,
+      });
+
+      expect(topics[0]).toBe('0xc42079f94a6350d7e6235f29174924f928cc2ac818eb64fed8004e115fbcca67');
+    });
+
+    it('should decode a V3 Swap with negative amount0 (token0 out) and positive amount1 (token1 in)', () => {
       const { topics, data } = encodeV3SwapLog(
         MOCK_ADDRESSES.sender,
         MOCK_ADDRESSES.recipient,
@@ -280,14 +441,36 @@ describe('EventDecoder', () => {
         expect(result.data.poolAddress).toBe(MOCK_ADDRESSES.pool);
         expect(result.data.sender).toBe(MOCK_ADDRESSES.sender);
         expect(result.data.recipient).toBe(MOCK_ADDRESSES.recipient);
-        expect(result.data.amount0In).toBe('500000');
-        expect(result.data.amount1In).toBe('0');
-        expect(result.data.amount0Out).toBe('0');
-        expect(result.data.amount1Out).toBe('1000000');
+        expect(result.data.protocol).toBe('uniswap-v3');
+        expect(result.data.amount0In).toBe('0');
+        expect(result.data.amount1In).toBe('1000000');
+        expect(result.data.amount0Out).toBe('500000');
+        expect(result.data.amount1Out).toBe('0');
+        expect(result.data.amount0).toBe('-500000');
+        expect(result.data.amount1).toBe('1000000');
       }
     });
 
-    it('should decode a V3 Swap with positive amount0 (token0 out) and negative amount1 (token1 in)', () => {
+    it('should keep the V3 pool price, liquidity and tick', () => {
+      const { topics, data } = encodeV3SwapLog(MOCK_ADDRESSES.sender, MOCK_ADDRESSES.recipient, {
+        amount0: -1n,
+        amount1: 1n,
+        sqrtPriceX96: 79228162514264337593543950336n,
+        liquidity: 1000000000n,
+        tick: -887272,
+      });
+
+      const result = decoder.decode(createMockLog({ topics, data }), BLOCK_TIMESTAMP);
+
+      expect(result.type).toBe('swap');
+      if (result.type === 'swap') {
+        expect(result.data.sqrtPriceX96).toBe('79228162514264337593543950336');
+        expect(result.data.liquidity).toBe('1000000000');
+        expect(result.data.tick).toBe(-887272);
+      }
+    });
+
+    it('should decode a V3 Swap with positive amount0 (token0 in) and negative amount1 (token1 out)', () => {
       const { topics, data } = encodeV3SwapLog(
         MOCK_ADDRESSES.sender,
         MOCK_ADDRESSES.recipient,
@@ -310,10 +493,161 @@ describe('EventDecoder', () => {
 
       expect(result.type).toBe('swap');
       if (result.type === 'swap') {
-        expect(result.data.amount0In).toBe('0');
-        expect(result.data.amount1In).toBe('300000');
-        expect(result.data.amount0Out).toBe('750000');
-        expect(result.data.amount1Out).toBe('0');
+        expect(result.data.amount0In).toBe('750000');
+        expect(result.data.amount1In).toBe('0');
+        expect(result.data.amount0Out).toBe('0');
+        expect(result.data.amount1Out).toBe('300000');
+        expect(result.data.amount0).toBe('750000');
+        expect(result.data.amount1).toBe('-300000');
+      }
+    });
+  });
+
+  describe('Pool liquidity decoding', () => {
+    const POOL_ABI = [
+      {
+        type: 'event' as const,
+        name: 'Sync' as const,
+        inputs: [
+          { type: 'uint112' as const, name: 'reserve0' as const, indexed: false },
+          { type: 'uint112' as const, name: 'reserve1' as const, indexed: false },
+        ],
+      },
+      {
+        type: 'event' as const,
+        name: 'Mint' as const,
+        inputs: [
+          { type: 'address' as const, name: 'sender' as const, indexed: false },
+          { type: 'address' as const, name: 'owner' as const, indexed: true },
+          { type: 'int24' as const, name: 'tickLower' as const, indexed: true },
+          { type: 'int24' as const, name: 'tickUpper' as const, indexed: true },
+          { type: 'uint128' as const, name: 'amount' as const, indexed: false },
+          { type: 'uint256' as const, name: 'amount0' as const, indexed: false },
+          { type: 'uint256' as const, name: 'amount1' as const, indexed: false },
+        ],
+      },
+    ] as const;
+
+    it('should decode a V2 Sync as the new reserves', () => {
+      const topics = encodeEventTopics({ abi: POOL_ABI, eventName: 'Sync' });
+      const data = encodeAbiParameters([{ type: 'uint112' }, { type: 'uint112' }], [2000n, 3000n]);
+
+      const result = decoder.decode(createMockLog({ address: MOCK_ADDRESSES.pool, topics, data }), BLOCK_TIMESTAMP);
+
+      expect(result.type).toBe('liquidity');
+      if (result.type === 'liquidity') {
+        expect(result.data).toMatchObject({
+          poolAddress: MOCK_ADDRESSES.pool,
+          kind: 'sync',
+          amount0: '2000',
+          amount1: '3000',
+          tickLower: null,
+        });
+      }
+    });
+
+    it('should decode a V3 Mint with its position range', () => {
+      const topics = encodeEventTopics({
+        abi: POOL_ABI,
+        eventName: 'Mint',
+        args: { owner: MOCK_ADDRESSES.recipient, tickLower: -60, tickUpper: 60 },
+      });
+      const data = encodeAbiParameters(
+        [{ type: 'address' }, { type: 'uint128' }, { type: 'uint256' }, { type: 'uint256' }],
+        [MOCK_ADDRESSES.sender, 500n, 10n, 20n]
+      );
+
+      const result = decoder.decode(createMockLog({ address: MOCK_ADDRESSES.pool, topics, data }), BLOCK_TIMESTAMP);
+
+      expect(result.type).toBe('liquidity');
+      if (result.type === 'liquidity') {
+        expect(result.data).toMatchObject({
+          kind: 'mint',
+          sender: MOCK_ADDRESSES.sender,
+          owner: MOCK_ADDRESSES.recipient,
+          tickLower: -60,
+          tickUpper: 60,
+          liquidity: '500',
+          amount0: '10',
+          amount1: '20',
+        });
+      }
+    });
+  });
+
+  describe('Factory pool creation decoding', () => {
+    const FACTORY_ABI = [
+      {
+        type: 'event' as const,
+        name: 'PairCreated' as const,
+        inputs: [
+          { type: 'address' as const, name: 'token0' as const, indexed: true },
+          { type: 'address' as const, name: 'token1' as const, indexed: true },
+          { type: 'address' as const, name: 'pair' as const, indexed: false },
+          { type: 'uint256' as const, name: '' as const, indexed: false },
+        ],
+      },
+      {
+        type: 'event' as const,
+        name: 'PoolCreated' as const,
+        inputs: [
+          { type: 'address' as const, name: 'token0' as const, indexed: true },
+          { type: 'address' as const, name: 'token1' as const, indexed: true },
+          { type: 'uint24' as const, name: 'fee' as const, indexed: true },
+          { type: 'int24' as const, name: 'tickSpacing' as const, indexed: false },
+          { type: 'address' as const, name: 'pool' as const, indexed: false },
+        ],
+      },
+    ] as const;
+    const FACTORY = '0xCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCC';
+    const NEW_POOL = '0x5555555555555555555555555555555555555555';
+
+    it('should decode a V2 PairCreated with lowercase addresses', () => {
+      const topics = encodeEventTopics({
+        abi: FACTORY_ABI,
+        eventName: 'PairCreated',
+        args: { token0: MOCK_ADDRESSES.from, token1: MOCK_ADDRESSES.to },
+      });
+      const data = encodeAbiParameters([{ type: 'address' }, { type: 'uint256' }], [NEW_POOL, 7n]);
+
+      const result = decoder.decode(createMockLog({ address: FACTORY, topics, data }), BLOCK_TIMESTAMP);
+
+      expect(result).toEqual({
+        type: 'pool-created',
+        data: {
+          factoryAddress: FACTORY.toLowerCase(),
+          poolAddress: NEW_POOL,
+          token0: MOCK_ADDRESSES.from,
+          token1: MOCK_ADDRESSES.to,
+          fee: null,
+          tickSpacing: null,
+          transactionHash: TX_HASH,
+          logIndex: 0,
+          blockNumber: BLOCK_NUMBER,
+          blockTimestamp: BLOCK_TIMESTAMP,
+          topics,
+          data,
+        },
+      });
+    });
+
+    it('should decode a V3 PoolCreated with its fee tier and tick spacing', () => {
+      const topics = encodeEventTopics({
+        abi: FACTORY_ABI,
+        eventName: 'PoolCreated',
+        args: { token0: MOCK_ADDRESSES.from, token1: MOCK_ADDRESSES.to, fee: 3000 },
+      });
+      const data = encodeAbiParameters([{ type: 'int24' }, { type: 'address' }], [60, NEW_POOL]);
+
+      const result = decoder.decode(createMockLog({ address: FACTORY, topics, data }), BLOCK_TIMESTAMP);
+
+      expect(result.type).toBe('pool-created');
+      if (result.type === 'pool-created') {
+        expect(result.data).toMatchObject({
+          poolAddress: NEW_POOL,
+          fee: 3000,
+          tickSpacing: 60,
+        });
       }
     });
   });
@@ -420,4 +754,115 @@ describe('EventDecoder', () => {
       }
     });
   });
+
+  describe('Handler registration', () => {
+    const STAKE_ABI = [
+      {
+        type: 'event' as const,
+        name: 'Staked' as const,
+        inputs: [
+          { type: 'address' as const, name: 'owner' as const, indexed: true },
+          { type: 'address' as const, name: 'spender' as const, indexed: true },
+          { type: 'uint256' as const, name: 'value' as const, indexed: false },
+        ],
+      },
+    ] as const;
+
+    it('should route logs to handlers registered for their topic0 and topic count', () => {
+      const custom = new EventDecoder();
+      const build = vi.fn((args: Record<string, any>, log: Log) => ({ type: 'unknown' as const, log }));
+      custom.register(defineHandler(STAKE_ABI, build));
+
+      const topics = encodeEventTopics({
+        abi: STAKE_ABI,
+        eventName: 'Staked',
+        args: { owner: MOCK_ADDRESSES.from, spender: MOCK_ADDRESSES.to },
+      });
+      const data = encodeAbiParameters([{ type: 'uint256' }], [5n]);
+      custom.decode(createMockLog({ topics, data }), BLOCK_TIMESTAMP);
+
+      expect(build).toHaveBeenCalledWith(
+        { owner: MOCK_ADDRESSES.from, spender: MOCK_ADDRESSES.to, value: 5n },
+        expect.anything(),
+        BLOCK_TIMESTAMP
+      );
+    });
+
+    it('should skip handlers whose topic count differs', () => {
+      const custom = new EventDecoder();
+      const build = vi.fn();
+      custom.register(defineHandler(STAKE_ABI, build));
+
+      const [topic0] = encodeEventTopics({ abi: STAKE_ABI, eventName: 'Staked' });
+      const result = custom.decode(createMockLog({ topics: [topic0], data: '0x' }), BLOCK_TIMESTAMP);
+
+      expect(build).not.toHaveBeenCalled();
+      expect(result.type).toBe('unknown');
+    });
+  });
+
+  describe('Registry ABI decoding', () => {
+    const DEPOSIT_ABI = [
+      {
+        type: 'event' as const,
+        name: 'Deposit' as const,
+        inputs: [
+          { type: 'address' as const, name: 'user' as const, indexed: true },
+          { type: 'uint256' as const, name: 'amount' as const, indexed: false },
+          { type: 'bool' as const, name: 'locked' as const, indexed: false },
+        ],
+      },
+    ] as const;
+
+    function encodeDepositLog(user: `0x${string}`, amount: bigint, locked: boolean) {
+      const topics = encodeEventTopics({ abi: DEPOSIT_ABI, eventName: 'Deposit', args: { user } });
+      const data = encodeAbiParameters([{ type: 'uint256' }, { type: 'bool' }], [amount, locked]);
+      return { topics, data };
+    }
+
+    it('should decode events from registered ABIs with JSON-safe args', () => {
+      const registry = new AbiRegistry();
+      registry.register(DEPOSIT_ABI);
+      const { topics, data } = encodeDepositLog(MOCK_ADDRESSES.from, 10n ** 30n, true);
+      const log = createMockLog({ topics, data });
+
+      const result = new EventDecoder(registry).decode(log, BLOCK_TIMESTAMP);
+
+      expect(result.type).toBe('generic');
+      if (result.type === 'generic') {
+        expect(result.data).toMatchObject({
+          address: MOCK_ADDRESSES.token,
+          eventName: 'Deposit',
+          signature: 'Deposit(address,uint256,bool)',
+          args: { user: MOCK_ADDRESSES.from, amount: (10n ** 30n).toString(), locked: true },
+          topics,
+          data,
+          blockNumber: BLOCK_NUMBER,
+        });
+      }
+    });
+
+    it('should only use address-scoped ABIs for their contracts', () => {
+      const registry = new AbiRegistry();
+      registry.register(DEPOSIT_ABI, [MOCK_ADDRESSES.pool]);
+      const { topics, data } = encodeDepositLog(MOCK_ADDRESSES.from, 1n, false);
+
+      const decoder = new EventDecoder(registry);
+
+      expect(decoder.decode(createMockLog({ topics, data }), BLOCK_TIMESTAMP).type).toBe('unknown');
+      expect(
+        decoder.decode(createMockLog({ topics, data, address: MOCK_ADDRESSES.pool }), BLOCK_TIMESTAMP).type
+      ).toBe('generic');
+    });
+
+    it('should prefer built-in decoders over registry ABIs', () => {
+      const registry = new AbiRegistry();
+      registry.register(ERC20_TRANSFER_ABI);
+      const { topics, data } = encodeTransferLog(MOCK_ADDRESSES.from, MOCK_ADDRESSES.to, 1n);
+
+      const result = new EventDecoder(registry).decode(createMockLog({ topics, data }), BLOCK_TIMESTAMP);
+
+      expect(result.type).toBe('erc20-transfer');
+    });
+  });
 });
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { AdaptiveLogRange, isRangeLimitError } from '../../src/indexer/log-range.js';
+
+describe('AdaptiveLogRange', () => {
+  it('should start at the initial range clamped to the bounds', () => {
+    expect(new AdaptiveLogRange({ minRange: 10n, maxRange: 1000n, initialRange: 100n }).get()).toBe(100n);
+    expect(new AdaptiveLogRange({ minRange: 10n, maxRange: 50n, initialRange: 100n }).get()).toBe(50n);
+    expect(new AdaptiveLogRange({ minRange: 10n, maxRange: 1000n }).get()).toBe(10n);
+  });
+
+  it('should halve on shrink down to the minimum', () => {
+    const range = new AdaptiveLogRange({ minRange: 10n, maxRange: 1000n, initialRange: 40n });
+
+    expect(range.shrink()).toBe(true);
+    expect(range.get()).toBe(20n);
+    expect(range.shrink()).toBe(true);
+    expect(range.get()).toBe(10n);
+    expect(range.shrink()).toBe(false);
+    expect(range.get()).toBe(10n);
+  });
+
+  it('should double while responses stay below the target log count', () => {
+    const range = new AdaptiveLogRange({
+      minRange: 10n,
+      maxRange: 150n,
+      initialRange: 50n,
+      targetLogCount: 100,
+    });
+
+    range.grow(20);
+    expect(range.get()).toBe(100n);
+    range.grow(20);
+    expect(range.get()).toBe(150n);
+  });
+
+  it('should not grow after a dense response', () => {
+    const range = new AdaptiveLogRange({
+      minRange: 10n,
+      maxRange: 1000n,
+      initialRange: 50n,
+      targetLogCount: 100,
+    });
+
+    range.grow(500);
+    expect(range.get()).toBe(50n);
+  });
+});
+
+describe('isRangeLimitError', () => {
+  it('should recognize common provider range errors', () => {
+    expect(isRangeLimitError(new Error('query returned more than 10000 results'))).toBe(true);
+    expect(isRangeLimitError(new Error('block range too large'))).toBe(true);
+    expect(isRangeLimitError(new Error('exceed maximum block range: 5000'))).toBe(true);
+    expect(isRangeLimitError(new Error('Log response size exceeded.'))).toBe(true);
+    expect(isRangeLimitError(new Error('eth_getLogs block range limit exceeded'))).toBe(true);
+  });
+
+  it('should look through the error cause chain and details', () => {
+    const cause = Object.assign(new Error('RPC Request failed'), {
+      details: 'query returned more than 10000 results. Try with this block range [0x1, 0x2]',
+    });
+    expect(isRangeLimitError(new Error('HTTP request failed', { cause }))).toBe(true);
+  });
+
+  it('should ignore unrelated errors', () => {
+    expect(isRangeLimitError(new Error('fetch failed'))).toBe(false);
+    expect(isRangeLimitError(new Error('rate limit exceeded'))).toBe(false);
+    expect(isRangeLimitError(new Error('daily request limit exceeded'))).toBe(false);
+    expect(isRangeLimitError(undefined)).toBe(false);
+  });
+});
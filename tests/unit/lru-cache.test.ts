@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { LRUCache } from '../../src/lib/lru-cache.js';
+
+describe('LRUCache', () => {
+  it('should return cached values', () => {
+    const cache = new LRUCache<bigint, string>(10);
+    cache.set(1n, 'a');
+
+    expect(cache.get(1n)).toBe('a');
+    expect(cache.get(2n)).toBeUndefined();
+  });
+
+  it('should evict the least recently used entry when full', () => {
+    const cache = new LRUCache<string, number>(2);
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.get('a');
+    cache.set('c', 3);
+
+    expect(cache.get('a')).toBe(1);
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('c')).toBe(3);
+    expect(cache.size).toBe(2);
+  });
+
+  it('should delete entries matching a predicate', () => {
+    const cache = new LRUCache<bigint, string>(10);
+    cache.set(1n, 'a');
+    cache.set(2n, 'b');
+    cache.set(3n, 'c');
+
+    cache.deleteWhere((key) => key > 1n);
+
+    expect(cache.get(1n)).toBe('a');
+    expect(cache.size).toBe(1);
+  });
+});